@@ -1,9 +1,13 @@
 
 import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
-import type { Transaction, Account, CryptoData, AssetPerformance, ProfitAnalysisData, Section, PriceAlert, Toast, ChatMessage, SentimentAnalysisResult, PortfolioHistoryPoint, RebalanceSuggestion, ComparisonMode, CriticalAlert } from './types';
+import type { Transaction, Account, CostBasisMethod, CryptoData, AssetPerformance, ProfitAnalysisData, Section, PriceAlert, Toast, ChatMessage, SentimentAnalysisResult, PortfolioHistoryPoint, RebalanceSuggestion, ComparisonMode, CriticalAlert, TaxRules, TaxRegime, AppLockSettings } from './types';
 import { Section as SectionEnum } from './types';
 import useLocalStorage from './hooks/useLocalStorage';
+import useLargeStorage from './hooks/useLargeStorage';
 import useDebounce from './hooks/useDebounce';
+import useLedger from './hooks/useLedger';
+import useIdleTimer from './hooks/useIdleTimer';
+import useTabLeader from './hooks/useTabLeader';
 import Header from './components/Header';
 import TransactionsSection from './components/sections/TransactionsSection';
 import DashboardSection from './components/sections/DashboardSection';
@@ -22,11 +26,19 @@ import ToastNotification from './components/ui/ToastNotification';
 import AssetDetailView from './components/views/AssetDetailView';
 import AIChatView from './components/views/AIChatView';
 import OnboardingGuide from './components/OnboardingGuide';
+import PinLockScreen from './components/PinLockScreen';
 import CriticalAlertsBanner from './components/ui/CriticalAlertsBanner';
 import { generateChatResponse, generateDailyBriefing, generateMarketSentiment, generateCriticalAlerts } from './services/geminiService';
 import { calculateAssetPerformance, calculateProfitAnalysis, calculatePortfolioHistory, calculateAllAssetsHistoricalValues } from './services/calculationService';
 import { getProxiedUrl } from './services/proxyService';
 import { fetchHistoricalPrices } from './services/historicalPriceService';
+import { getTransactionAssets, involvesAsset } from './services/transactionTypes';
+import { resolveTransfers, createTransferId } from './services/transferService';
+import { DEFAULT_COST_BASIS_METHOD, resolveCostBasisMethod } from './services/costBasisService';
+import { buildTaxLedgers } from './services/taxRegimeService';
+import { DEFAULT_TAX_RULES } from './services/taxRules';
+import { isUnlocked as isVaultUnlocked } from './services/secureStorage';
+import { postTabMessage, subscribeToTabMessages, tabId } from './services/tabLeader';
 
 type CryptoMap = Record<string, string>;
 type HistoricalPrices = Record<string, Record<string, number> | null>;
@@ -165,7 +177,7 @@ const renderFormattedMessage = (text: string) => {
 
 
 const App: React.FC = () => {
-    const [accounts, setAccounts] = useLocalStorage<Account[]>('accounts', DEMO_ACCOUNTS);
+    const [accounts, setAccounts] = useLargeStorage<Account[]>('accounts', DEMO_ACCOUNTS);
     const [activeAccountIds, setActiveAccountIds] = useLocalStorage<number[]>('activeAccountIds', [1]);
 
     const [cryptoData, setCryptoData] = useState<CryptoData>({});
@@ -174,7 +186,7 @@ const App: React.FC = () => {
 
     const [isAnalysisModalOpen, setAnalysisModalOpen] = useState(false);
     const [isAnalyzing, setIsAnalyzing] = useState(false); // For Chat
-    const [chatHistory, setChatHistory] = useLocalStorage<ChatMessage[]>('chatHistory', []);
+    const [chatHistory, setChatHistory] = useLargeStorage<ChatMessage[]>('chatHistory', []);
     const [isWebSearchEnabled, setIsWebSearchEnabled] = useState(false);
 
     const [isSettingsModalOpen, setSettingsModalOpen] = useState(false);
@@ -190,7 +202,7 @@ const App: React.FC = () => {
     const [toasts, setToasts] = useState<Toast[]>([]);
     const [alertFormAsset, setAlertFormAsset] = useState('');
     const [selectedProxy, setSelectedProxy] = useLocalStorage<string>('selectedProxy', 'corsproxy.io');
-    const [historicalPrices, setHistoricalPrices] = useLocalStorage<HistoricalPrices>('historicalPrices', {});
+    const [historicalPrices, setHistoricalPrices] = useLargeStorage<HistoricalPrices>('historicalPrices', {});
     const [lastHistoryUpdateTimestamp, setLastHistoryUpdateTimestamp] = useLocalStorage<string | null>('lastHistoryUpdateTimestamp', null);
     const [isFetchingHistory, setIsFetchingHistory] = useState(false);
     const [watchlist, setWatchlist] = useLocalStorage<string[]>('watchlist', ['DOGE', 'SHIB']);
@@ -206,6 +218,13 @@ const App: React.FC = () => {
 
     const [areNotificationsEnabled, setAreNotificationsEnabled] = useLocalStorage<boolean>('areNotificationsEnabled', false);
     const [isPrivacyMode, setIsPrivacyMode] = useLocalStorage<boolean>('isPrivacyMode', false);
+    const [appLock, setAppLock] = useLocalStorage<AppLockSettings | null>('appLock', null);
+    // The PIN is asked on load, unless the encryption passphrase was just typed to open the app.
+    const [isAppLocked, setIsAppLocked] = useState(() => appLock !== null && !isVaultUnlocked());
+    // Only the leader tab polls prices and runs the background jobs; the other tabs get its results.
+    const isLeaderTab = useTabLeader();
+    const [costBasisMethod, setCostBasisMethod] = useLocalStorage<CostBasisMethod>('costBasisMethod', DEFAULT_COST_BASIS_METHOD);
+    const [taxRules, setTaxRules] = useLocalStorage<TaxRules>('taxRules', DEFAULT_TAX_RULES);
     const notificationSound = useMemo(() => new Audio('https://cdn.freesound.org/previews/511/511486_6142149-lq.mp3'), []);
 
     // State for Sentiment Analysis
@@ -226,14 +245,25 @@ const App: React.FC = () => {
 
 
     // --- State for persistent sections ---
-    const initialRebalancePlan: RebalancePlanState = {
-        targetAllocations: {},
+    // Only the target allocations are saved; the rest of the plan (AI analysis, capital change) lasts for the session.
+    const [targetAllocations, setTargetAllocations] = useLocalStorage<Record<string, number>>('targetAllocations', {});
+    const [rebalanceSession, setRebalanceSession] = useState<Omit<RebalancePlanState, 'targetAllocations'>>({
         lockedAllocations: {},
         anchoredAssets: {},
         capitalChange: '',
         aiAnalysisText: null,
-    };
-    const [rebalancePlan, setRebalancePlan] = useState<RebalancePlanState>(initialRebalancePlan);
+    });
+    const rebalancePlan = useMemo(() => ({ ...rebalanceSession, targetAllocations }), [rebalanceSession, targetAllocations]);
+    const rebalancePlanRef = useRef(rebalancePlan);
+    rebalancePlanRef.current = rebalancePlan;
+    const setRebalancePlan = useCallback((action: React.SetStateAction<RebalancePlanState>) => {
+        const previous = rebalancePlanRef.current;
+        const next = action instanceof Function ? action(previous) : action;
+        rebalancePlanRef.current = next;
+        const { targetAllocations: nextTargets, ...nextSession } = next;
+        if (nextTargets !== previous.targetAllocations) setTargetAllocations(nextTargets);
+        setRebalanceSession(nextSession);
+    }, [setTargetAllocations]);
 
     const initialComparatorPlan: ComparatorPlanState = {
         selectedAssets: [],
@@ -315,30 +345,6 @@ const App: React.FC = () => {
         }
     }, [addToast]);
 
-    useEffect(() => {
-        // One-time migration for old alert structure
-        const needsMigration = alerts.length > 0 && ('targetPrice' in alerts[0] || !('type' in alerts[0]));
-        if (needsMigration) {
-            console.log("Migrating alerts structure...");
-            setAlerts(prevAlerts => prevAlerts.map(a => {
-                const legacyAlert = a as any;
-                const migrated: PriceAlert = {
-                    id: legacyAlert.id,
-                    asset: legacyAlert.asset,
-                    type: legacyAlert.type || 'price',
-                    condition: legacyAlert.condition,
-                    targetValue: legacyAlert.targetPrice || legacyAlert.targetValue || 0,
-                    recurring: legacyAlert.recurring || false,
-                    proximity: legacyAlert.proximity,
-                    triggered: legacyAlert.triggered,
-                    triggeredAt: legacyAlert.triggeredAt,
-                };
-                return migrated;
-            }));
-            addToast("Estrutura de alertas atualizada.", "info");
-        }
-    }, []); // Run only once on mount, relies on the initial value from localStorage
-
     useEffect(() => {
         if (accounts.length === 0) {
             const defaultAccount = { id: 1, name: 'Carteira Principal', transactions: [] };
@@ -355,11 +361,12 @@ const App: React.FC = () => {
         }
     }, [accounts, activeAccountIds, setAccounts, setActiveAccountIds]);
 
-    const activeTransactions = useMemo(() => {
-        return accounts
-            .filter(acc => activeAccountIds.includes(acc.id))
-            .flatMap(acc => acc.transactions);
-    }, [accounts, activeAccountIds]);
+    const activeTransactions = useMemo(() => resolveTransfers(accounts, activeAccountIds, costBasisMethod), [accounts, activeAccountIds, costBasisMethod]);
+
+    const effectiveCostBasisMethod = useMemo(
+        () => resolveCostBasisMethod(accounts.filter(acc => activeAccountIds.includes(acc.id)), costBasisMethod),
+        [accounts, activeAccountIds, costBasisMethod]
+    );
 
     const activeAccountNames = useMemo(() => {
         return accounts
@@ -376,7 +383,7 @@ const App: React.FC = () => {
             const now = Date.now();
             const oneDay = 24 * 60 * 60 * 1000;
 
-            if (cmcApiKey && (!mapTimestamp || (now - parseInt(mapTimestamp)) > oneDay)) {
+            if (isLeaderTab && cmcApiKey && (!mapTimestamp || (now - parseInt(mapTimestamp)) > oneDay)) {
                 console.log("Buscando novo mapa de criptomoedas...");
                 try {
                     const apiUrl = 'https://pro-api.coinmarketcap.com/v1/cryptocurrency/map';
@@ -421,7 +428,7 @@ const App: React.FC = () => {
             }
         };
         loadCryptoMap();
-    }, [cmcApiKey, setCryptoMap, selectedProxy]);
+    }, [cmcApiKey, setCryptoMap, selectedProxy, isLeaderTab]);
 
     // FIX: Use a ref to store historicalPrices to break the dependency cycle in the useCallback.
     const historicalPricesRef = useRef(historicalPrices);
@@ -430,7 +437,7 @@ const App: React.FC = () => {
     }, [historicalPrices]);
 
     const handleUpdateHistoricalData = useCallback(async (symbols?: string[], force: boolean = false) => {
-        const allSymbolsInPortfolio = Array.from(new Set(activeTransactions.map(tx => tx.asset))) as string[];
+        const allSymbolsInPortfolio = Array.from(new Set(activeTransactions.flatMap(getTransactionAssets))) as string[];
 
         let assetsToCheck: string[] = [];
         if (symbols) {
@@ -466,13 +473,15 @@ const App: React.FC = () => {
             return;
         }
 
-        const transactionsForFetching = activeTransactions.filter(tx => assetsThatNeedFetching.includes(tx.asset));
+        const transactionsForFetching = activeTransactions.filter(tx => getTransactionAssets(tx).some(asset => assetsThatNeedFetching.includes(asset)));
         const earliestTxDates = new Map<string, string>();
         transactionsForFetching.forEach(tx => {
-            const currentMinDate = earliestTxDates.get(tx.asset);
-            if (!currentMinDate || tx.date < currentMinDate) {
-                earliestTxDates.set(tx.asset, tx.date);
-            }
+            getTransactionAssets(tx).forEach(asset => {
+                const currentMinDate = earliestTxDates.get(asset);
+                if (!currentMinDate || tx.date < currentMinDate) {
+                    earliestTxDates.set(asset, tx.date);
+                }
+            });
         });
 
         // Add dummy transactions for assets that might not have them but need history (e.g. from AI suggestion or watchlist)
@@ -510,18 +519,32 @@ const App: React.FC = () => {
         }
     }, [activeTransactions, selectedProxy, cryptoCompareApiKey, addToast, setHistoricalPrices, setSettingsModalOpen, setLastHistoryUpdateTimestamp, onboardingCompleted]);
 
+    // Quotes in BRL for the currencies an exchange CSV is priced in, reusing (and filling) the historical price cache.
+    const handleLoadQuoteRates = useCallback(async (earliestDates: Record<string, string>): Promise<HistoricalPrices> => {
+        const dummyTransactions: Transaction[] = Object.entries(earliestDates).map(([asset, date]) => ({
+            id: -1, asset, type: 'buy', date, quantity: 0, value: 0
+        }));
+        const { prices: newPrices, errors } = await fetchHistoricalPrices(dummyTransactions, historicalPricesRef.current, selectedProxy, cryptoCompareApiKey);
+        if (Object.keys(newPrices).length > 0) {
+            setHistoricalPrices(prev => ({ ...prev, ...newPrices }));
+        }
+        errors.forEach(err => addToast(err, "error"));
+        return { ...historicalPricesRef.current, ...newPrices };
+    }, [selectedProxy, cryptoCompareApiKey, addToast, setHistoricalPrices]);
+
     useEffect(() => {
+        if (!isLeaderTab) return;
         const now = new Date().getTime();
         const oneDay = 24 * 60 * 60 * 1000;
 
         if (!lastHistoryUpdateTimestamp || (now - parseInt(lastHistoryUpdateTimestamp)) > oneDay) {
             console.log("Automatic daily check: Historical data is older than 24 hours. Updating...");
-            const allSymbols = Array.from(new Set(activeTransactions.map(tx => tx.asset))) as string[];
+            const allSymbols = Array.from(new Set(activeTransactions.flatMap(getTransactionAssets))) as string[];
             if (allSymbols.length > 0) {
                 handleUpdateHistoricalData(allSymbols, true);
             }
         }
-    }, [activeTransactions, handleUpdateHistoricalData, lastHistoryUpdateTimestamp]);
+    }, [activeTransactions, handleUpdateHistoricalData, lastHistoryUpdateTimestamp, isLeaderTab]);
 
     const alertSymbolsList = useMemo(() => {
         return Array.from(new Set(alerts.map(a => a.asset))).sort();
@@ -531,7 +554,7 @@ const App: React.FC = () => {
         const symbolsToFetch = new Set<string>();
 
         // Add transaction symbols
-        activeTransactions.forEach(tx => symbolsToFetch.add(tx.asset));
+        activeTransactions.forEach(tx => getTransactionAssets(tx).forEach(asset => symbolsToFetch.add(asset)));
 
         // Add alert symbols, filtering out special ones
         alertSymbolsList.forEach(s => {
@@ -560,14 +583,23 @@ const App: React.FC = () => {
 
     const debouncedUniqueSymbols = useDebounce(uniqueSymbols, 500);
 
+    const ownSymbolsRef = useRef(debouncedUniqueSymbols);
+    ownSymbolsRef.current = debouncedUniqueSymbols;
+
+    // Assets each other tab needs: only the leader tab fetches prices, so it polls for all of them.
+    // Read at fetch time, so a tab opening or closing doesn't restart the polling interval.
+    const otherTabsSymbolsRef = useRef<Record<string, string[]>>({});
+    const lastSharedPricesRef = useRef<{ cryptoData: CryptoData; lastUpdated: number } | null>(null);
+
     const fetchPrices = useCallback(async () => {
-        if (!cmcApiKey || debouncedUniqueSymbols.length === 0) {
+        const pollingSymbols = Array.from(new Set([...debouncedUniqueSymbols, ...Object.values(otherTabsSymbolsRef.current).flat()]));
+        if (!cmcApiKey || pollingSymbols.length === 0) {
             setCryptoData({});
             return;
         }
         setIsLoadingPrices(true);
         try {
-            const correctedSymbols = debouncedUniqueSymbols.map(s => cryptoMap[s.toUpperCase()] || s);
+            const correctedSymbols = pollingSymbols.map(s => cryptoMap[s.toUpperCase()] || s);
             const apiUrl = `https://pro-api.coinmarketcap.com/v1/cryptocurrency/quotes/latest?symbol=${correctedSymbols.join(',')}&convert=BRL`;
             const response = await fetch(getProxiedUrl(apiUrl, selectedProxy), {
                 headers: {
@@ -587,15 +619,18 @@ const App: React.FC = () => {
             for (const symbol in json.data) {
                 if (Object.prototype.hasOwnProperty.call(json.data, symbol)) {
                     const crypto = json.data[symbol];
-                    const originalSymbol = debouncedUniqueSymbols.find(s => (cryptoMap[s.toUpperCase()] || s) === symbol) || symbol;
+                    const originalSymbol = pollingSymbols.find(s => (cryptoMap[s.toUpperCase()] || s) === symbol) || symbol;
                     newCryptoData[originalSymbol] = {
                         price: crypto.quote.BRL.price,
                         percent_change_24h: crypto.quote.BRL.percent_change_24h,
                     };
                 }
             }
+            const updatedAt = new Date();
             setCryptoData(newCryptoData);
-            setLastUpdated(new Date());
+            setLastUpdated(updatedAt);
+            lastSharedPricesRef.current = { cryptoData: newCryptoData, lastUpdated: updatedAt.getTime() };
+            postTabMessage({ type: 'prices', ...lastSharedPricesRef.current });
         } catch (error) {
             console.error("Falha ao buscar preços das criptomoedas:", error);
             let errorMessage = error instanceof Error ? error.message : String(error);
@@ -614,32 +649,81 @@ const App: React.FC = () => {
             setSettingsModalOpen(true);
             return;
         }
+        if (!isLeaderTab) {
+            postTabMessage({ type: 'refresh' });
+            return;
+        }
         fetchPrices();
     };
 
     useEffect(() => {
-        if (isAutoRefreshEnabled) {
+        if (isAutoRefreshEnabled && isLeaderTab) {
             fetchPrices();
             const interval = setInterval(fetchPrices, 5 * 60 * 1000); // Refresh every 5 minutes
             return () => clearInterval(interval);
         }
-    }, [fetchPrices, isAutoRefreshEnabled]);
+    }, [fetchPrices, isAutoRefreshEnabled, isLeaderTab]);
+
+    // Followers tell the leader which assets they need and show the prices it shares.
+    useEffect(() => {
+        if (!isLeaderTab) postTabMessage({ type: 'symbols', tabId, symbols: debouncedUniqueSymbols });
+    }, [debouncedUniqueSymbols, isLeaderTab]);
+
+    const fetchPricesRef = useRef(fetchPrices);
+    fetchPricesRef.current = fetchPrices;
+
+    useEffect(() => subscribeToTabMessages(message => {
+        switch (message.type) {
+            case 'prices':
+                setCryptoData(message.cryptoData);
+                setLastUpdated(new Date(message.lastUpdated));
+                break;
+            case 'alert':
+                addToast(message.message, 'info');
+                break;
+            case 'leader':
+                postTabMessage({ type: 'symbols', tabId, symbols: ownSymbolsRef.current });
+                break;
+            case 'symbols': {
+                if (!isLeaderTab) break;
+                const polled = new Set([...ownSymbolsRef.current, ...Object.values(otherTabsSymbolsRef.current).flat()]);
+                otherTabsSymbolsRef.current = { ...otherTabsSymbolsRef.current, [message.tabId]: message.symbols };
+                if (lastSharedPricesRef.current) postTabMessage({ type: 'prices', ...lastSharedPricesRef.current });
+                // Assets nobody polled yet are fetched right away instead of waiting for the next interval.
+                if (isAutoRefreshEnabled && message.symbols.some(symbol => !polled.has(symbol))) fetchPricesRef.current();
+                break;
+            }
+            case 'bye': {
+                const { [message.tabId]: _closed, ...rest } = otherTabsSymbolsRef.current;
+                otherTabsSymbolsRef.current = rest;
+                break;
+            }
+            case 'refresh':
+                if (isLeaderTab) fetchPricesRef.current();
+                break;
+        }
+    }), [isLeaderTab, isAutoRefreshEnabled, addToast]);
 
     const removeToast = (id: string) => {
         setToasts(prev => prev.filter(t => t.id !== id));
     };
 
-    const performanceData: AssetPerformance[] = useMemo(() => calculateAssetPerformance(activeTransactions, cryptoData), [activeTransactions, cryptoData]);
-    const profitAnalysisData: ProfitAnalysisData[] = useMemo(() => calculateProfitAnalysis(activeTransactions, cryptoData), [activeTransactions, cryptoData]);
+    const ledger = useLedger(activeTransactions, effectiveCostBasisMethod);
+
+    const taxLedgers = useMemo(() => buildTaxLedgers(accounts, activeAccountIds, costBasisMethod), [accounts, activeAccountIds, costBasisMethod]);
+    const performanceData: AssetPerformance[] = useMemo(() => calculateAssetPerformance(ledger, cryptoData), [ledger, cryptoData]);
+    const profitAnalysisData: ProfitAnalysisData[] = useMemo(() => calculateProfitAnalysis(ledger, cryptoData), [ledger, cryptoData]);
     const totalCostBasis = useMemo(() => performanceData.reduce((sum, asset) => sum + asset.totalInvested, 0), [performanceData]);
     const totalPortfolioValue = useMemo(() => performanceData.reduce((sum, asset) => sum + asset.currentValue, 0), [performanceData]);
     const totalUnrealizedProfit = useMemo(() => profitAnalysisData.reduce((sum, asset) => sum + asset.unrealizedProfit, 0), [profitAnalysisData]);
-    const portfolioHistoryForAI = useMemo(() => calculatePortfolioHistory(activeTransactions, historicalPrices, cryptoData), [activeTransactions, historicalPrices, cryptoData]);
-    const allAssetsHistoricalValues = useMemo(() => calculateAllAssetsHistoricalValues(activeTransactions, historicalPrices, cryptoData), [activeTransactions, historicalPrices, cryptoData]);
+    const portfolioHistoryForAI = useMemo(() => calculatePortfolioHistory(ledger, historicalPrices, cryptoData), [ledger, historicalPrices, cryptoData]);
+    const allAssetsHistoricalValues = useMemo(() => calculateAllAssetsHistoricalValues(ledger, historicalPrices, cryptoData), [ledger, historicalPrices, cryptoData]);
 
     const hasSpecialAlerts = useMemo(() => alerts.some(a => a.asset.startsWith('__')), [alerts]);
 
     useEffect(() => {
+        // Only the leader checks alerts, so each one notifies once; the alerts it updates sync to the other tabs.
+        if (!isLeaderTab) return;
         const canCheckAlerts = lastUpdated !== null || (debouncedUniqueSymbols.length === 0 && hasSpecialAlerts);
 
         if (!canCheckAlerts || alerts.length === 0) {
@@ -692,6 +776,7 @@ const App: React.FC = () => {
 
             if (conditionMet && !alert.triggered) {
                 addToast(message, 'info');
+                postTabMessage({ type: 'alert', message });
                 if (areNotificationsEnabled) {
                     notificationSound.play().catch(e => console.error("Erro ao tocar som de notificação:", e));
                     if (Notification.permission === 'granted') {
@@ -716,10 +801,11 @@ const App: React.FC = () => {
             setAlerts(updatedAlerts);
         }
 
-    }, [cryptoData, alerts, setAlerts, addToast, totalPortfolioValue, totalUnrealizedProfit, areNotificationsEnabled, notificationSound, lastUpdated, debouncedUniqueSymbols, hasSpecialAlerts]);
+    }, [cryptoData, alerts, setAlerts, addToast, totalPortfolioValue, totalUnrealizedProfit, areNotificationsEnabled, notificationSound, lastUpdated, debouncedUniqueSymbols, hasSpecialAlerts, isLeaderTab]);
 
     // Verificação diária de alertas críticos (notícias importantes)
     useEffect(() => {
+        if (!isLeaderTab) return;
         const runCriticalAlertCheck = async () => {
             const ownedAssets = performanceData.map(p => p.symbol);
             if (ownedAssets.length === 0 || !geminiApiKey) {
@@ -747,7 +833,9 @@ const App: React.FC = () => {
                     }));
 
                     setCriticalAlerts(newAlerts);
-                    addToast(`⚠️ ${newAlerts.length} alerta(s) crítico(s) identificado(s) pela IA!`, 'info');
+                    const message = `⚠️ ${newAlerts.length} alerta(s) crítico(s) identificado(s) pela IA!`;
+                    addToast(message, 'info');
+                    postTabMessage({ type: 'alert', message });
                 } else {
                     setCriticalAlerts([]);
                 }
@@ -766,7 +854,7 @@ const App: React.FC = () => {
         if (!lastCriticalAlertCheck || (now - lastCriticalAlertCheck) > TWENTY_FOUR_HOURS_IN_MS) {
             runCriticalAlertCheck();
         }
-    }, [performanceData, lastCriticalAlertCheck, setLastCriticalAlertCheck, setCriticalAlerts, addToast]);
+    }, [performanceData, lastCriticalAlertCheck, setLastCriticalAlertCheck, setCriticalAlerts, addToast, isLeaderTab]);
 
 
     const handleAddTransaction = (tx: Omit<Transaction, 'id'>) => {
@@ -782,7 +870,8 @@ const App: React.FC = () => {
         setAccounts(prev => prev.map(acc => {
             if (acc.id === activeAccountIds[0]) {
                 const newId = acc.transactions.length > 0 ? Math.max(...acc.transactions.map(t => t.id)) + 1 : 1;
-                return { ...acc, transactions: [...acc.transactions, { ...tx, id: newId }] };
+                const newTx: Transaction = tx.type === 'transfer' ? { ...tx, id: newId, transferId: createTransferId() } : { ...tx, id: newId };
+                return { ...acc, transactions: [...acc.transactions, newTx] };
             }
             return acc;
         }));
@@ -793,7 +882,9 @@ const App: React.FC = () => {
         if (isMultiAccountView) return;
         setAccounts(prev => prev.map(acc => {
             if (acc.id === activeAccountIds[0]) {
-                return { ...acc, transactions: acc.transactions.map(tx => tx.id === updatedTx.id ? updatedTx : tx) };
+                // A trade turned into a transfer needs the id that links it to the destination account.
+                const txToStore = updatedTx.type === 'transfer' && !updatedTx.transferId ? { ...updatedTx, transferId: createTransferId() } : updatedTx;
+                return { ...acc, transactions: acc.transactions.map(tx => tx.id === updatedTx.id ? txToStore : tx) };
             }
             return acc;
         }));
@@ -834,17 +925,17 @@ const App: React.FC = () => {
         });
     };
 
-    const handleAddAccount = (name: string) => {
+    const handleAddAccount = (name: string, accountCostBasisMethod?: CostBasisMethod, taxRegime?: TaxRegime) => {
         const newId = accounts.length > 0 ? Math.max(...accounts.map(a => a.id)) + 1 : 1;
-        const newAccount: Account = { id: newId, name, transactions: [] };
+        const newAccount: Account = { id: newId, name, transactions: [], costBasisMethod: accountCostBasisMethod, taxRegime };
         setAccounts(prev => [...prev, newAccount]);
         setActiveAccountIds([newId]);
         addToast(`Conta "${name}" criada.`, 'success');
     };
 
-    const handleUpdateAccount = (id: number, newName: string) => {
-        setAccounts(prev => prev.map(acc => acc.id === id ? { ...acc, name: newName } : acc));
-        addToast('Nome da conta atualizado.', 'success');
+    const handleUpdateAccount = (id: number, newName: string, accountCostBasisMethod?: CostBasisMethod, taxRegime?: TaxRegime) => {
+        setAccounts(prev => prev.map(acc => acc.id === id ? { ...acc, name: newName, costBasisMethod: accountCostBasisMethod, taxRegime } : acc));
+        addToast('Conta atualizada.', 'success');
     };
 
     const handleDeleteAccount = (id: number) => {
@@ -860,11 +951,11 @@ const App: React.FC = () => {
         }
     };
 
-    const handleSaveAccount = (name: string, id?: number) => {
+    const handleSaveAccount = (name: string, id?: number, accountCostBasisMethod?: CostBasisMethod, taxRegime?: TaxRegime) => {
         if (id !== undefined) {
-            handleUpdateAccount(id, name);
+            handleUpdateAccount(id, name, accountCostBasisMethod, taxRegime);
         } else {
-            handleAddAccount(name);
+            handleAddAccount(name, accountCostBasisMethod, taxRegime);
         }
     };
 
@@ -889,23 +980,43 @@ const App: React.FC = () => {
         });
     };
 
-    const handleImportTransactions = (importedTxs: Omit<Transaction, 'id'>[]) => {
+    // `mergedTxs` are stored transactions updated with the data of an imported duplicate; they keep their ids.
+    const handleImportTransactions = (importedTxs: Omit<Transaction, 'id'>[], mergedTxs: Transaction[] = []) => {
         if (isMultiAccountView) {
             addToast("Por favor, selecione uma única conta para importar transações.", "error");
             return;
         }
+        const mergedById = new Map(mergedTxs.map(tx => [tx.id, tx]));
         setAccounts(prev => prev.map(acc => {
             if (acc.id === activeAccountIds[0]) {
                 const maxId = acc.transactions.length > 0 ? Math.max(...acc.transactions.map(t => t.id)) : 0;
                 const newTxsWithIds = importedTxs.map((tx, index) => ({
                     ...tx,
                     id: maxId + index + 1,
+                    ...(tx.type === 'transfer' && !tx.transferId ? { transferId: createTransferId() } : {}),
                 }));
-                addToast(`${newTxsWithIds.length} transações importadas com sucesso!`, 'success');
-                return { ...acc, transactions: [...acc.transactions, ...newTxsWithIds] };
+                return { ...acc, transactions: [...acc.transactions.map(tx => mergedById.get(tx.id) ?? tx), ...newTxsWithIds] };
+            }
+            return acc;
+        }));
+        addToast(
+            mergedTxs.length > 0
+                ? `${importedTxs.length} transações importadas e ${mergedTxs.length} mescladas com as já registradas.`
+                : `${importedTxs.length} transações importadas com sucesso!`,
+            'success'
+        );
+    };
+
+    const handleDeleteTransactions = (ids: number[]) => {
+        if (isMultiAccountView) return;
+        const toDelete = new Set(ids);
+        setAccounts(prev => prev.map(acc => {
+            if (acc.id === activeAccountIds[0]) {
+                return { ...acc, transactions: acc.transactions.filter(tx => !toDelete.has(tx.id)) };
             }
             return acc;
         }));
+        addToast(`${ids.length} transações duplicadas removidas.`, 'success');
     };
 
     const handleAddAlert = (alert: Omit<PriceAlert, 'id' | 'triggered' | 'triggeredAt'>) => {
@@ -1231,7 +1342,7 @@ const App: React.FC = () => {
             if (!assetHistory && cryptoCompareApiKey) {
                 addToast(`Dados históricos para ${assetSymbol} não encontrados. Buscando...`, 'info');
 
-                let assetTransactions = activeTransactions.filter(tx => tx.asset === assetSymbol);
+                let assetTransactions = activeTransactions.filter(tx => involvesAsset(tx, assetSymbol));
                 if (assetTransactions.length === 0) {
                     const threeYearsAgo = new Date();
                     threeYearsAgo.setDate(threeYearsAgo.getDate() - 1095);
@@ -1372,7 +1483,7 @@ const App: React.FC = () => {
         if (selectedAssetSymbol) {
             let assetPerformance = performanceData.find(p => p.symbol === selectedAssetSymbol);
             let assetProfitAnalysis = profitAnalysisData.find(p => p.symbol === selectedAssetSymbol);
-            const assetTransactions = activeTransactions.filter(tx => tx.asset === selectedAssetSymbol);
+            const assetTransactions = activeTransactions.filter(tx => involvesAsset(tx, selectedAssetSymbol));
 
             const isOwned = !!assetPerformance;
 
@@ -1411,6 +1522,9 @@ const App: React.FC = () => {
                     transactions={assetTransactions}
                     cryptoData={cryptoData}
                     historicalPrices={historicalPrices}
+                    ledger={ledger}
+                    taxLedger={taxLedgers?.domestic ?? ledger}
+                    taxRules={taxRules}
                     onBack={handleBackToDashboard}
                 />
             );
@@ -1423,22 +1537,30 @@ const App: React.FC = () => {
                     onAddTransaction={handleAddTransaction}
                     onUpdateTransaction={handleUpdateTransaction}
                     onDeleteTransaction={handleDeleteTransactionRequest}
+                    onDeleteTransactions={handleDeleteTransactions}
                     cryptoMap={cryptoMap}
                     addToast={addToast}
                     onImport={handleImportTransactions}
+                    loadQuoteRates={handleLoadQuoteRates}
                     accountNames={activeAccountNames}
                     isMultiAccountView={isMultiAccountView}
+                    accounts={accounts}
+                    activeAccountId={activeAccountIds[0]}
                 />;
             case SectionEnum.ProfitAnalysis:
                 return <ProfitAnalysisSection
                     analysisData={profitAnalysisData}
                     totalCostBasis={totalCostBasis}
+                    taxLedger={taxLedgers?.domestic ?? ledger}
+                    taxRules={taxRules}
+                    cryptoData={cryptoData}
                     onViewDetails={handleViewAssetDetails}
                     onNavigateToTransactions={navigateToTransactions}
                 />;
             case SectionEnum.PerformanceComparator:
                 return <PerformanceComparatorSection
                     transactions={activeTransactions}
+                    ledger={ledger}
                     profitAnalysisData={profitAnalysisData}
                     historicalPrices={historicalPrices}
                     onUpdateHistory={handleUpdateHistoricalData}
@@ -1482,6 +1604,10 @@ const App: React.FC = () => {
             case SectionEnum.Taxes:
                 return <TaxSection
                     transactions={activeTransactions}
+                    ledger={ledger}
+                    taxLedgers={taxLedgers}
+                    taxRules={taxRules}
+                    cryptoData={cryptoData}
                     onNavigateToTransactions={navigateToTransactions}
                 />;
             case SectionEnum.Rebalance:
@@ -1491,6 +1617,7 @@ const App: React.FC = () => {
                     onNavigateToTransactions={navigateToTransactions}
                     cryptoMap={cryptoMap}
                     transactions={activeTransactions}
+                    ledger={ledger}
                     historicalPrices={historicalPrices}
                     cryptoData={cryptoData}
                     onUpdateHistory={handleUpdateHistoricalData}
@@ -1523,12 +1650,25 @@ const App: React.FC = () => {
                     sentimentError={sentimentAnalysisError}
                     onShare={handleShareText}
                     isPrivacyMode={isPrivacyMode}
+                    ledger={ledger}
                 />;
         }
     };
 
     const hasTriggeredAlerts = useMemo(() => alerts.some(a => a.triggered), [alerts]);
 
+    const handleLockApp = useCallback(() => {
+        setIsAppLocked(true);
+        setSettingsModalOpen(false);
+    }, []);
+
+    useIdleTimer(appLock && appLock.idleMinutes > 0 && !isAppLocked ? appLock.idleMinutes * 60 * 1000 : null, handleLockApp);
+
+    // While locked nothing but the PIN prompt is rendered, so no value or section is reachable.
+    if (appLock && isAppLocked) {
+        return <PinLockScreen lock={appLock} onUnlock={() => setIsAppLocked(false)} />;
+    }
+
     return (
         <div className="min-h-screen bg-gray-900 text-gray-100 font-sans">
             {isOnboardingOpen && (
@@ -1558,6 +1698,7 @@ const App: React.FC = () => {
                 onOpenBriefingModal={handleOpenBriefingModal}
                 isPrivacyMode={isPrivacyMode}
                 onTogglePrivacyMode={setIsPrivacyMode}
+                onLockApp={appLock ? handleLockApp : undefined}
             />
             <main className="max-w-7xl mx-auto p-4 md:p-6">
                 <CriticalAlertsBanner
@@ -1581,6 +1722,9 @@ const App: React.FC = () => {
                 mode={accountModalState?.mode || 'add'}
                 accountId={accountModalState?.accountId}
                 initialName={accountModalState?.accountName || ''}
+                initialCostBasisMethod={accounts.find(acc => acc.id === accountModalState?.accountId)?.costBasisMethod}
+                initialTaxRegime={accounts.find(acc => acc.id === accountModalState?.accountId)?.taxRegime}
+                appCostBasisMethod={costBasisMethod}
             />
 
             {confirmationRequest && (
@@ -1714,6 +1858,12 @@ const App: React.FC = () => {
                 addToast={addToast}
                 notificationsEnabled={areNotificationsEnabled}
                 onNotificationsEnabledChange={setAreNotificationsEnabled}
+                costBasisMethod={costBasisMethod}
+                onCostBasisMethodChange={setCostBasisMethod}
+                taxRules={taxRules}
+                onTaxRulesChange={setTaxRules}
+                appLock={appLock}
+                onAppLockChange={setAppLock}
             />
         </div>
     );
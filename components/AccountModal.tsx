@@ -1,36 +1,46 @@
 import React, { useState, useEffect, useRef } from 'react';
 import Modal from './ui/Modal';
 import Button from './ui/Button';
+import type { CostBasisMethod, TaxRegime } from '../types';
+import { COST_BASIS_METHOD_LABELS } from '../services/costBasisService';
+import { TAX_REGIME_LABELS } from '../services/taxRegimeService';
 
 interface AccountModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSave: (name: string, id?: number) => void;
+    onSave: (name: string, id?: number, costBasisMethod?: CostBasisMethod, taxRegime?: TaxRegime) => void;
     mode: 'add' | 'rename';
     initialName?: string;
     accountId?: number;
+    initialCostBasisMethod?: CostBasisMethod;
+    initialTaxRegime?: TaxRegime;
+    appCostBasisMethod: CostBasisMethod;
 }
 
-const AccountModal: React.FC<AccountModalProps> = ({ isOpen, onClose, onSave, mode, initialName = '', accountId }) => {
+const AccountModal: React.FC<AccountModalProps> = ({ isOpen, onClose, onSave, mode, initialName = '', accountId, initialCostBasisMethod, initialTaxRegime, appCostBasisMethod }) => {
     const [name, setName] = useState(initialName);
+    const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod | ''>(initialCostBasisMethod ?? '');
+    const [taxRegime, setTaxRegime] = useState<TaxRegime>(initialTaxRegime ?? 'domestic');
     const inputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         if (isOpen) {
             setName(initialName);
+            setCostBasisMethod(initialCostBasisMethod ?? '');
+            setTaxRegime(initialTaxRegime ?? 'domestic');
             // Focus the input when the modal opens
             setTimeout(() => inputRef.current?.focus(), 100);
         }
-    }, [isOpen, initialName]);
+    }, [isOpen, initialName, initialCostBasisMethod, initialTaxRegime]);
 
     const handleSave = () => {
         if (name.trim()) {
-            onSave(name.trim(), accountId);
+            onSave(name.trim(), accountId, costBasisMethod || undefined, taxRegime === 'domestic' ? undefined : taxRegime);
             onClose();
         }
     };
 
-    const title = mode === 'add' ? 'Adicionar Nova Conta' : 'Renomear Conta';
+    const title = mode === 'add' ? 'Adicionar Nova Conta' : 'Editar Conta';
 
     return (
         <Modal
@@ -58,6 +68,39 @@ const AccountModal: React.FC<AccountModalProps> = ({ isOpen, onClose, onSave, mo
                     className="w-full bg-gray-900 border border-gray-600 rounded p-2 text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
                     onKeyDown={(e) => e.key === 'Enter' && handleSave()}
                 />
+                <label htmlFor="account-cost-basis" className="block text-sm font-medium text-gray-300 mb-1 mt-4">
+                    Método de Custo
+                </label>
+                <select
+                    id="account-cost-basis"
+                    value={costBasisMethod}
+                    onChange={(e) => setCostBasisMethod(e.target.value as CostBasisMethod | '')}
+                    className="w-full bg-gray-900 border border-gray-600 rounded p-2 text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                >
+                    <option value="">Padrão do aplicativo ({COST_BASIS_METHOD_LABELS[appCostBasisMethod]})</option>
+                    {(Object.keys(COST_BASIS_METHOD_LABELS) as CostBasisMethod[]).map(method => (
+                        <option key={method} value={method}>{COST_BASIS_METHOD_LABELS[method]}</option>
+                    ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                    Define quais lotes são baixados nas vendas desta conta. Na visão consolidada, vale o método comum às contas selecionadas ou o padrão do aplicativo.
+                </p>
+                <label htmlFor="account-tax-regime" className="block text-sm font-medium text-gray-300 mb-1 mt-4">
+                    Regime de Tributação
+                </label>
+                <select
+                    id="account-tax-regime"
+                    value={taxRegime}
+                    onChange={(e) => setTaxRegime(e.target.value as TaxRegime)}
+                    className="w-full bg-gray-900 border border-gray-600 rounded p-2 text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                >
+                    {(Object.keys(TAX_REGIME_LABELS) as TaxRegime[]).map(regime => (
+                        <option key={regime} value={regime}>{TAX_REGIME_LABELS[regime]}</option>
+                    ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                    Contas em exchanges no exterior têm os ganhos apurados uma vez por ano, à alíquota de 15%, sem a isenção mensal de vendas até R$ 35 mil.
+                </p>
             </div>
         </Modal>
     );
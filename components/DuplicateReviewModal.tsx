@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import DuplicateActionSelect from './ui/DuplicateActionSelect';
+import type { DuplicateAction, Transaction } from '../types';
+import { applyDuplicateActions } from '../services/duplicateService';
+import { TRANSACTION_TYPE_LABELS } from '../services/transactionTypes';
+
+interface DuplicateReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transactions: Omit<Transaction, 'id'>[];
+  matches: (Transaction | null)[]; // Stored transaction each imported one likely repeats
+  onConfirm: (imported: Omit<Transaction, 'id'>[], merged: Transaction[]) => void;
+}
+
+const formatBRL = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const DuplicateReviewModal: React.FC<DuplicateReviewModalProps> = ({ isOpen, onClose, transactions, matches, onConfirm }) => {
+  const [actions, setActions] = useState<DuplicateAction[]>([]);
+
+  useEffect(() => {
+    if (isOpen) setActions(transactions.map(() => 'skip'));
+  }, [isOpen, transactions]);
+
+  const duplicateIndexes = matches.flatMap((match, index) => (match ? [index] : []));
+  const { imported, merged } = applyDuplicateActions(transactions, matches, actions);
+
+  const setAll = (action: DuplicateAction) => setActions(transactions.map(() => action));
+
+  const handleConfirm = () => {
+    if (imported.length === 0 && merged.length === 0) {
+      onClose();
+      return;
+    }
+    onConfirm(imported, merged);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Possíveis Duplicatas"
+      size="wide"
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>Cancelar Importação</Button>
+          <Button variant="primary" icon="fa-check" onClick={handleConfirm}>
+            Importar {imported.length}{merged.length > 0 ? ` e mesclar ${merged.length}` : ''}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-300">
+          {duplicateIndexes.length} de {transactions.length} transações do arquivo parecem já estar registradas nesta conta
+          (mesma data, tipo e ativo, com quantidade e preço praticamente iguais). Escolha o que fazer com cada uma;
+          as demais serão importadas normalmente.
+        </p>
+        <div className="flex gap-2">
+          <Button variant="secondary" className="py-1 px-3 text-xs" onClick={() => setAll('skip')}>Pular todas</Button>
+          <Button variant="secondary" className="py-1 px-3 text-xs" onClick={() => setAll('merge')}>Mesclar todas</Button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-400 uppercase">
+              <tr>
+                <th className="p-2 text-left">Data</th>
+                <th className="p-2 text-left">Operação</th>
+                <th className="p-2 text-left">Ativo</th>
+                <th className="p-2 text-right">Quantidade (Arquivo / Registrada)</th>
+                <th className="p-2 text-right">Valor (Arquivo / Registrado)</th>
+                <th className="p-2 text-left">Ação</th>
+              </tr>
+            </thead>
+            <tbody>
+              {duplicateIndexes.map(index => {
+                const tx = transactions[index];
+                const match = matches[index]!;
+                return (
+                  <tr key={index} className="border-b border-gray-700/50 hover:bg-gray-700/50">
+                    <td className="p-2">{new Date(tx.date + 'T00:00:00').toLocaleDateString('pt-BR')}</td>
+                    <td className="p-2">{TRANSACTION_TYPE_LABELS[tx.type]}</td>
+                    <td className="p-2 font-bold">{tx.asset}</td>
+                    <td className="p-2 text-right">
+                      {tx.quantity.toLocaleString('pt-BR', { maximumFractionDigits: 8 })}
+                      <span className="text-gray-500"> / {match.quantity.toLocaleString('pt-BR', { maximumFractionDigits: 8 })}</span>
+                    </td>
+                    <td className="p-2 text-right">
+                      {formatBRL(tx.value)}
+                      <span className="text-gray-500"> / {formatBRL(match.value)}</span>
+                    </td>
+                    <td className="p-2">
+                      <DuplicateActionSelect
+                        match={match}
+                        value={actions[index] ?? 'skip'}
+                        onChange={(action) => setActions(prev => prev.map((current, i) => (i === index ? action : current)))}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default DuplicateReviewModal;
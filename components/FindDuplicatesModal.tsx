@@ -0,0 +1,115 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import type { Transaction } from '../types';
+import { DEFAULT_DUPLICATE_TOLERANCE, findDuplicateGroups } from '../services/duplicateService';
+import { TRANSACTION_TYPE_LABELS } from '../services/transactionTypes';
+
+interface FindDuplicatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transactions: Transaction[];
+  onDelete: (ids: number[]) => void;
+}
+
+const formatBRL = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const inputClassName = 'w-full bg-gray-900 border border-gray-600 rounded p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+const FindDuplicatesModal: React.FC<FindDuplicatesModalProps> = ({ isOpen, onClose, transactions, onDelete }) => {
+  const [quantityTolerance, setQuantityTolerance] = useState(String(DEFAULT_DUPLICATE_TOLERANCE.quantity * 100));
+  const [valueTolerance, setValueTolerance] = useState(String(DEFAULT_DUPLICATE_TOLERANCE.value * 100));
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+  const groups = useMemo(() => {
+    if (!isOpen) return [];
+    const quantity = parseFloat(quantityTolerance);
+    const value = parseFloat(valueTolerance);
+    return findDuplicateGroups(transactions, {
+      quantity: quantity >= 0 ? quantity / 100 : DEFAULT_DUPLICATE_TOLERANCE.quantity,
+      value: value >= 0 ? value / 100 : DEFAULT_DUPLICATE_TOLERANCE.value,
+    });
+  }, [isOpen, transactions, quantityTolerance, valueTolerance]);
+
+  // Every record after the oldest of each group starts selected for removal.
+  useEffect(() => {
+    setSelectedIds(new Set(groups.flatMap(group => group.slice(1).map(tx => tx.id))));
+  }, [groups]);
+
+  const toggle = (id: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDelete = () => {
+    onDelete(Array.from(selectedIds));
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Buscar Duplicatas"
+      size="wide"
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>Fechar</Button>
+          <Button variant="danger" icon="fa-trash" onClick={handleDelete} disabled={selectedIds.size === 0}>
+            Remover {selectedIds.size} {selectedIds.size === 1 ? 'selecionada' : 'selecionadas'}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-300">
+          Transações com mesma data, tipo e ativo cujas quantidades e preços diferem menos que a tolerância.
+          Confira cada grupo: operações repetidas de verdade (como duas compras iguais no mesmo dia) devem ser mantidas.
+        </p>
+        <div className="grid grid-cols-2 gap-3 max-w-md">
+          <div>
+            <label htmlFor="duplicate-quantity-tolerance" className="block text-xs text-gray-400 mb-1">Tolerância na Quantidade (%)</label>
+            <input id="duplicate-quantity-tolerance" type="number" step="any" min="0" value={quantityTolerance} onChange={(e) => setQuantityTolerance(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="duplicate-value-tolerance" className="block text-xs text-gray-400 mb-1">Tolerância no Preço (%)</label>
+            <input id="duplicate-value-tolerance" type="number" step="any" min="0" value={valueTolerance} onChange={(e) => setValueTolerance(e.target.value)} className={inputClassName} />
+          </div>
+        </div>
+
+        {groups.length === 0 ? (
+          <p className="text-sm text-green-400"><i className="fas fa-check-circle mr-1"></i>Nenhuma duplicata provável encontrada.</p>
+        ) : (
+          <div className="space-y-3">
+            {groups.map(group => (
+              <div key={group[0].id} className="bg-gray-900/50 border border-gray-700 rounded-md p-3">
+                <p className="text-sm font-semibold mb-2">
+                  {TRANSACTION_TYPE_LABELS[group[0].type]} de {group[0].asset}{group[0].toAsset ? ` → ${group[0].toAsset}` : ''} em {new Date(group[0].date + 'T00:00:00').toLocaleDateString('pt-BR')}
+                </p>
+                <ul className="space-y-1 text-sm">
+                  {group.map(tx => (
+                    <li key={tx.id}>
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={selectedIds.has(tx.id)} onChange={() => toggle(tx.id)} className="accent-red-500" />
+                        <span>{tx.quantity.toLocaleString('pt-BR', { maximumFractionDigits: 8 })} {tx.asset}</span>
+                        {tx.type !== 'transfer' && <span className="text-gray-400">a {formatBRL(tx.value)}</span>}
+                        {tx.fee ? <span className="text-gray-500">taxa {tx.fee.toLocaleString('pt-BR', { maximumFractionDigits: 8 })} {tx.feeCurrency === 'asset' ? tx.asset : 'BRL'}</span> : null}
+                        <span className="text-xs text-gray-600">#{tx.id}</span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default FindDuplicatesModal;
@@ -23,6 +23,7 @@ interface HeaderProps {
     onOpenBriefingModal: () => void;
     isPrivacyMode: boolean;
     onTogglePrivacyMode: (enabled: boolean) => void;
+    onLockApp?: () => void; // Only set when a PIN lock is configured
 }
 
 const NavButton: React.FC<{
@@ -103,6 +104,7 @@ const Header: React.FC<HeaderProps> = ({
     onOpenBriefingModal,
     isPrivacyMode,
     onTogglePrivacyMode,
+    onLockApp,
 }) => {
     const [isAccountDropdownOpen, setAccountDropdownOpen] = useState(false);
     const [isManageDropdownOpen, setManageDropdownOpen] = useState(false);
@@ -356,6 +358,16 @@ const Header: React.FC<HeaderProps> = ({
                         >
                             <i className={`fas ${isPrivacyMode ? 'fa-eye-slash' : 'fa-eye'}`}></i>
                         </button>
+                        {onLockApp && (
+                            <button
+                                onClick={onLockApp}
+                                className="px-3 py-2 rounded-md font-semibold text-sm transition-all bg-gray-700 text-gray-200 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-gray-500"
+                                aria-label="Bloquear aplicativo"
+                                title="Bloquear"
+                            >
+                                <i className="fas fa-lock"></i>
+                            </button>
+                        )}
                         <button
                             id="onboarding-settings-btn"
                             onClick={onOpenSettings}
@@ -440,7 +452,7 @@ const Header: React.FC<HeaderProps> = ({
                                                 disabled={activeAccountIds.length !== 1}
                                                 className="w-full text-left block px-4 py-2 hover:bg-indigo-500 disabled:text-gray-500 disabled:cursor-not-allowed disabled:hover:bg-gray-700"
                                             >
-                                                Renomear Conta
+                                                Editar Conta
                                             </button>
                                         </li>
                                         <li>
@@ -0,0 +1,364 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import DuplicateActionSelect from './ui/DuplicateActionSelect';
+import useLocalStorage from '../hooks/useLocalStorage';
+import type { Account, DuplicateAction, ImportColumnMapping, ImportDateFormat, Toast, Transaction, TransactionType } from '../types';
+import { EDITABLE_TRANSACTION_TYPES, TRANSACTION_TYPE_LABELS } from '../services/transactionTypes';
+import { parseCsv } from '../services/importers/common';
+import { applyDuplicateActions, findImportDuplicates } from '../services/duplicateService';
+import {
+  IMPORT_DATE_FORMATS,
+  IMPORT_FIELDS,
+  buildImportPreview,
+  buildImportTable,
+  guessColumns,
+  guessDateFormat,
+  guessDecimalSeparator,
+  validateMapping,
+  type ImportCell,
+  type ImportTable,
+} from '../services/importMappingService';
+
+// Declaration for the xlsx library loaded from CDN
+declare const XLSX: any;
+
+interface ImportWizardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  file: File | null; // Preselected file, e.g. one the standard importer rejected
+  cryptoMap: Record<string, string>;
+  destinationAccounts: Account[];
+  existingTransactions: Transaction[]; // Checked for rows the account already holds
+  addToast: (message: string, type: Toast['type']) => void;
+  onImport: (transactions: Omit<Transaction, 'id'>[], merged?: Transaction[]) => void;
+}
+
+type WizardStep = 'file' | 'mapping' | 'preview';
+
+const PREVIEW_ROW_LIMIT = 200;
+
+const inputClassName = 'w-full bg-gray-900 border border-gray-600 rounded p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+const formatBRL = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const emptyMapping = (): ImportColumnMapping => ({ name: '', columns: {}, dateFormat: 'DD/MM/YYYY', decimalSeparator: ',' });
+
+const readImportFile = async (file: File): Promise<ImportCell[][]> => {
+  if (file.name.toLowerCase().endsWith('.csv')) {
+    return parseCsv(await file.text());
+  }
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  return XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: true, defval: '' }) as ImportCell[][];
+};
+
+const ImportWizardModal: React.FC<ImportWizardModalProps> = ({ isOpen, onClose, file, cryptoMap, destinationAccounts, existingTransactions, addToast, onImport }) => {
+  const [savedMappings, setSavedMappings] = useLocalStorage<ImportColumnMapping[]>('importMappings', []);
+  const [step, setStep] = useState<WizardStep>('file');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping>(emptyMapping);
+  const [mappingErrors, setMappingErrors] = useState<string[]>([]);
+  const [duplicateActions, setDuplicateActions] = useState<Record<number, DuplicateAction>>({}); // By source line
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadFile = async (selected: File) => {
+    try {
+      const loaded = buildImportTable(await readImportFile(selected));
+      if (!loaded || loaded.rows.length === 0) {
+        addToast("O arquivo selecionado está vazio ou não possui dados na primeira planilha.", "error");
+        return;
+      }
+      // A saved mapping whose columns all exist in this file is probably the one it was made for.
+      const matching = savedMappings.find(saved => Object.values(saved.columns).every(header => loaded.headers.includes(header!)));
+      const columns = matching?.columns ?? guessColumns(loaded.headers);
+      setTable(loaded);
+      setFileName(selected.name);
+      setMapping(matching ?? {
+        name: '',
+        columns,
+        dateFormat: guessDateFormat(loaded, columns.date),
+        decimalSeparator: guessDecimalSeparator(loaded, { columns }),
+      });
+      setMappingErrors([]);
+      setStep('mapping');
+    } catch (error) {
+      console.error("Erro ao importar arquivo:", error);
+      addToast(`Falha ao processar o arquivo. Pode estar corrompido ou em formato não suportado.`, "error");
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStep('file');
+    setTable(null);
+    setMapping(emptyMapping());
+    setMappingErrors([]);
+    if (file) loadFile(file);
+    // Reloads only when the wizard opens; saved mappings are read at that moment.
+  }, [isOpen, file]);
+
+  const preview = useMemo(
+    () => (step === 'preview' && table ? buildImportPreview(table, mapping, { cryptoMap, destinationAccounts }) : []),
+    [step, table, mapping, cryptoMap, destinationAccounts]
+  );
+  const validRows = useMemo(() => preview.filter(row => row.transaction), [preview]);
+  const validTransactions = useMemo(() => validRows.map(row => row.transaction!), [validRows]);
+  const invalidRows = preview.filter(row => !row.transaction);
+  const duplicateMatches = useMemo(
+    () => findImportDuplicates(validTransactions, existingTransactions),
+    [validTransactions, existingTransactions]
+  );
+  const matchByLine = new Map(validRows.map((row, index) => [row.line, duplicateMatches[index]]));
+  const duplicateCount = duplicateMatches.filter(Boolean).length;
+  const { imported, merged } = applyDuplicateActions(
+    validTransactions,
+    duplicateMatches,
+    validRows.map(row => duplicateActions[row.line] ?? 'skip')
+  );
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (selected) loadFile(selected);
+    event.target.value = '';
+  };
+
+  const handleColumnChange = (field: keyof ImportColumnMapping['columns'], header: string) => {
+    setMapping(prev => {
+      const columns = { ...prev.columns };
+      if (header) columns[field] = header;
+      else delete columns[field];
+      return { ...prev, columns };
+    });
+  };
+
+  const handleApplySaved = (name: string) => {
+    const saved = savedMappings.find(m => m.name === name);
+    if (!saved || !table) return;
+    const missing = Object.values(saved.columns).filter(header => !table.headers.includes(header!));
+    if (missing.length > 0) {
+      addToast(`Colunas do mapeamento '${saved.name}' ausentes neste arquivo: ${missing.join(', ')}.`, "error");
+    }
+    setMapping({
+      ...saved,
+      columns: Object.fromEntries(Object.entries(saved.columns).filter(([, header]) => table.headers.includes(header!))),
+    });
+  };
+
+  const handleSaveMapping = () => {
+    const name = mapping.name.trim();
+    if (!name) {
+      addToast("Dê um nome ao mapeamento para salvá-lo.", "error");
+      return;
+    }
+    const toSave = { ...mapping, name };
+    setSavedMappings(prev => [...prev.filter(m => m.name !== name), toSave].sort((a, b) => a.name.localeCompare(b.name)));
+    setMapping(toSave);
+    addToast(`Mapeamento '${name}' salvo.`, "success");
+  };
+
+  const handleDeleteMapping = () => {
+    const name = mapping.name.trim();
+    setSavedMappings(prev => prev.filter(m => m.name !== name));
+    addToast(`Mapeamento '${name}' excluído.`, "info");
+  };
+
+  const handlePreview = () => {
+    const errors = validateMapping(mapping);
+    setMappingErrors(errors);
+    setDuplicateActions({});
+    if (errors.length === 0) setStep('preview');
+  };
+
+  const handleImport = () => {
+    if (imported.length === 0 && merged.length === 0) {
+      addToast("Nenhuma transação válida encontrada para importar.", "error");
+      return;
+    }
+    onImport(imported, merged);
+    onClose();
+  };
+
+  const isSavedName = savedMappings.some(m => m.name === mapping.name.trim());
+
+  const footer = (
+    <>
+      <Button variant="secondary" onClick={onClose}>Cancelar</Button>
+      {step === 'mapping' && (
+        <>
+          <Button variant="ghost" onClick={() => setStep('file')}>Voltar</Button>
+          <Button variant="primary" icon="fa-eye" onClick={handlePreview}>Pré-visualizar</Button>
+        </>
+      )}
+      {step === 'preview' && (
+        <>
+          <Button variant="ghost" onClick={() => setStep('mapping')}>Voltar</Button>
+          <Button variant="primary" icon="fa-check" onClick={handleImport} disabled={imported.length === 0 && merged.length === 0}>
+            Importar {imported.length} {imported.length === 1 ? 'transação' : 'transações'}{merged.length > 0 ? ` e mesclar ${merged.length}` : ''}
+          </Button>
+        </>
+      )}
+    </>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Assistente de Importação" footer={footer} size="wide">
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".csv, .xlsx, .xls" className="hidden" aria-hidden="true" />
+
+      <ol className="flex gap-4 text-xs mb-4">
+        {([['file', '1. Arquivo'], ['mapping', '2. Colunas e formatos'], ['preview', '3. Pré-visualização']] as [WizardStep, string][]).map(([key, label]) => (
+          <li key={key} className={step === key ? 'text-indigo-400 font-semibold' : 'text-gray-500'}>{label}</li>
+        ))}
+      </ol>
+
+      {step === 'file' && (
+        <div className="space-y-4 text-gray-300">
+          <p>
+            Importe planilhas em qualquer layout (CSV ou Excel), como as de mesas OTC ou de outros controles. Você indica qual coluna
+            corresponde a cada campo da transação e confere o resultado antes de salvar.
+          </p>
+          <Button variant="primary" icon="fa-file-import" onClick={() => fileInputRef.current?.click()}>Selecionar Arquivo</Button>
+        </div>
+      )}
+
+      {step === 'mapping' && table && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-400">
+            <span className="font-semibold text-gray-200">{fileName}</span>: {table.rows.length} linha(s) de dados.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="import-mapping-saved" className="block text-xs text-gray-400 mb-1">Mapeamentos Salvos</label>
+              <select id="import-mapping-saved" value={isSavedName ? mapping.name.trim() : ''} onChange={(e) => handleApplySaved(e.target.value)} className={inputClassName}>
+                <option value="">{savedMappings.length > 0 ? 'Selecionar...' : 'Nenhum mapeamento salvo'}</option>
+                {savedMappings.map(m => <option key={m.name} value={m.name}>{m.name}</option>)}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label htmlFor="import-mapping-name" className="block text-xs text-gray-400 mb-1">Nome do Mapeamento</label>
+              <div className="flex gap-2">
+                <input id="import-mapping-name" type="text" placeholder="Ex: Planilha da mesa OTC" value={mapping.name} onChange={(e) => setMapping(prev => ({ ...prev, name: e.target.value }))} className={inputClassName} />
+                <Button variant="secondary" icon="fa-save" onClick={handleSaveMapping}>Salvar</Button>
+                {isSavedName && <Button variant="danger" icon="fa-trash" onClick={handleDeleteMapping} aria-label="Excluir mapeamento" />}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field.key}>
+                <label htmlFor={`import-field-${field.key}`} className="block text-xs text-gray-400 mb-1">
+                  {field.label}{field.required && <span className="text-red-400"> *</span>}
+                  <span className="text-gray-500"> — {field.hint}</span>
+                </label>
+                <select id={`import-field-${field.key}`} value={mapping.columns[field.key] ?? ''} onChange={(e) => handleColumnChange(field.key, e.target.value)} className={inputClassName}>
+                  <option value="">Não importar</option>
+                  {table.headers.filter(Boolean).map(header => <option key={header} value={header}>{header}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="import-default-type" className="block text-xs text-gray-400 mb-1">Tipo Padrão (linhas sem operação)</label>
+              <select id="import-default-type" value={mapping.defaultType ?? ''} onChange={(e) => setMapping(prev => ({ ...prev, defaultType: (e.target.value || undefined) as TransactionType | undefined }))} className={inputClassName}>
+                <option value="">Nenhum</option>
+                {EDITABLE_TRANSACTION_TYPES.map(type => <option key={type} value={type}>{TRANSACTION_TYPE_LABELS[type]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="import-date-format" className="block text-xs text-gray-400 mb-1">Formato das Datas</label>
+              <select id="import-date-format" value={mapping.dateFormat} onChange={(e) => setMapping(prev => ({ ...prev, dateFormat: e.target.value as ImportDateFormat }))} className={inputClassName}>
+                {IMPORT_DATE_FORMATS.map(format => <option key={format} value={format}>{format}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="import-decimal-separator" className="block text-xs text-gray-400 mb-1">Separador Decimal</label>
+              <select id="import-decimal-separator" value={mapping.decimalSeparator} onChange={(e) => setMapping(prev => ({ ...prev, decimalSeparator: e.target.value as ',' | '.' }))} className={inputClassName}>
+                <option value=",">Vírgula (1.234,56)</option>
+                <option value=".">Ponto (1,234.56)</option>
+              </select>
+            </div>
+          </div>
+
+          {mappingErrors.length > 0 && (
+            <ul className="text-sm text-red-400 space-y-1">
+              {mappingErrors.map(error => <li key={error}><i className="fas fa-exclamation-circle mr-1"></i>{error}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-300">
+            <span className="text-green-400 font-semibold">{validTransactions.length} válida(s)</span>
+            {invalidRows.length > 0 && <>, <span className="text-red-400 font-semibold">{invalidRows.length} com erro</span></>}.
+            {' '}Nada foi salvo ainda.
+            {invalidRows.length > 0 && ' Linhas com erro não serão importadas; volte e ajuste o mapeamento ou corrija o arquivo.'}
+          </p>
+          {duplicateCount > 0 && (
+            <p className="text-sm text-yellow-400">
+              <i className="fas fa-clone mr-1"></i>
+              {duplicateCount} linha(s) parecem já estar registradas nesta conta e serão puladas. Escolha "Mesclar" para atualizar o registro existente com os dados do arquivo.
+            </p>
+          )}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-400 uppercase">
+                <tr>
+                  <th className="p-2 text-left">Linha</th>
+                  <th className="p-2 text-left">Operação</th>
+                  <th className="p-2 text-left">Data</th>
+                  <th className="p-2 text-left">Ativo</th>
+                  <th className="p-2 text-right">Quantidade</th>
+                  <th className="p-2 text-right">Valor (BRL)</th>
+                  <th className="p-2 text-right">Taxa</th>
+                  <th className="p-2 text-left">Duplicata</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.slice(0, PREVIEW_ROW_LIMIT).map(({ line, transaction: tx, errors }) => (
+                  <tr key={line} className={`border-b border-gray-700/50 ${tx ? 'hover:bg-gray-700/50' : 'bg-red-900/20'}`}>
+                    <td className="p-2 text-gray-400">{line}</td>
+                    {tx ? (
+                      <>
+                        <td className="p-2">{TRANSACTION_TYPE_LABELS[tx.type]}</td>
+                        <td className="p-2">{new Date(tx.date + 'T00:00:00').toLocaleDateString('pt-BR')}</td>
+                        <td className="p-2 font-bold">{tx.asset}{tx.toAsset && <span className="text-gray-400 font-normal"> → {tx.toQuantity} {tx.toAsset}</span>}</td>
+                        <td className="p-2 text-right">{tx.quantity.toLocaleString('pt-BR', { maximumFractionDigits: 8 })}</td>
+                        <td className="p-2 text-right">{tx.type === 'transfer' ? '-' : formatBRL(tx.value)}</td>
+                        <td className="p-2 text-right text-gray-300">{tx.fee ? `${tx.fee.toLocaleString('pt-BR', { maximumFractionDigits: 8 })} ${tx.feeCurrency === 'asset' ? tx.asset : 'BRL'}` : '-'}</td>
+                        <td className="p-2">
+                          {matchByLine.get(line) ? (
+                            <DuplicateActionSelect
+                              match={matchByLine.get(line)!}
+                              value={duplicateActions[line] ?? 'skip'}
+                              onChange={(action) => setDuplicateActions(prev => ({ ...prev, [line]: action }))}
+                            />
+                          ) : '-'}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={7} className="p-2 text-red-400 text-xs">
+                        {errors.map(error => <p key={error}>{error}</p>)}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {preview.length > PREVIEW_ROW_LIMIT && (
+            <p className="text-xs text-gray-500">Mostrando as primeiras {PREVIEW_ROW_LIMIT} de {preview.length} linhas. Todas as linhas válidas serão importadas.</p>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ImportWizardModal;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import Button from './ui/Button';
+import { discardVault, unlock } from '../services/secureStorage';
+
+interface LockScreenProps {
+  onUnlock: () => void;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [isConfirmingDiscard, setIsConfirmingDiscard] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (await unlock(passphrase)) {
+        onUnlock();
+        return;
+      }
+      setError('Senha incorreta.');
+    } catch (err) {
+      console.error('Falha ao desbloquear:', err);
+      setError('Não foi possível decifrar os dados neste navegador.');
+    }
+    setIsUnlocking(false);
+  };
+
+  const handleDiscard = () => {
+    discardVault();
+    onUnlock();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-100 font-sans flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl w-full max-w-sm p-6 space-y-4">
+        <h1 className="text-xl font-bold text-white flex items-center gap-2">
+          <i className="fas fa-chart-pie text-indigo-400"></i>
+          <span>Cripto Control</span>
+        </h1>
+        <p className="text-sm text-gray-400">
+          <i className="fas fa-lock mr-1"></i>
+          Seus dados estão criptografados. Digite a senha para desbloqueá-los.
+        </p>
+        <input
+          type="password"
+          autoFocus
+          autoComplete="current-password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Senha"
+          className="w-full bg-gray-900 border border-gray-600 rounded p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        />
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <Button type="submit" variant="primary" icon={isUnlocking ? 'fa-spinner fa-spin' : 'fa-unlock'} disabled={!passphrase || isUnlocking} className="w-full justify-center">
+          Desbloquear
+        </Button>
+
+        <div className="border-t border-gray-700 pt-3 text-xs text-gray-500">
+          {isConfirmingDiscard ? (
+            <div className="space-y-2">
+              <p className="text-red-400">
+                Sem a senha não há como recuperar as contas, transações e chaves de API protegidas. Elas serão apagadas e o app começará vazio.
+              </p>
+              <div className="flex gap-2">
+                <Button type="button" variant="secondary" className="py-1 px-3 text-xs" onClick={() => setIsConfirmingDiscard(false)}>Cancelar</Button>
+                <Button type="button" variant="danger" className="py-1 px-3 text-xs" onClick={handleDiscard}>Apagar Dados Protegidos</Button>
+              </div>
+            </div>
+          ) : (
+            <button type="button" onClick={() => setIsConfirmingDiscard(true)} className="hover:text-gray-300 underline">
+              Esqueci a senha
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import Button from './ui/Button';
+import type { AppLockSettings } from '../types';
+import { MAX_PIN_ATTEMPTS, PIN_LOCKOUT_MS, verifyPin } from '../services/appLockService';
+
+interface PinLockScreenProps {
+  lock: AppLockSettings;
+  onUnlock: () => void;
+}
+
+const PinLockScreen: React.FC<PinLockScreenProps> = ({ lock, onUnlock }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const handler = setTimeout(() => {
+      setLockedUntil(null);
+      setError(null);
+    }, lockedUntil - Date.now());
+    return () => clearTimeout(handler);
+  }, [lockedUntil]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pin || lockedUntil) return;
+    setIsChecking(true);
+    const isValid = await verifyPin(pin, lock);
+    setIsChecking(false);
+    setPin('');
+    if (isValid) {
+      onUnlock();
+      return;
+    }
+    const attempts = failedAttempts + 1;
+    if (attempts >= MAX_PIN_ATTEMPTS) {
+      setFailedAttempts(0);
+      setLockedUntil(Date.now() + PIN_LOCKOUT_MS);
+      setError(`Muitas tentativas erradas. Aguarde ${PIN_LOCKOUT_MS / 1000} segundos.`);
+      return;
+    }
+    setFailedAttempts(attempts);
+    setError(`PIN incorreto. ${MAX_PIN_ATTEMPTS - attempts} tentativa(s) restante(s).`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-100 font-sans flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl w-full max-w-xs p-6 space-y-4 text-center">
+        <h1 className="text-xl font-bold text-white flex items-center justify-center gap-2">
+          <i className="fas fa-chart-pie text-indigo-400"></i>
+          <span>Cripto Control</span>
+        </h1>
+        <p className="text-sm text-gray-400"><i className="fas fa-lock mr-1"></i>App bloqueado. Digite o PIN para continuar.</p>
+        <input
+          type="password"
+          inputMode="numeric"
+          autoFocus
+          autoComplete="off"
+          maxLength={8}
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+          disabled={!!lockedUntil}
+          placeholder="PIN"
+          aria-label="PIN"
+          className="w-full bg-gray-900 border border-gray-600 rounded p-2 text-center text-2xl tracking-[0.5em] text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-50"
+        />
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <Button type="submit" variant="primary" icon={isChecking ? 'fa-spinner fa-spin' : 'fa-unlock'} disabled={!pin || isChecking || !!lockedUntil} className="w-full justify-center">
+          Desbloquear
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default PinLockScreen;
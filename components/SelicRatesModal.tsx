@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import type { SelicRateTable } from '../types';
+import { formatSelicTable, getSelicRates, parseSelicTable } from '../services/darfService';
+import { BUNDLED_SELIC_RATES } from '../services/selicRates';
+
+interface SelicRatesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    customRates: SelicRateTable;
+    onSave: (customRates: SelicRateTable) => void;
+}
+
+const SelicRatesModal: React.FC<SelicRatesModalProps> = ({ isOpen, onClose, customRates, onSave }) => {
+    const [text, setText] = useState('');
+    const [errors, setErrors] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (isOpen) {
+            setText(formatSelicTable(getSelicRates(customRates)));
+            setErrors([]);
+        }
+    }, [isOpen, customRates]);
+
+    const handleSave = () => {
+        const { rates, errors: parseErrors } = parseSelicTable(text);
+        if (parseErrors.length > 0) {
+            setErrors(parseErrors);
+            return;
+        }
+        // Only months that differ from the bundled table are stored, so app updates to it still apply.
+        const changed = Object.fromEntries(Object.entries(rates).filter(([key, rate]) => BUNDLED_SELIC_RATES[key] !== rate));
+        onSave(changed);
+        onClose();
+    };
+
+    const handleRestore = () => {
+        setText(formatSelicTable(BUNDLED_SELIC_RATES));
+        setErrors([]);
+    };
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={onClose}
+            title="Tabela de Juros Selic"
+            footer={
+                <>
+                    <Button variant="ghost" onClick={handleRestore}>Restaurar Padrão</Button>
+                    <Button variant="secondary" onClick={onClose}>Cancelar</Button>
+                    <Button variant="primary" onClick={handleSave}>Salvar</Button>
+                </>
+            }
+        >
+            <p className="text-sm text-gray-400 mb-3">
+                Taxa Selic mensal (%) usada nos juros de mora dos DARFs pagos em atraso. Informe um mês por linha no formato
+                <span className="font-mono text-gray-300"> MM/AAAA; taxa</span>, conforme a tabela publicada pela Receita Federal.
+            </p>
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={14}
+                className="w-full bg-gray-900 border border-gray-600 rounded p-2 text-white font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            />
+            {errors.length > 0 && (
+                <ul className="mt-2 text-xs text-red-400 space-y-1">
+                    {errors.slice(0, 5).map(error => <li key={error}>{error}</li>)}
+                    {errors.length > 5 && <li>... e mais {errors.length - 5} erro(s).</li>}
+                </ul>
+            )}
+        </Modal>
+    );
+};
+
+export default SelicRatesModal;
@@ -1,9 +1,16 @@
-import React, { useState, useEffect } from 'react';
-import type { Toast } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import type { AppLockSettings, BackupFile, BackupSummary, CostBasisMethod, EncryptedPayload, RestoreMode, StorageUsage, TaxRules, Toast } from '../types';
 import Modal from './ui/Modal';
 import Button from './ui/Button';
 import { getProxiedUrl, PROXIES } from '../services/proxyService';
 import { verifyGeminiApiKey } from '../services/geminiService';
+import { COST_BASIS_METHOD_LABELS } from '../services/costBasisService';
+import { DEFAULT_TAX_RULES, validateTaxRules } from '../services/taxRules';
+import { createBackup, decryptBackup, encryptBackup, parseBackup, readEncryptedBackup, restoreBackup } from '../services/backupService';
+import { isCryptoAvailable } from '../services/cryptoService';
+import { createAppLock, DEFAULT_IDLE_MINUTES, IDLE_TIMEOUT_OPTIONS, validatePin, verifyPin } from '../services/appLockService';
+import { getStorageUsage, LARGE_KEY_LABELS } from '../services/largeStorage';
+import { changePassphrase, disableEncryption, enableEncryption, flushSecureStorage, isEncryptionEnabled } from '../services/secureStorage';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -19,8 +26,40 @@ interface SettingsModalProps {
   addToast: (message: string, type: Toast['type']) => void;
   notificationsEnabled: boolean;
   onNotificationsEnabledChange: (enabled: boolean) => void;
+  costBasisMethod: CostBasisMethod;
+  onCostBasisMethodChange: (method: CostBasisMethod) => void;
+  taxRules: TaxRules;
+  onTaxRulesChange: (rules: TaxRules) => void;
+  appLock: AppLockSettings | null;
+  onAppLockChange: (lock: AppLockSettings | null) => void;
 }
 
+// Editable copy of the tax rules; values stay as typed until saved.
+interface TaxRulesDraft {
+  exemptionLimit: string;
+  brackets: { upTo: string; rate: string }[];
+}
+
+const toTaxRulesDraft = (rules: TaxRules): TaxRulesDraft => ({
+  exemptionLimit: String(rules.exemptionLimit),
+  brackets: rules.brackets.map(bracket => ({ upTo: bracket.upTo === null ? '' : String(bracket.upTo), rate: String(bracket.rate) })),
+});
+
+const parseDraftNumber = (value: string): number => parseFloat(value.replace(',', '.'));
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} KB`;
+  return `${(bytes / (1024 * 1024)).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} MB`;
+};
+
+// Usual localStorage quota; browsers don't expose the real one.
+const LOCAL_STORAGE_QUOTA_BYTES = 5 * 1024 * 1024;
+
+const inputClassName = 'w-full bg-gray-900 border border-gray-600 rounded p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
 const SettingsModal: React.FC<SettingsModalProps> = ({ 
     isOpen, 
     onClose, 
@@ -35,6 +74,12 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     addToast,
     notificationsEnabled,
     onNotificationsEnabledChange,
+    costBasisMethod,
+    onCostBasisMethodChange,
+    taxRules,
+    onTaxRulesChange,
+    appLock,
+    onAppLockChange,
 }) => {
   const [currentApiKey, setCurrentApiKey] = useState(apiKey);
   const [currentCCApiKey, setCurrentCCApiKey] = useState(cryptoCompareApiKey);
@@ -58,8 +103,32 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     type: 'success' | 'error';
   } | null>(null);
 
+  const [taxRulesDraft, setTaxRulesDraft] = useState<TaxRulesDraft>(() => toTaxRulesDraft(taxRules));
+  const [taxRulesError, setTaxRulesError] = useState<string | null>(null);
+
   const [permissionStatus, setPermissionStatus] = useState('Notification' in window ? Notification.permission : 'default');
 
+  const [includeApiKeysInBackup, setIncludeApiKeysInBackup] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<{ backup: BackupFile; summary: BackupSummary; fileName: string } | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [restoreErrors, setRestoreErrors] = useState<string[]>([]);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [pendingEncryptedBackup, setPendingEncryptedBackup] = useState<{ encrypted: EncryptedPayload; fileName: string } | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+
+  const [pinForm, setPinForm] = useState({ current: '', next: '', confirm: '' });
+  const [pinIdleMinutes, setPinIdleMinutes] = useState(DEFAULT_IDLE_MINUTES);
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [isSavingPin, setIsSavingPin] = useState(false);
+
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+
+  const [encryptionEnabled, setEncryptionEnabled] = useState(isEncryptionEnabled);
+  const [passphraseForm, setPassphraseForm] = useState({ current: '', next: '', confirm: '' });
+  const [encryptionError, setEncryptionError] = useState<string | null>(null);
+  const [isUpdatingEncryption, setIsUpdatingEncryption] = useState(false);
+
 
   useEffect(() => {
     // Reset state when modal opens
@@ -73,11 +142,28 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
         setIsVerifyingCC(false);
         setVerificationStatusGemini(null);
         setIsVerifyingGemini(false);
+        setTaxRulesDraft(toTaxRulesDraft(taxRules));
+        setTaxRulesError(null);
+        setPendingRestore(null);
+        setRestoreErrors([]);
+        setBackupPassphrase('');
+        setPendingEncryptedBackup(null);
+        setRestorePassphrase('');
+        setPinForm({ current: '', next: '', confirm: '' });
+        setPinIdleMinutes(appLock?.idleMinutes ?? DEFAULT_IDLE_MINUTES);
+        setPinError(null);
+        setEncryptionEnabled(isEncryptionEnabled());
+        setPassphraseForm({ current: '', next: '', confirm: '' });
+        setEncryptionError(null);
         if ('Notification' in window) {
             setPermissionStatus(Notification.permission);
         }
     }
-  }, [isOpen, apiKey, cryptoCompareApiKey, geminiApiKey]);
+  }, [isOpen, apiKey, cryptoCompareApiKey, geminiApiKey, taxRules]);
+
+  useEffect(() => {
+    if (isOpen) getStorageUsage().then(setStorageUsage);
+  }, [isOpen]);
   
   const handleToggleNotifications = async () => {
     // Primeiro, verifique se a API de Notificação é suportada pelo navegador.
@@ -203,6 +289,194 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   };
 
 
+  const updateBracketDraft = (index: number, field: 'upTo' | 'rate', value: string) => {
+    setTaxRulesDraft(prev => ({
+      ...prev,
+      brackets: prev.brackets.map((bracket, i) => (i === index ? { ...bracket, [field]: value } : bracket)),
+    }));
+  };
+
+  const handleAddBracket = () => {
+    setTaxRulesDraft(prev => ({ ...prev, brackets: [...prev.brackets, { upTo: '', rate: '' }] }));
+  };
+
+  const handleRemoveBracket = (index: number) => {
+    setTaxRulesDraft(prev => ({ ...prev, brackets: prev.brackets.filter((_, i) => i !== index) }));
+  };
+
+  const handleSaveTaxRules = () => {
+    const lastIndex = taxRulesDraft.brackets.length - 1;
+    const rules: TaxRules = {
+      exemptionLimit: parseDraftNumber(taxRulesDraft.exemptionLimit),
+      // The last bracket never has a ceiling, whatever was typed in it.
+      brackets: taxRulesDraft.brackets.map((bracket, i) => ({
+        upTo: i === lastIndex ? null : parseDraftNumber(bracket.upTo),
+        rate: parseDraftNumber(bracket.rate),
+      })),
+    };
+    const error = validateTaxRules(rules);
+    setTaxRulesError(error);
+    if (error) return;
+    onTaxRulesChange(rules);
+    addToast("Regras do imposto de renda salvas.", "success");
+  };
+
+  // Checks the current PIN (when one is set) and the new one, then saves the lock built by `buildLock`.
+  const savePinLock = async (requireNewPin: boolean, buildLock: () => Promise<AppLockSettings | null>, successMessage: string) => {
+    const error = requireNewPin
+      ? validatePin(pinForm.next) ?? (pinForm.next !== pinForm.confirm ? 'A confirmação não confere com o novo PIN.' : null)
+      : null;
+    setPinError(error);
+    if (error) return;
+    setIsSavingPin(true);
+    try {
+      if (appLock && !(await verifyPin(pinForm.current, appLock))) {
+        setPinError('PIN atual incorreto.');
+        return;
+      }
+      onAppLockChange(await buildLock());
+      setPinForm({ current: '', next: '', confirm: '' });
+      addToast(successMessage, "success");
+    } catch (err) {
+      console.error("Falha ao salvar o PIN:", err);
+      setPinError(`Falha ao salvar o PIN: ${err instanceof Error ? err.message : 'Erro desconhecido'}`);
+    } finally {
+      setIsSavingPin(false);
+    }
+  };
+
+  const handlePinIdleChange = (minutes: number) => {
+    setPinIdleMinutes(minutes);
+    if (appLock) onAppLockChange({ ...appLock, idleMinutes: minutes });
+  };
+
+  const validateNewPassphrase = (): string | null => {
+    if (passphraseForm.next.length < MIN_PASSPHRASE_LENGTH) return `A senha deve ter pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres.`;
+    if (passphraseForm.next !== passphraseForm.confirm) return 'A confirmação não confere com a nova senha.';
+    return null;
+  };
+
+  // Runs one of the vault operations, which return false when the current passphrase is wrong.
+  const runEncryptionUpdate = async (update: () => Promise<boolean>, successMessage: string) => {
+    if (!isCryptoAvailable()) {
+      setEncryptionError('A criptografia não está disponível neste navegador (é preciso acessar o app por HTTPS ou localhost).');
+      return;
+    }
+    setIsUpdatingEncryption(true);
+    setEncryptionError(null);
+    try {
+      if (await update()) {
+        setEncryptionEnabled(isEncryptionEnabled());
+        setPassphraseForm({ current: '', next: '', confirm: '' });
+        addToast(successMessage, "success");
+      } else {
+        setEncryptionError('Senha atual incorreta.');
+      }
+    } catch (error) {
+      console.error("Falha ao atualizar a criptografia:", error);
+      setEncryptionError(`Falha ao atualizar a criptografia: ${error instanceof Error ? error.message : 'Erro desconhecido'}`);
+    } finally {
+      setIsUpdatingEncryption(false);
+    }
+  };
+
+  const handleEnableEncryption = () => {
+    const error = validateNewPassphrase();
+    setEncryptionError(error);
+    if (error) return;
+    runEncryptionUpdate(async () => {
+      await enableEncryption(passphraseForm.next);
+      return true;
+    }, "Criptografia ativada. A senha será pedida ao abrir o app.");
+  };
+
+  const handleChangePassphrase = () => {
+    const error = validateNewPassphrase();
+    setEncryptionError(error);
+    if (error) return;
+    runEncryptionUpdate(() => changePassphrase(passphraseForm.current, passphraseForm.next), "Senha alterada.");
+  };
+
+  const handleDisableEncryption = () => {
+    runEncryptionUpdate(() => disableEncryption(passphraseForm.current), "Criptografia desativada.");
+  };
+
+  const handleLockNow = async () => {
+    await flushSecureStorage();
+    // The lock screen is shown at startup whenever the vault exists.
+    window.location.reload();
+  };
+
+  const handleExportBackup = async () => {
+    const backup = createBackup(includeApiKeysInBackup);
+    let content: object = backup;
+    if (encryptionEnabled || backupPassphrase) {
+      try {
+        content = await encryptBackup(backup, encryptionEnabled ? undefined : backupPassphrase);
+      } catch (error) {
+        console.error("Falha ao cifrar o backup:", error);
+        addToast(`Falha ao cifrar o backup: ${error instanceof Error ? error.message : 'Erro desconhecido'}`, "error");
+        return;
+      }
+    }
+    const blob = new Blob([JSON.stringify(content, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `criptofolio-backup_${backup.exportedAt.split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    addToast("Backup exportado.", "success");
+  };
+
+  const handleBackupFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    const encrypted = readEncryptedBackup(text);
+    setRestorePassphrase('');
+    if (encrypted) {
+      setRestoreErrors([]);
+      setPendingRestore(null);
+      setPendingEncryptedBackup({ encrypted, fileName: file.name });
+      return;
+    }
+    setPendingEncryptedBackup(null);
+    loadBackup(text, file.name);
+  };
+
+  const loadBackup = (text: string, fileName: string) => {
+    const { backup, summary, errors } = parseBackup(text);
+    setRestoreErrors(errors);
+    setPendingRestore(backup && summary ? { backup, summary, fileName } : null);
+  };
+
+  const handleDecryptBackup = async () => {
+    if (!pendingEncryptedBackup || !restorePassphrase) return;
+    const text = await decryptBackup(pendingEncryptedBackup.encrypted, restorePassphrase);
+    if (text === null) {
+      setRestoreErrors(['Senha do backup incorreta.']);
+      return;
+    }
+    setPendingEncryptedBackup(null);
+    loadBackup(text, pendingEncryptedBackup.fileName);
+  };
+
+  const handleRestoreBackup = async () => {
+    if (!pendingRestore) return;
+    try {
+      restoreBackup(pendingRestore.backup, restoreMode);
+    } catch (error) {
+      console.error("Falha ao restaurar o backup:", error);
+      addToast(`Falha ao restaurar o backup: ${error instanceof Error ? error.message : 'Erro desconhecido'}`, "error");
+      return;
+    }
+    // The app reads the stored values only when it starts.
+    await flushSecureStorage();
+    window.location.reload();
+  };
+
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="Configurações">
       <div className="space-y-6">
@@ -319,6 +593,303 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
           </div>
         </section>
         
+        <section aria-labelledby="cost-basis-heading">
+            <h3 id="cost-basis-heading" className="text-lg font-semibold text-gray-200 mb-2">Cálculo de Custo</h3>
+            <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700">
+                <label htmlFor="cost-basis-selector" className="block text-sm font-medium text-gray-300 mb-1">
+                Método de Custo Padrão
+                </label>
+                <select
+                id="cost-basis-selector"
+                value={costBasisMethod}
+                onChange={(e) => onCostBasisMethodChange(e.target.value as CostBasisMethod)}
+                className="bg-gray-900 border border-gray-600 rounded p-2 text-white w-full focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                >
+                {(Object.keys(COST_BASIS_METHOD_LABELS) as CostBasisMethod[]).map((method) => (
+                    <option key={method} value={method}>
+                    {COST_BASIS_METHOD_LABELS[method]}
+                    </option>
+                ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                Usado na análise de lucros, no imposto de renda e nos lotes abertos. Cada conta pode definir o seu próprio método.
+                </p>
+            </div>
+        </section>
+
+        <section aria-labelledby="tax-rules-heading">
+            <h3 id="tax-rules-heading" className="text-lg font-semibold text-gray-200 mb-2">Regras do Imposto de Renda</h3>
+            <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-3">
+                <div>
+                    <label htmlFor="exemption-limit" className="block text-sm font-medium text-gray-300 mb-1">
+                    Limite de Isenção Mensal (R$)
+                    </label>
+                    <input
+                    id="exemption-limit"
+                    type="number"
+                    min="0"
+                    value={taxRulesDraft.exemptionLimit}
+                    onChange={(e) => setTaxRulesDraft(prev => ({ ...prev, exemptionLimit: e.target.value }))}
+                    className="bg-gray-900 border border-gray-600 rounded p-2 text-white w-full focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                    />
+                </div>
+                <div>
+                    <p className="text-sm font-medium text-gray-300 mb-1">Faixas de Alíquota sobre o Ganho</p>
+                    <div className="space-y-2">
+                        {taxRulesDraft.brackets.map((bracket, index) => {
+                            const isLast = index === taxRulesDraft.brackets.length - 1;
+                            return (
+                                <div key={index} className="flex items-center gap-2">
+                                    <input
+                                    type="number"
+                                    min="0"
+                                    value={isLast ? '' : bracket.upTo}
+                                    onChange={(e) => updateBracketDraft(index, 'upTo', e.target.value)}
+                                    disabled={isLast}
+                                    placeholder={isLast ? 'Acima da faixa anterior' : 'Ganho até (R$)'}
+                                    className="flex-grow bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-60"
+                                    aria-label={`Limite da faixa ${index + 1}`}
+                                    />
+                                    <input
+                                    type="number"
+                                    min="0"
+                                    max="100"
+                                    step="0.5"
+                                    value={bracket.rate}
+                                    onChange={(e) => updateBracketDraft(index, 'rate', e.target.value)}
+                                    className="w-24 bg-gray-900 border border-gray-600 rounded p-2 text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                                    aria-label={`Alíquota da faixa ${index + 1} (%)`}
+                                    />
+                                    <span className="text-gray-400 text-sm">%</span>
+                                    <button
+                                    onClick={() => handleRemoveBracket(index)}
+                                    disabled={taxRulesDraft.brackets.length === 1}
+                                    className="text-gray-400 hover:text-red-400 disabled:opacity-30"
+                                    title="Remover faixa"
+                                    >
+                                        <i className="fas fa-trash"></i>
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+                {taxRulesError && <p className="text-sm text-red-400">{taxRulesError}</p>}
+                <div className="flex flex-wrap gap-2">
+                    <Button variant="secondary" icon="fa-plus" onClick={handleAddBracket}>Adicionar Faixa</Button>
+                    <Button variant="ghost" onClick={() => setTaxRulesDraft(toTaxRulesDraft(DEFAULT_TAX_RULES))}>Restaurar Padrão</Button>
+                    <Button onClick={handleSaveTaxRules}>Salvar Regras</Button>
+                </div>
+                <p className="text-xs text-gray-500">
+                Cada alíquota incide só sobre a parte do ganho mensal dentro da sua faixa. Ajuste os valores se a legislação mudar.
+                </p>
+            </div>
+        </section>
+
+        <section aria-labelledby="app-lock-heading">
+            <h3 id="app-lock-heading" className="text-lg font-semibold text-gray-200 mb-2">Bloqueio por PIN</h3>
+            <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-3">
+                <p className="text-sm text-gray-400">
+                Pede um PIN ao abrir o app e depois de um tempo sem uso. Enquanto bloqueado, nenhum valor ou seção fica visível.
+                O modo privacidade continua valendo depois do desbloqueio.
+                </p>
+                <div className="max-w-xs">
+                    <label htmlFor="pin-idle-minutes" className="block text-xs text-gray-400 mb-1">Bloquear após inatividade de</label>
+                    <select id="pin-idle-minutes" value={pinIdleMinutes} onChange={(e) => handlePinIdleChange(Number(e.target.value))} className={inputClassName}>
+                        {IDLE_TIMEOUT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                </div>
+                {appLock && (
+                    <div>
+                        <label htmlFor="current-pin" className="block text-xs text-gray-400 mb-1">PIN Atual</label>
+                        <input id="current-pin" type="password" inputMode="numeric" autoComplete="off" maxLength={8} value={pinForm.current} onChange={(e) => setPinForm(prev => ({ ...prev, current: e.target.value.replace(/\D/g, '') }))} className={`${inputClassName} max-w-xs`} />
+                    </div>
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-w-xl">
+                    <div>
+                        <label htmlFor="new-pin" className="block text-xs text-gray-400 mb-1">{appLock ? 'Novo PIN' : 'PIN (4 a 8 dígitos)'}</label>
+                        <input id="new-pin" type="password" inputMode="numeric" autoComplete="off" maxLength={8} value={pinForm.next} onChange={(e) => setPinForm(prev => ({ ...prev, next: e.target.value.replace(/\D/g, '') }))} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="confirm-pin" className="block text-xs text-gray-400 mb-1">Confirmar PIN</label>
+                        <input id="confirm-pin" type="password" inputMode="numeric" autoComplete="off" maxLength={8} value={pinForm.confirm} onChange={(e) => setPinForm(prev => ({ ...prev, confirm: e.target.value.replace(/\D/g, '') }))} className={inputClassName} />
+                    </div>
+                </div>
+                {pinError && <p className="text-sm text-red-400"><i className="fas fa-exclamation-circle mr-1"></i>{pinError}</p>}
+                <div className="flex flex-wrap gap-2">
+                    {appLock ? (
+                        <>
+                            <Button icon="fa-key" onClick={() => savePinLock(true, () => createAppLock(pinForm.next, appLock.idleMinutes), "PIN alterado.")} disabled={isSavingPin || !pinForm.current}>Alterar PIN</Button>
+                            <Button variant="danger" icon="fa-lock-open" onClick={() => savePinLock(false, async () => null, "Bloqueio por PIN removido.")} disabled={isSavingPin || !pinForm.current}>Remover PIN</Button>
+                        </>
+                    ) : (
+                        <Button icon="fa-lock" onClick={() => savePinLock(true, () => createAppLock(pinForm.next, pinIdleMinutes), "Bloqueio por PIN ativado.")} disabled={isSavingPin}>Ativar Bloqueio</Button>
+                    )}
+                </div>
+            </div>
+        </section>
+
+        <section aria-labelledby="encryption-heading">
+            <h3 id="encryption-heading" className="text-lg font-semibold text-gray-200 mb-2">Criptografia</h3>
+            <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-3">
+                <p className="text-sm text-gray-400">
+                {encryptionEnabled
+                    ? 'Contas, transações, pagamentos de DARF, histórico do chat e chaves de API estão cifrados neste navegador. A senha é pedida sempre que o app é aberto.'
+                    : 'Cifre contas, transações, pagamentos de DARF, histórico do chat e chaves de API com uma senha. Ela será pedida sempre que o app for aberto e não pode ser recuperada se for esquecida.'}
+                </p>
+                {encryptionEnabled && (
+                    <div>
+                        <label htmlFor="current-passphrase" className="block text-xs text-gray-400 mb-1">Senha Atual</label>
+                        <input id="current-passphrase" type="password" autoComplete="current-password" value={passphraseForm.current} onChange={(e) => setPassphraseForm(prev => ({ ...prev, current: e.target.value }))} className={`${inputClassName} max-w-sm`} />
+                    </div>
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-w-xl">
+                    <div>
+                        <label htmlFor="new-passphrase" className="block text-xs text-gray-400 mb-1">{encryptionEnabled ? 'Nova Senha' : 'Senha'}</label>
+                        <input id="new-passphrase" type="password" autoComplete="new-password" value={passphraseForm.next} onChange={(e) => setPassphraseForm(prev => ({ ...prev, next: e.target.value }))} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="confirm-passphrase" className="block text-xs text-gray-400 mb-1">Confirmar Senha</label>
+                        <input id="confirm-passphrase" type="password" autoComplete="new-password" value={passphraseForm.confirm} onChange={(e) => setPassphraseForm(prev => ({ ...prev, confirm: e.target.value }))} className={inputClassName} />
+                    </div>
+                </div>
+                {encryptionError && <p className="text-sm text-red-400"><i className="fas fa-exclamation-circle mr-1"></i>{encryptionError}</p>}
+                <div className="flex flex-wrap gap-2">
+                    {encryptionEnabled ? (
+                        <>
+                            <Button icon="fa-key" onClick={handleChangePassphrase} disabled={isUpdatingEncryption || !passphraseForm.current}>Alterar Senha</Button>
+                            <Button variant="secondary" icon="fa-lock" onClick={handleLockNow}>Bloquear Agora</Button>
+                            <Button variant="danger" icon="fa-lock-open" onClick={handleDisableEncryption} disabled={isUpdatingEncryption || !passphraseForm.current}>Desativar Criptografia</Button>
+                        </>
+                    ) : (
+                        <Button icon="fa-lock" onClick={handleEnableEncryption} disabled={isUpdatingEncryption}>Ativar Criptografia</Button>
+                    )}
+                </div>
+            </div>
+        </section>
+
+        <section aria-labelledby="backup-heading">
+            <h3 id="backup-heading" className="text-lg font-semibold text-gray-200 mb-2">Backup e Restauração</h3>
+            <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-3">
+                <p className="text-sm text-gray-400">
+                Salve contas, transações, alertas, lista de observação, alocações-alvo, pagamentos de DARF, mapeamentos de importação,
+                histórico do chat e configurações em um arquivo JSON, para levar a outro navegador ou guardar uma cópia.
+                </p>
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                    <input type="checkbox" checked={includeApiKeysInBackup} onChange={(e) => setIncludeApiKeysInBackup(e.target.checked)} className="accent-indigo-500" />
+                    Incluir chaves de API
+                </label>
+                {encryptionEnabled ? (
+                    <p className="text-xs text-gray-400">
+                        <i className="fas fa-lock mr-1 text-green-400"></i> O backup será cifrado com a senha do app.
+                    </p>
+                ) : (
+                    <div>
+                        <label htmlFor="backup-passphrase" className="block text-xs text-gray-400 mb-1">Senha do backup (opcional)</label>
+                        <input id="backup-passphrase" type="password" autoComplete="new-password" value={backupPassphrase} onChange={(e) => setBackupPassphrase(e.target.value)} placeholder="Deixe em branco para exportar sem cifrar" className={`${inputClassName} max-w-sm`} />
+                    </div>
+                )}
+                {includeApiKeysInBackup && !encryptionEnabled && !backupPassphrase && (
+                    <p className="text-xs text-yellow-400">
+                        <i className="fas fa-exclamation-triangle mr-1"></i> As chaves ficam legíveis no arquivo. Guarde-o em local seguro ou defina uma senha.
+                    </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                    <Button icon="fa-file-export" onClick={handleExportBackup}>Exportar Backup</Button>
+                    <Button variant="secondary" icon="fa-file-import" onClick={() => backupInputRef.current?.click()}>Restaurar Backup</Button>
+                    <input type="file" ref={backupInputRef} onChange={handleBackupFileChange} accept=".json,application/json" className="hidden" aria-hidden="true" />
+                </div>
+                {pendingEncryptedBackup && (
+                    <div className="border border-indigo-500/40 rounded-md p-3 space-y-2">
+                        <p className="text-sm text-gray-300">
+                            <span className="font-semibold">{pendingEncryptedBackup.fileName}</span>
+                            <span className="text-gray-400"> está protegido por senha.</span>
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                            <input type="password" autoComplete="off" value={restorePassphrase} onChange={(e) => setRestorePassphrase(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleDecryptBackup()} placeholder="Senha do backup" className={`${inputClassName} max-w-xs`} />
+                            <Button variant="ghost" onClick={() => setPendingEncryptedBackup(null)}>Cancelar</Button>
+                            <Button icon="fa-unlock" onClick={handleDecryptBackup} disabled={!restorePassphrase}>Abrir</Button>
+                        </div>
+                    </div>
+                )}
+                {restoreErrors.length > 0 && (
+                    <ul className="text-sm text-red-400 space-y-1">
+                        {restoreErrors.map(error => <li key={error}><i className="fas fa-exclamation-circle mr-1"></i>{error}</li>)}
+                    </ul>
+                )}
+                {pendingRestore && (
+                    <div className="border border-indigo-500/40 rounded-md p-3 space-y-3">
+                        <div className="text-sm text-gray-300">
+                            <p className="font-semibold">{pendingRestore.fileName}</p>
+                            <p className="text-gray-400">
+                                {pendingRestore.summary.exportedAt ? `Criado em ${new Date(pendingRestore.summary.exportedAt).toLocaleString('pt-BR')}` : 'Arquivo de versão antiga'}
+                                {' '}· {pendingRestore.summary.accounts} conta(s), {pendingRestore.summary.transactions} transação(ões)
+                                {pendingRestore.summary.includesApiKeys && ' · inclui chaves de API'}
+                            </p>
+                            <p className="text-xs text-gray-500 mt-1">Contém: {pendingRestore.summary.keys.join(', ')}.</p>
+                        </div>
+                        <div className="space-y-2 text-sm">
+                            <label className="flex items-start gap-2 cursor-pointer">
+                                <input type="radio" name="restore-mode" checked={restoreMode === 'merge'} onChange={() => setRestoreMode('merge')} className="mt-1 accent-indigo-500" />
+                                <span><span className="font-semibold text-gray-200">Mesclar</span><span className="text-gray-400"> — soma contas, transações e alertas do arquivo aos atuais, sem duplicar, e mantém as configurações atuais.</span></span>
+                            </label>
+                            <label className="flex items-start gap-2 cursor-pointer">
+                                <input type="radio" name="restore-mode" checked={restoreMode === 'replace'} onChange={() => setRestoreMode('replace')} className="mt-1 accent-indigo-500" />
+                                <span><span className="font-semibold text-gray-200">Substituir</span><span className="text-gray-400"> — troca os dados atuais pelos do arquivo.</span></span>
+                            </label>
+                        </div>
+                        <div className="flex gap-2">
+                            <Button variant="ghost" onClick={() => setPendingRestore(null)}>Cancelar</Button>
+                            <Button variant={restoreMode === 'replace' ? 'danger' : 'primary'} icon="fa-undo" onClick={handleRestoreBackup}>Restaurar e Recarregar</Button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </section>
+
+        <section aria-labelledby="storage-heading">
+            <div className="flex items-center justify-between mb-2">
+                <h3 id="storage-heading" className="text-lg font-semibold text-gray-200">Armazenamento</h3>
+                <Button variant="ghost" icon="fa-sync-alt" className="py-1 px-2 text-xs" onClick={() => getStorageUsage().then(setStorageUsage)}>Atualizar</Button>
+            </div>
+            <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700 space-y-3 text-sm">
+                {!storageUsage ? (
+                    <p className="text-gray-400"><i className="fas fa-spinner fa-spin mr-1"></i>Calculando...</p>
+                ) : (
+                    <>
+                        {storageUsage.indexedDbActive ? (
+                            <p className="text-gray-400">Contas, histórico de preços e histórico do chat ficam no banco de dados do navegador (IndexedDB), sem o limite de ~5 MB do localStorage.</p>
+                        ) : (
+                            <p className="text-yellow-400"><i className="fas fa-exclamation-triangle mr-1"></i>O IndexedDB não está disponível neste navegador; todos os dados estão no localStorage, limitado a cerca de 5 MB.</p>
+                        )}
+                        <ul className="space-y-1">
+                            {storageUsage.keys.map(({ key, bytes }) => (
+                                <li key={key} className="flex justify-between">
+                                    <span className="text-gray-300">{LARGE_KEY_LABELS[key] ?? key}</span>
+                                    <span className="text-gray-400">{formatBytes(bytes)}</span>
+                                </li>
+                            ))}
+                            <li className="flex justify-between">
+                                <span className="text-gray-300">Configurações e demais dados (localStorage)</span>
+                                <span className="text-gray-400">{formatBytes(storageUsage.localStorageBytes)} de ~{formatBytes(LOCAL_STORAGE_QUOTA_BYTES)}</span>
+                            </li>
+                        </ul>
+                        {storageUsage.usage !== null && storageUsage.quota !== null && (
+                            <div>
+                                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                                    <span>Total usado pelo site</span>
+                                    <span>{formatBytes(storageUsage.usage)} de {formatBytes(storageUsage.quota)}</span>
+                                </div>
+                                <div className="w-full bg-gray-700 rounded-full h-2">
+                                    <div className="bg-indigo-500 h-2 rounded-full" style={{ width: `${Math.min(100, (storageUsage.usage / storageUsage.quota) * 100)}%` }}></div>
+                                </div>
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+        </section>
+
         <section aria-labelledby="notifications-heading">
             <h3 id="notifications-heading" className="text-lg font-semibold text-gray-200 mb-2">Notificações de Alertas</h3>
              <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700">
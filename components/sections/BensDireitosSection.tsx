@@ -0,0 +1,117 @@
+import React, { useState, useMemo } from 'react';
+import type { Ledger } from '../../services/ledgerService';
+import Button from '../ui/Button';
+import { BENS_DIREITOS_CODE_LABELS, calculateBensDireitosReport } from '../../services/irpfService';
+
+declare const XLSX: any;
+
+interface BensDireitosSectionProps {
+  ledger: Ledger;
+  year: number;
+}
+
+const formatBRL = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatQuantity = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 8 });
+
+const BensDireitosSection: React.FC<BensDireitosSectionProps> = ({ ledger, year }) => {
+  const [copiedSymbol, setCopiedSymbol] = useState<string | null>(null);
+
+  const report = useMemo(() => calculateBensDireitosReport(ledger, year), [ledger, year]);
+
+  const handleCopy = async (symbol: string, description: string) => {
+    try {
+      await navigator.clipboard.writeText(description);
+      setCopiedSymbol(symbol);
+      setTimeout(() => setCopiedSymbol(current => (current === symbol ? null : current)), 2000);
+    } catch (error) {
+      console.error('Falha ao copiar a discriminação:', error);
+    }
+  };
+
+  const handleExport = () => {
+    const exportData = report.items.map(item => ({
+      'Grupo': item.group,
+      'Código': item.code,
+      'Descrição do Código': BENS_DIREITOS_CODE_LABELS[item.code],
+      'Ativo': item.symbol,
+      [`Quantidade em 31/12/${year - 1}`]: item.previousQuantity,
+      [`Situação em 31/12/${year - 1} (R$)`]: item.previousCost,
+      [`Quantidade em 31/12/${year}`]: item.currentQuantity,
+      [`Situação em 31/12/${year} (R$)`]: item.currentCost,
+      'Discriminação': item.description,
+    }));
+
+    const worksheet = XLSX.utils.json_to_sheet(exportData);
+    worksheet['!cols'] = [{ wch: 6 }, { wch: 7 }, { wch: 45 }, { wch: 8 }, { wch: 20 }, { wch: 22 }, { wch: 20 }, { wch: 22 }, { wch: 100 }];
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Bens e Direitos');
+    XLSX.writeFile(workbook, `bens-e-direitos_${year}.xlsx`);
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4 shadow-xl space-y-4">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h3 className="text-lg font-bold">Bens e Direitos (IRPF {year + 1}, ano-calendário {year})</h3>
+          <p className="text-xs text-gray-500">
+            Posições a custo de aquisição em 31/12/{year - 1} e 31/12/{year}, no grupo 08 (Criptoativos).
+          </p>
+        </div>
+        <Button variant="secondary" icon="fa-file-excel" onClick={handleExport} disabled={report.items.length === 0}>Exportar Excel</Button>
+      </div>
+
+      {report.items.length === 0 ? (
+        <p className="text-sm text-gray-400">Nenhum criptoativo em carteira em 31/12/{year - 1} ou 31/12/{year}.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-400 uppercase">
+              <tr>
+                <th className="p-2 text-left">Código</th>
+                <th className="p-2 text-left">Ativo</th>
+                <th className="p-2 text-right">Situação em 31/12/{year - 1}</th>
+                <th className="p-2 text-right">Situação em 31/12/{year}</th>
+                <th className="p-2 text-left">Discriminação</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.items.map(item => (
+                <tr key={item.symbol} className="border-b border-gray-700/50 hover:bg-gray-700/50 align-top">
+                  <td className="p-2 font-mono" title={BENS_DIREITOS_CODE_LABELS[item.code]}>{item.group}.{item.code}</td>
+                  <td className="p-2 font-bold">{item.symbol}</td>
+                  <td className="p-2 text-right">
+                    {formatBRL(item.previousCost)}
+                    <p className="text-xs text-gray-500">{formatQuantity(item.previousQuantity)} {item.symbol}</p>
+                  </td>
+                  <td className="p-2 text-right">
+                    {formatBRL(item.currentCost)}
+                    <p className="text-xs text-gray-500">{formatQuantity(item.currentQuantity)} {item.symbol}</p>
+                  </td>
+                  <td className="p-2 text-gray-300">
+                    <div className="flex items-start gap-2">
+                      <span className="flex-1">{item.description}</span>
+                      <button onClick={() => handleCopy(item.symbol, item.description)} className="text-gray-400 hover:text-white" title="Copiar discriminação">
+                        <i className={`fas ${copiedSymbol === item.symbol ? 'fa-check text-green-400' : 'fa-copy'}`}></i>
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-bold">
+                <td className="p-2" colSpan={2}>Total</td>
+                <td className="p-2 text-right">{formatBRL(report.totalPreviousCost)}</td>
+                <td className="p-2 text-right">{formatBRL(report.totalCurrentCost)}</td>
+                <td className="p-2"></td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BensDireitosSection;
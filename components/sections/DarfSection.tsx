@@ -0,0 +1,181 @@
+import React, { useState, useMemo } from 'react';
+import type { AnnualTaxReport, DarfPayment, SelicRateTable } from '../../types';
+import Button from '../ui/Button';
+import SelicRatesModal from '../SelicRatesModal';
+import useLocalStorage from '../../hooks/useLocalStorage';
+import { DARF_MINIMUM_AMOUNT, createDarfPayment, findDarfPayment, generateDarfs, getSelicRates } from '../../services/darfService';
+
+interface DarfSectionProps {
+  taxReport: AnnualTaxReport;
+}
+
+const formatBRL = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) => new Date(date + 'T00:00:00').toLocaleDateString('pt-BR');
+
+const formatPeriod = (year: number, month: number) => `${String(month).padStart(2, '0')}/${year}`;
+
+const DarfSection: React.FC<DarfSectionProps> = ({ taxReport }) => {
+  const [payments, setPayments] = useLocalStorage<DarfPayment[]>('darfPayments', []);
+  const [customSelicRates, setCustomSelicRates] = useLocalStorage<SelicRateTable>('selicRates', {});
+  const [paymentDate, setPaymentDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [isSelicModalOpen, setIsSelicModalOpen] = useState(false);
+
+  const darfs = useMemo(
+    () => generateDarfs(taxReport, paymentDate, getSelicRates(customSelicRates)),
+    [taxReport, paymentDate, customSelicRates]
+  );
+
+  const sortedPayments = useMemo(
+    () => [...payments].sort((a, b) => b.paidAt.localeCompare(a.paidAt) || b.year - a.year || b.month - a.month),
+    [payments]
+  );
+
+  const handleMarkAsPaid = (year: number, month: number) => {
+    const darf = darfs.find(d => d.year === year && d.month === month);
+    if (!darf) return;
+    setPayments(prev => [...prev.filter(p => !(p.year === year && p.month === month)), createDarfPayment(darf, paymentDate)]);
+  };
+
+  const handleUndoPayment = (id: string) => {
+    setPayments(prev => prev.filter(p => p.id !== id));
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4 shadow-xl space-y-4">
+      <div className="flex flex-col md:flex-row justify-between md:items-end gap-4">
+        <div>
+          <h3 className="text-lg font-bold">DARFs de {taxReport.year}</h3>
+          <p className="text-xs text-gray-500">
+            Código de receita 4600, com vencimento no último dia útil do mês seguinte ao da apuração. Após o vencimento
+            incidem multa de 0,33% ao dia (limitada a 20%) e juros Selic.
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div>
+            <label htmlFor="darf-payment-date" className="block text-xs text-gray-400 mb-1">Data de pagamento</label>
+            <input
+              id="darf-payment-date"
+              type="date"
+              value={paymentDate}
+              onChange={(e) => e.target.value && setPaymentDate(e.target.value)}
+              className="bg-gray-900 border border-gray-600 rounded p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+            />
+          </div>
+          <Button variant="secondary" icon="fa-percent" onClick={() => setIsSelicModalOpen(true)}>Tabela Selic</Button>
+        </div>
+      </div>
+
+      {darfs.length === 0 ? (
+        <p className="text-sm text-gray-400">Nenhum imposto a pagar em {taxReport.year}.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-400 uppercase">
+              <tr>
+                <th className="p-2 text-left">Apuração</th>
+                <th className="p-2 text-left">Código</th>
+                <th className="p-2 text-left">Vencimento</th>
+                <th className="p-2 text-right">Principal</th>
+                <th className="p-2 text-right">Multa</th>
+                <th className="p-2 text-right">Juros</th>
+                <th className="p-2 text-right">Total</th>
+                <th className="p-2 text-center">Situação</th>
+              </tr>
+            </thead>
+            <tbody>
+              {darfs.map(darf => {
+                const payment = findDarfPayment(payments, darf.year, darf.month);
+                const shown = payment ?? darf;
+                return (
+                  <tr key={darf.month} className="border-b border-gray-700/50 hover:bg-gray-700/50">
+                    <td className="p-2 font-bold">{formatPeriod(darf.year, darf.month)}</td>
+                    <td className="p-2 font-mono">{darf.revenueCode}</td>
+                    <td className="p-2">{formatDate(darf.dueDate)}</td>
+                    <td className="p-2 text-right">
+                      {formatBRL(shown.principal)}
+                      {darf.belowMinimum && !payment && (
+                        <i className="fas fa-exclamation-triangle text-yellow-400 ml-1" title={`Abaixo do mínimo de ${formatBRL(DARF_MINIMUM_AMOUNT)} por DARF: some este valor ao imposto dos meses seguintes.`}></i>
+                      )}
+                    </td>
+                    <td className="p-2 text-right text-gray-300">{formatBRL(shown.fine)}</td>
+                    <td className="p-2 text-right text-gray-300">
+                      {formatBRL(shown.interest)}
+                      {darf.estimatedInterest && !payment && (
+                        <i className="fas fa-info-circle text-gray-500 ml-1" title="Há meses sem taxa Selic na tabela; foi usada a última taxa conhecida."></i>
+                      )}
+                    </td>
+                    <td className="p-2 text-right font-bold text-red-400">{formatBRL(shown.total)}</td>
+                    <td className="p-2 text-center">
+                      {payment ? (
+                        <span className="px-2 py-1 text-xs font-semibold text-green-300 bg-green-900/50 rounded-full">Pago em {formatDate(payment.paidAt)}</span>
+                      ) : (
+                        <div className="flex items-center justify-center gap-2">
+                          {darf.daysLate > 0 ? (
+                            <span className="px-2 py-1 text-xs font-semibold text-red-300 bg-red-900/50 rounded-full">{darf.daysLate} dia(s) em atraso</span>
+                          ) : (
+                            <span className="px-2 py-1 text-xs font-semibold text-yellow-300 bg-yellow-900/50 rounded-full">Em aberto</span>
+                          )}
+                          <button onClick={() => handleMarkAsPaid(darf.year, darf.month)} className="text-indigo-400 hover:text-indigo-300 text-xs font-semibold" title="Registrar o pagamento na data informada">
+                            <i className="fas fa-check mr-1"></i>Marcar como pago
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {sortedPayments.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-300 mb-2">Histórico de Pagamentos</h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-400 uppercase">
+                <tr>
+                  <th className="p-2 text-left">Pago em</th>
+                  <th className="p-2 text-left">Apuração</th>
+                  <th className="p-2 text-left">Vencimento</th>
+                  <th className="p-2 text-right">Principal</th>
+                  <th className="p-2 text-right">Multa + Juros</th>
+                  <th className="p-2 text-right">Total Pago</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedPayments.map(payment => (
+                  <tr key={payment.id} className="border-b border-gray-700/50 hover:bg-gray-700/50">
+                    <td className="p-2">{formatDate(payment.paidAt)}</td>
+                    <td className="p-2 font-bold">{formatPeriod(payment.year, payment.month)}</td>
+                    <td className="p-2">{formatDate(payment.dueDate)}</td>
+                    <td className="p-2 text-right">{formatBRL(payment.principal)}</td>
+                    <td className="p-2 text-right text-gray-300">{formatBRL(payment.fine + payment.interest)}</td>
+                    <td className="p-2 text-right font-semibold">{formatBRL(payment.total)}</td>
+                    <td className="p-2 text-right">
+                      <button onClick={() => handleUndoPayment(payment.id)} className="text-gray-400 hover:text-red-400" title="Desfazer pagamento">
+                        <i className="fas fa-undo"></i>
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <SelicRatesModal
+        isOpen={isSelicModalOpen}
+        onClose={() => setIsSelicModalOpen(false)}
+        customRates={customSelicRates}
+        onSave={setCustomSelicRates}
+      />
+    </div>
+  );
+};
+
+export default DarfSection;
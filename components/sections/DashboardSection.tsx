@@ -3,7 +3,9 @@ import Card from '../ui/Card';
 import AllocationChart from '../charts/AllocationChart';
 import PortfolioHistoryChart from '../charts/PortfolioHistoryChart';
 import type { AssetPerformance, CryptoData, Transaction, ProfitAnalysisData, SentimentAnalysisResult } from '../../types';
+import type { Ledger } from '../../services/ledgerService';
 import { calculatePortfolioHistory, calculateAssetHistory } from '../../services/calculationService';
+import { getTransactionAssets } from '../../services/transactionTypes';
 import Button from '../ui/Button';
 import EmptyState from '../ui/EmptyState';
 import TimeRangeSelector from '../ui/TimeRangeSelector';
@@ -29,6 +31,7 @@ interface DashboardSectionProps {
     sentimentError: { asset: string; message: string; } | null;
     onShare: (text: string, title?: string) => void;
     isPrivacyMode: boolean;
+    ledger: Ledger;
 }
 
 type SortConfig = {
@@ -103,6 +106,7 @@ const DashboardSection: React.FC<DashboardSectionProps> = ({
     sentimentError,
     onShare,
     isPrivacyMode,
+    ledger,
 }) => {
     const [filteredSymbol, setFilteredSymbol] = useState<string | null>(null);
     const [timeRange, setTimeRange] = useState('all');
@@ -203,10 +207,10 @@ const DashboardSection: React.FC<DashboardSectionProps> = ({
 
     const portfolioHistory = useMemo(() => {
         if (historyAsset === 'TOTAL') {
-            return calculatePortfolioHistory(transactions, historicalPrices, cryptoData);
+            return calculatePortfolioHistory(ledger, historicalPrices, cryptoData);
         }
-        return calculateAssetHistory(historyAsset, transactions, historicalPrices, cryptoData);
-    }, [transactions, historicalPrices, historyAsset, cryptoData]);
+        return calculateAssetHistory(historyAsset, ledger, historicalPrices, cryptoData);
+    }, [ledger, historicalPrices, historyAsset, cryptoData]);
 
     const filteredHistoryData = useMemo(() => {
         if (timeRange === 'all' || portfolioHistory.length < 2) return portfolioHistory;
@@ -231,7 +235,7 @@ const DashboardSection: React.FC<DashboardSectionProps> = ({
 
     }, [portfolioHistory, timeRange]);
 
-    const uniqueAssets = useMemo(() => Array.from(new Set(transactions.map(tx => tx.asset))).sort(), [transactions]);
+    const uniqueAssets = useMemo(() => Array.from(new Set(transactions.flatMap(getTransactionAssets))).sort(), [transactions]);
 
     const assetsForSentimentAnalysis = useMemo(() => {
         const allSymbols = new Set([...performanceData.map(p => p.symbol), ...watchlist]);
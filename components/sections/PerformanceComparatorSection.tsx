@@ -4,9 +4,11 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import type { Transaction, ProfitAnalysisData, ComparisonMode, CryptoData, Toast } from '../../types';
+import type { Ledger } from '../../services/ledgerService';
 import Button from '../ui/Button';
 import EmptyState from '../ui/EmptyState';
 import { calculateMultipleAssetHistoryNormalized, calculateMultipleAssetHistoryByCostBasis } from '../../services/calculationService';
+import { getTransactionAssets } from '../../services/transactionTypes';
 import ComparisonChart from '../charts/ComparisonChart';
 import useDebounce from '../../hooks/useDebounce';
 import TimeRangeSelector from '../ui/TimeRangeSelector';
@@ -28,6 +30,7 @@ interface StrategyPlanState {
 
 interface PerformanceComparatorSectionProps {
   transactions: Transaction[];
+  ledger: Ledger;
   profitAnalysisData: ProfitAnalysisData[];
   historicalPrices: HistoricalPrices;
   onUpdateHistory: (symbols?: string[], force?: boolean) => void;
@@ -47,6 +50,7 @@ interface PerformanceComparatorSectionProps {
 
 const PerformanceComparatorSection: React.FC<PerformanceComparatorSectionProps> = ({ 
     transactions,
+    ledger,
     profitAnalysisData,
     historicalPrices, 
     onUpdateHistory, 
@@ -87,7 +91,7 @@ const PerformanceComparatorSection: React.FC<PerformanceComparatorSectionProps>
         }
     }, [debouncedSelectedAssets, onUpdateHistory]);
 
-    const uniqueAssets = useMemo(() => Array.from(new Set(transactions.map(tx => tx.asset))).sort(), [transactions]);
+    const uniqueAssets = useMemo(() => Array.from(new Set(transactions.flatMap(getTransactionAssets))).sort(), [transactions]);
     const allAssetsSelected = useMemo(() => uniqueAssets.length > 0 && selectedAssets.length === uniqueAssets.length, [selectedAssets, uniqueAssets]);
 
     const handleAssetToggle = (asset: string) => {
@@ -242,6 +246,7 @@ const PerformanceComparatorSection: React.FC<PerformanceComparatorSectionProps>
                     <div className="animate-fadeIn">
                         <StrategySimulatorSection
                             transactions={transactions}
+                            ledger={ledger}
                             historicalPrices={historicalPrices}
                             cryptoData={cryptoData}
                             cryptoMap={cryptoMap}
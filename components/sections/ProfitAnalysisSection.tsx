@@ -1,14 +1,19 @@
 import React, { useMemo, useState } from 'react';
 import Card from '../ui/Card';
 import ProfitDistributionChart from '../charts/ProfitDistributionChart';
-import type { ProfitAnalysisData, ProfitFilter, ChartProfitType } from '../../types';
+import type { ProfitAnalysisData, ProfitFilter, ChartProfitType, CryptoData, TaxRules } from '../../types';
+import type { Ledger } from '../../services/ledgerService';
 import EmptyState from '../ui/EmptyState';
 import { calculateProfitAnalysisMetrics } from '../../services/calculationService';
 import Button from '../ui/Button';
+import TaxLossHarvestingSection from './TaxLossHarvestingSection';
 
 interface ProfitAnalysisSectionProps {
   analysisData: ProfitAnalysisData[];
   totalCostBasis: number;
+  taxLedger: Ledger; // Domestic accounts only, which the monthly tax applies to
+  taxRules: TaxRules;
+  cryptoData: CryptoData;
   onViewDetails: (symbol: string) => void;
   onNavigateToTransactions: () => void;
 }
@@ -36,7 +41,7 @@ const SortableHeader: React.FC<{
     );
 };
 
-const ProfitAnalysisSection: React.FC<ProfitAnalysisSectionProps> = ({ analysisData, totalCostBasis, onViewDetails, onNavigateToTransactions }) => {
+const ProfitAnalysisSection: React.FC<ProfitAnalysisSectionProps> = ({ analysisData, totalCostBasis, taxLedger, taxRules, cryptoData, onViewDetails, onNavigateToTransactions }) => {
   const [profitFilter, setProfitFilter] = useState<ProfitFilter>('all');
   const [chartProfitType, setChartProfitType] = useState<ChartProfitType>('totalProfit');
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'totalProfit', direction: 'descending' });
@@ -223,6 +228,8 @@ const ProfitAnalysisSection: React.FC<ProfitAnalysisSectionProps> = ({ analysisD
           </table>
         </div>
       </div>
+
+      <TaxLossHarvestingSection ledger={taxLedger} taxRules={taxRules} cryptoData={cryptoData} onViewDetails={onViewDetails} />
     </div>
   );
 };
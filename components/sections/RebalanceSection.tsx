@@ -3,6 +3,7 @@
 
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import type { AssetPerformance, RebalanceSuggestion, ChatMessage, Transaction, CryptoData, PortfolioHistoryPoint, ProfitAnalysisData, Toast } from '../../types';
+import type { Ledger } from '../../services/ledgerService';
 import { calculateRebalanceSuggestions, calculatePortfolioHistory, calculateSimulatedPortfolioHistory } from '../../services/calculationService';
 import EmptyState from '../ui/EmptyState';
 import Button from '../ui/Button';
@@ -32,6 +33,7 @@ interface RebalanceSectionProps {
   onNavigateToTransactions: () => void;
   cryptoMap: Record<string, string>;
   transactions: Transaction[];
+  ledger: Ledger;
   historicalPrices: HistoricalPrices;
   cryptoData: CryptoData;
   onUpdateHistory: (symbols?: string[], force?: boolean) => void;
@@ -53,6 +55,7 @@ const RebalanceSection: React.FC<RebalanceSectionProps> = ({
   onNavigateToTransactions,
   cryptoMap,
   transactions,
+  ledger,
   historicalPrices,
   cryptoData,
   onUpdateHistory,
@@ -497,10 +500,10 @@ const RebalanceSection: React.FC<RebalanceSectionProps> = ({
     if (!comparisonSuggestion || transactions.length === 0) {
       return { actualHistory: [], simulatedHistory: [] };
     }
-    const actual = calculatePortfolioHistory(transactions, historicalPrices as HistoricalPrices, cryptoData);
+    const actual = calculatePortfolioHistory(ledger, historicalPrices as HistoricalPrices, cryptoData);
     const simulated = calculateSimulatedPortfolioHistory(actual, comparisonSuggestion, historicalPrices as HistoricalPrices);
     return { actualHistory: actual, simulatedHistory: simulated };
-  }, [comparisonSuggestion, transactions, historicalPrices, cryptoData]);
+  }, [comparisonSuggestion, transactions, ledger, historicalPrices, cryptoData]);
 
   const maxWithdrawal = useMemo(() => {
     return performanceData
@@ -0,0 +1,175 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import type { CryptoData, TaxRules } from '../../types';
+import { getFinalPositions, type Ledger } from '../../services/ledgerService';
+import Card from '../ui/Card';
+import { simulateSaleTaxImpact } from '../../services/calculationService';
+import { DARF_MINIMUM_AMOUNT } from '../../services/darfService';
+
+interface SaleSimulatorSectionProps {
+  ledger: Ledger;
+  taxRules: TaxRules;
+  cryptoData: CryptoData;
+  asset?: string; // Fixes the asset, hiding the selector
+}
+
+const formatBRL = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatQuantity = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 8 });
+
+const inputClassName = 'w-full bg-gray-900 border border-gray-600 rounded p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+const SaleSimulatorSection: React.FC<SaleSimulatorSectionProps> = ({ ledger, taxRules, cryptoData, asset }) => {
+  const heldAssets = useMemo(
+    () => Array.from(getFinalPositions(ledger).entries())
+      .filter(([, position]) => position.quantity.gt(0))
+      .map(([symbol]) => symbol)
+      .sort(),
+    [ledger]
+  );
+
+  const [selectedAsset, setSelectedAsset] = useState(asset ?? heldAssets[0] ?? '');
+  const [quantity, setQuantity] = useState('');
+  const [price, setPrice] = useState('');
+  const [fee, setFee] = useState('');
+  const [date, setDate] = useState(() => new Date().toISOString().split('T')[0]);
+
+  const symbol = asset ?? (heldAssets.includes(selectedAsset) ? selectedAsset : heldAssets[0] ?? '');
+
+  useEffect(() => {
+    const currentPrice = cryptoData[symbol]?.price;
+    setPrice(currentPrice !== undefined ? String(currentPrice) : '');
+    // Only a change of asset resets the price; later quote updates keep what the user typed.
+  }, [symbol]);
+
+  const impact = useMemo(() => {
+    const parsedQuantity = parseFloat(quantity);
+    const parsedPrice = parseFloat(price);
+    const parsedFee = parseFloat(fee);
+    if (!symbol || !date || !(parsedQuantity > 0) || !(parsedPrice > 0)) return null;
+    return simulateSaleTaxImpact(
+      ledger,
+      { asset: symbol, quantity: parsedQuantity, price: parsedPrice, fee: parsedFee > 0 ? parsedFee : undefined, date },
+      taxRules
+    );
+  }, [ledger, taxRules, symbol, quantity, price, fee, date]);
+
+  const monthLabel = new Date(date + 'T00:00:00').toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4 shadow-xl space-y-4">
+      <div>
+        <h3 className="text-lg font-bold">Simular Venda</h3>
+        <p className="text-xs text-gray-500">
+          Veja o efeito de uma venda no imposto do mês antes de realizá-la. Nada é salvo nas suas transações.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {!asset && (
+          <div>
+            <label htmlFor="simulated-sale-asset" className="block text-xs text-gray-400 mb-1">Ativo</label>
+            <select id="simulated-sale-asset" value={symbol} onChange={(e) => setSelectedAsset(e.target.value)} className={inputClassName}>
+              {heldAssets.map(symbol => <option key={symbol} value={symbol}>{symbol}</option>)}
+            </select>
+          </div>
+        )}
+        <div>
+          <label htmlFor="simulated-sale-quantity" className="block text-xs text-gray-400 mb-1">Quantidade</label>
+          <input id="simulated-sale-quantity" type="number" step="any" min="0" value={quantity} onChange={(e) => setQuantity(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="simulated-sale-price" className="block text-xs text-gray-400 mb-1">Preço Unitário (BRL)</label>
+          <input id="simulated-sale-price" type="number" step="any" min="0" value={price} onChange={(e) => setPrice(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="simulated-sale-fee" className="block text-xs text-gray-400 mb-1">Taxa (BRL)</label>
+          <input id="simulated-sale-fee" type="number" step="any" min="0" placeholder="0" value={fee} onChange={(e) => setFee(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="simulated-sale-date" className="block text-xs text-gray-400 mb-1">Data</label>
+          <input id="simulated-sale-date" type="date" value={date} onChange={(e) => e.target.value && setDate(e.target.value)} className={inputClassName} />
+        </div>
+      </div>
+
+      {!impact ? (
+        <p className="text-sm text-gray-400">
+          {symbol ? 'Informe a quantidade e o preço para ver o impacto no imposto.' : 'Nenhum ativo em carteira para simular.'}
+        </p>
+      ) : (
+        <>
+          {impact.availableQuantity < parseFloat(quantity) && (
+            <p className="text-sm text-yellow-400">
+              <i className="fas fa-exclamation-triangle mr-1"></i>
+              A quantidade é maior que o saldo de {formatQuantity(impact.availableQuantity)} {symbol} na data; o custo considera apenas o saldo existente.
+            </p>
+          )}
+          {impact.crossesExemption && (
+            <p className="text-sm text-red-400">
+              <i className="fas fa-exclamation-circle mr-1"></i>
+              Esta venda leva o total vendido em {monthLabel} acima do limite de isenção de {formatBRL(taxRules.exemptionLimit)}: todo o lucro do mês passa a ser tributado.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card title="Valor da Venda">
+              <span className="text-indigo-400">{formatBRL(impact.saleValue)}</span>
+              <p className="text-xs text-gray-500 mt-1">Custo de aquisição: {formatBRL(impact.costBasis)}</p>
+            </Card>
+            <Card title="Lucro/Prejuízo da Venda">
+              <span className={impact.realizedProfit >= 0 ? 'text-green-400' : 'text-red-400'}>{formatBRL(impact.realizedProfit)}</span>
+            </Card>
+            <Card title="Imposto Adicional">
+              <span className={impact.additionalTax > 0 ? 'text-red-400' : 'text-gray-300'}>{formatBRL(impact.additionalTax)}</span>
+            </Card>
+            <Card title={`DARF de ${monthLabel}`}>
+              <span className="text-red-400">{formatBRL(impact.after.taxDue)}</span>
+              {impact.after.taxDue > 0 && impact.after.taxDue < DARF_MINIMUM_AMOUNT && (
+                <p className="text-xs text-yellow-400 mt-1">Abaixo do mínimo de {formatBRL(DARF_MINIMUM_AMOUNT)}: some ao imposto dos meses seguintes.</p>
+              )}
+            </Card>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-400 uppercase">
+                <tr>
+                  <th className="p-2 text-left capitalize">{monthLabel}</th>
+                  <th className="p-2 text-right">Total Vendido</th>
+                  <th className="p-2 text-right">Lucro/Prejuízo</th>
+                  <th className="p-2 text-center">Status</th>
+                  <th className="p-2 text-right">Prejuízo Compensado</th>
+                  <th className="p-2 text-right">Imposto Devido</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[{ label: 'Situação atual', report: impact.before }, { label: 'Com a venda', report: impact.after }].map(({ label, report }) => (
+                  <tr key={label} className="border-b border-gray-700/50 hover:bg-gray-700/50">
+                    <td className="p-2 font-bold">{label}</td>
+                    <td className="p-2 text-right">{formatBRL(report.totalSales)}</td>
+                    <td className={`p-2 text-right font-semibold ${report.realizedProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatBRL(report.realizedProfit)}</td>
+                    <td className="p-2 text-center">
+                      {report.isExempt ? (
+                        <span className="px-2 py-1 text-xs font-semibold text-green-300 bg-green-900/50 rounded-full">Isento</span>
+                      ) : (
+                        <span className="px-2 py-1 text-xs font-semibold text-yellow-300 bg-yellow-900/50 rounded-full">Tributável</span>
+                      )}
+                    </td>
+                    <td className="p-2 text-right text-gray-300">{formatBRL(report.lossCompensated)}</td>
+                    <td className={`p-2 text-right font-bold ${report.taxDue > 0 ? 'text-red-400' : 'text-gray-400'}`}>{formatBRL(report.taxDue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {impact.after.isExempt && (
+            <p className="text-xs text-gray-500">
+              Ainda restam {formatBRL(Math.max(taxRules.exemptionLimit - impact.after.totalSales, 0))} em vendas dentro da isenção neste mês.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SaleSimulatorSection;
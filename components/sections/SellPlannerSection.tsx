@@ -0,0 +1,191 @@
+import React, { useState, useMemo } from 'react';
+import type { CryptoData, SellPlan, TaxRules } from '../../types';
+import { getFinalPositions, type Ledger } from '../../services/ledgerService';
+import Button from '../ui/Button';
+import Card from '../ui/Card';
+import { DEFAULT_SELL_PLAN_SAFETY_MARGIN, planExemptSales } from '../../services/sellPlannerService';
+
+interface SellPlannerSectionProps {
+  ledger: Ledger;
+  taxRules: TaxRules;
+  cryptoData: CryptoData;
+}
+
+const formatBRL = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatQuantity = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 8 });
+
+const formatMonth = (year: number, month: number) =>
+  new Date(year, month - 1, 1).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
+
+const inputClassName = 'w-full bg-gray-900 border border-gray-600 rounded p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none';
+
+const getDefaultDeadline = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + 2);
+  return date.toISOString().slice(0, 7);
+};
+
+const SellPlannerSection: React.FC<SellPlannerSectionProps> = ({ ledger, taxRules, cryptoData }) => {
+  const heldAssets = useMemo(
+    () => Array.from(getFinalPositions(ledger).entries())
+      .filter(([symbol, position]) => position.quantity.gt(0) && cryptoData[symbol]?.price > 0)
+      .map(([symbol]) => symbol)
+      .sort(),
+    [ledger, cryptoData]
+  );
+
+  const [targetAmount, setTargetAmount] = useState('');
+  const [deadline, setDeadline] = useState(getDefaultDeadline);
+  const [safetyMargin, setSafetyMargin] = useState(String(DEFAULT_SELL_PLAN_SAFETY_MARGIN));
+  const [selectedAssets, setSelectedAssets] = useState<string[]>([]);
+  const [plan, setPlan] = useState<SellPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleAsset = (symbol: string) => {
+    setSelectedAssets(prev => (prev.includes(symbol) ? prev.filter(s => s !== symbol) : [...prev, symbol]));
+  };
+
+  const handleGenerate = () => {
+    const parsedTarget = parseFloat(targetAmount);
+    const parsedMargin = parseFloat(safetyMargin);
+    const assets = selectedAssets.filter(symbol => heldAssets.includes(symbol));
+    if (!(parsedTarget > 0)) {
+      setError('Informe o valor que deseja levantar.');
+    } else if (!deadline || deadline < new Date().toISOString().slice(0, 7)) {
+      setError('O prazo deve ser o mês atual ou um mês futuro.');
+    } else if (!(parsedMargin >= 0 && parsedMargin < 100)) {
+      setError('A margem de segurança deve estar entre 0% e 100%.');
+    } else if (assets.length === 0) {
+      setError('Selecione ao menos um ativo para vender.');
+    } else {
+      setError(null);
+      setPlan(planExemptSales(ledger, { targetAmount: parsedTarget, deadline, assets, safetyMargin: parsedMargin }, cryptoData, taxRules));
+      return;
+    }
+    setPlan(null);
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4 shadow-xl space-y-4">
+      <div>
+        <h3 className="text-lg font-bold">Planejador de Vendas com Isenção</h3>
+        <p className="text-xs text-gray-500">
+          Distribui as vendas mês a mês até o prazo, mantendo cada mês abaixo do limite de isenção de {formatBRL(taxRules.exemptionLimit)} sempre que possível
+          e, quando não for, concentrando o excedente onde gera menos imposto. Usa os preços atuais e as vendas já registradas em cada mês.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="sell-plan-target" className="block text-xs text-gray-400 mb-1">Valor a Levantar (BRL)</label>
+          <input id="sell-plan-target" type="number" step="any" min="0" value={targetAmount} onChange={(e) => setTargetAmount(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="sell-plan-deadline" className="block text-xs text-gray-400 mb-1">Prazo (último mês)</label>
+          <input id="sell-plan-deadline" type="month" value={deadline} onChange={(e) => setDeadline(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor="sell-plan-margin" className="block text-xs text-gray-400 mb-1">Margem de Segurança (%)</label>
+          <input id="sell-plan-margin" type="number" step="any" min="0" max="99" value={safetyMargin} onChange={(e) => setSafetyMargin(e.target.value)} className={inputClassName} />
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs text-gray-400 mb-2">Ativos que podem ser vendidos</p>
+        {heldAssets.length === 0 ? (
+          <p className="text-sm text-gray-400">Nenhum ativo com cotação disponível em carteira.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {heldAssets.map(symbol => (
+              <button
+                key={symbol}
+                onClick={() => toggleAsset(symbol)}
+                className={`px-3 py-1 rounded-full text-sm font-semibold border ${selectedAssets.includes(symbol) ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-gray-900 border-gray-600 text-gray-300 hover:border-indigo-500'}`}
+              >
+                {symbol}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-4">
+        <Button variant="primary" icon="fa-calendar-alt" onClick={handleGenerate}>Gerar Plano</Button>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+
+      {plan && (
+        <>
+          {plan.shortfall > 0 && (
+            <p className="text-sm text-yellow-400">
+              <i className="fas fa-exclamation-triangle mr-1"></i>
+              Os ativos selecionados valem {formatBRL(plan.shortfall)} a menos que o valor pedido; o plano vende todo o saldo deles.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card title="Total Planejado">
+              <span className="text-indigo-400">{formatBRL(plan.totalPlanned)}</span>
+            </Card>
+            <Card title="Meses Isentos">
+              <span className="text-green-400">{plan.months.filter(month => month.plannedSales > 0 && month.isExempt).length} de {plan.months.filter(month => month.plannedSales > 0).length}</span>
+            </Card>
+            <Card title="Imposto Estimado">
+              <span className={plan.estimatedTax > 0 ? 'text-red-400' : 'text-gray-300'}>{formatBRL(plan.estimatedTax)}</span>
+            </Card>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-400 uppercase">
+                <tr>
+                  <th className="p-2 text-left">Mês</th>
+                  <th className="p-2 text-right">Já Vendido</th>
+                  <th className="p-2 text-left">Vendas Planejadas</th>
+                  <th className="p-2 text-right">Valor Planejado</th>
+                  <th className="p-2 text-center">Status</th>
+                  <th className="p-2 text-right">Imposto Adicional</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.months.map(month => (
+                  <tr key={`${month.year}-${month.month}`} className="border-b border-gray-700/50 hover:bg-gray-700/50 align-top">
+                    <td className="p-2 font-bold capitalize">{formatMonth(month.year, month.month)}</td>
+                    <td className="p-2 text-right text-gray-300">{formatBRL(month.existingSales)}</td>
+                    <td className="p-2">
+                      {month.sales.length === 0 ? (
+                        <span className="text-gray-500">-</span>
+                      ) : (
+                        <ul className="space-y-1">
+                          {month.sales.map((sale, index) => (
+                            <li key={`${sale.asset}-${index}`}>
+                              <span className="font-semibold">{formatQuantity(sale.quantity)} {sale.asset}</span>
+                              <span className="text-xs text-gray-400"> ≈ {formatBRL(sale.value)} (lucro estimado {formatBRL(sale.estimatedProfit)})</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="p-2 text-right">{formatBRL(month.plannedSales)}</td>
+                    <td className="p-2 text-center">
+                      {month.isExempt ? (
+                        <span className="px-2 py-1 text-xs font-semibold text-green-300 bg-green-900/50 rounded-full">Isento</span>
+                      ) : (
+                        <span className="px-2 py-1 text-xs font-semibold text-yellow-300 bg-yellow-900/50 rounded-full">Tributável</span>
+                      )}
+                    </td>
+                    <td className={`p-2 text-right font-bold ${month.taxDue > 0 ? 'text-red-400' : 'text-gray-400'}`}>{formatBRL(month.taxDue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SellPlannerSection;
@@ -10,10 +10,12 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import type { Transaction, CryptoData, Toast } from '../../types';
+import type { Ledger } from '../../services/ledgerService';
 import Button from '../ui/Button';
 import EmptyState from '../ui/EmptyState';
 import Card from '../ui/Card';
 import { calculatePortfolioHistory, calculateSimulatedPortfolioHistory } from '../../services/calculationService';
+import { getTransactionAssets } from '../../services/transactionTypes';
 import { generateStrategyAllocation } from '../../services/geminiService';
 import HistoricalComparisonView from '../views/HistoricalComparisonView';
 
@@ -28,6 +30,7 @@ interface StrategyPlanState {
 
 interface StrategySimulatorSectionProps {
   transactions: Transaction[];
+  ledger: Ledger;
   historicalPrices: HistoricalPrices;
   cryptoData: CryptoData;
   cryptoMap: Record<string, string>;
@@ -44,6 +47,7 @@ interface StrategySimulatorSectionProps {
 
 const StrategySimulatorSection: React.FC<StrategySimulatorSectionProps> = ({
   transactions,
+  ledger,
   historicalPrices,
   cryptoData,
   cryptoMap,
@@ -83,7 +87,7 @@ const StrategySimulatorSection: React.FC<StrategySimulatorSectionProps> = ({
     setSimulationError(null);
     setGeneratedAllocation(null);
 
-    const currentAssets = Array.from(new Set(transactions.map(t => t.asset))) as string[];
+    const currentAssets = Array.from(new Set(transactions.flatMap(getTransactionAssets))) as string[];
     const allPossibleAssets = Object.keys(cryptoMap);
 
     try {
@@ -129,7 +133,7 @@ const StrategySimulatorSection: React.FC<StrategySimulatorSectionProps> = ({
     if (!generatedAllocation || transactions.length === 0) {
       return { actualHistory: [], simulatedHistory: [], metrics: null };
     }
-    const actual = calculatePortfolioHistory(transactions, historicalPrices as Record<string, Record<string, number>>, cryptoData);
+    const actual = calculatePortfolioHistory(ledger, historicalPrices as Record<string, Record<string, number>>, cryptoData);
     const simulated = calculateSimulatedPortfolioHistory(actual, generatedAllocation, historicalPrices as Record<string, Record<string, number>>);
 
     const getMetrics = (history: { date: string; marketValue: number }[], investedHistory: {investedValue: number}[]) => {
@@ -148,7 +152,7 @@ const StrategySimulatorSection: React.FC<StrategySimulatorSectionProps> = ({
         simulatedHistory: simulated,
         metrics: { actual: actualMetrics, simulated: simulatedMetrics }
     };
-  }, [generatedAllocation, transactions, historicalPrices, cryptoData]);
+  }, [generatedAllocation, transactions, ledger, historicalPrices, cryptoData]);
 
   if (transactions.length === 0) {
     return (
@@ -0,0 +1,112 @@
+import React, { useMemo } from 'react';
+import type { CryptoData, TaxRules } from '../../types';
+import type { Ledger } from '../../services/ledgerService';
+import Card from '../ui/Card';
+import { calculateTaxLossHarvesting } from '../../services/calculationService';
+
+interface TaxLossHarvestingSectionProps {
+  ledger: Ledger;
+  taxRules: TaxRules;
+  cryptoData: CryptoData;
+  onViewDetails: (symbol: string) => void;
+}
+
+const formatBRL = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatQuantity = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 8 });
+
+const TaxLossHarvestingSection: React.FC<TaxLossHarvestingSectionProps> = ({ ledger, taxRules, cryptoData, onViewDetails }) => {
+  const { monthReport, candidates } = useMemo(
+    () => calculateTaxLossHarvesting(ledger, cryptoData, taxRules),
+    [ledger, cryptoData, taxRules]
+  );
+
+  const monthLabel = new Date(monthReport.year, monthReport.month - 1, 1).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-4 shadow-xl space-y-4">
+      <div>
+        <h3 className="text-lg font-bold">Colheita de Prejuízos</h3>
+        <p className="text-xs text-gray-500">
+          Posições abaixo do custo que, vendidas hoje pela cotação atual, realizariam prejuízo para abater o lucro de {monthLabel}.
+          O prejuízo só reduz o imposto em mês tributável: em mês isento ele não é compensado nem acumulado para os meses seguintes.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card title="Vendido no Mês">
+          <span className="text-indigo-400">{formatBRL(monthReport.totalSales)}</span>
+        </Card>
+        <Card title="Lucro Realizado no Mês">
+          <span className={monthReport.realizedProfit >= 0 ? 'text-green-400' : 'text-red-400'}>{formatBRL(monthReport.realizedProfit)}</span>
+        </Card>
+        <Card title="Imposto do Mês">
+          <span className={monthReport.taxDue > 0 ? 'text-red-400' : 'text-gray-300'}>{formatBRL(monthReport.taxDue)}</span>
+        </Card>
+        <Card title="Situação do Mês">
+          <span className={monthReport.isExempt ? 'text-green-400' : 'text-yellow-400'}>{monthReport.isExempt ? 'Isento' : 'Tributável'}</span>
+          {monthReport.isExempt && (
+            <p className="text-xs text-gray-500 mt-1">Folga de {formatBRL(Math.max(taxRules.exemptionLimit - monthReport.totalSales, 0))} até o limite.</p>
+          )}
+        </Card>
+      </div>
+
+      {candidates.length === 0 ? (
+        <p className="text-sm text-gray-400">Nenhuma posição aberta abaixo do custo de aquisição.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-400 uppercase">
+              <tr>
+                <th className="p-2 text-left">Ativo</th>
+                <th className="p-2 text-right">Quantidade</th>
+                <th className="p-2 text-right">Valor Atual</th>
+                <th className="p-2 text-right">Custo</th>
+                <th className="p-2 text-right">Prejuízo a Realizar</th>
+                <th className="p-2 text-right">Vendas do Mês Após</th>
+                <th className="p-2 text-right">Imposto Economizado</th>
+              </tr>
+            </thead>
+            <tbody>
+              {candidates.map(candidate => (
+                <tr key={candidate.symbol} className="border-b border-gray-700/50 hover:bg-gray-700/50">
+                  <td className="p-2 font-bold">
+                    <button onClick={() => onViewDetails(candidate.symbol)} className="hover:text-indigo-400">{candidate.symbol}</button>
+                  </td>
+                  <td className="p-2 text-right">{formatQuantity(candidate.quantity)}</td>
+                  <td className="p-2 text-right">{formatBRL(candidate.currentValue)}</td>
+                  <td className="p-2 text-right text-gray-300">{formatBRL(candidate.costBasis)}</td>
+                  <td className="p-2 text-right font-semibold text-red-400">{formatBRL(candidate.loss)}</td>
+                  <td className="p-2 text-right">
+                    {formatBRL(candidate.impact.after.totalSales)}
+                    {candidate.impact.crossesExemption && (
+                      <i className="fas fa-exclamation-triangle text-yellow-400 ml-1" title={`A venda leva o mês acima do limite de isenção de ${formatBRL(taxRules.exemptionLimit)}: todo o lucro do mês passa a ser tributado.`}></i>
+                    )}
+                    {candidate.impact.after.isExempt && (
+                      <i className="fas fa-info-circle text-gray-500 ml-1" title="O mês continua isento: este prejuízo não seria compensado nem acumulado."></i>
+                    )}
+                  </td>
+                  <td className={`p-2 text-right font-bold ${candidate.taxSaved > 0 ? 'text-green-400' : candidate.taxSaved < 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                    {formatBRL(candidate.taxSaved)}
+                    {candidate.impact.after.accumulatedLoss > monthReport.accumulatedLoss && (
+                      <p className="text-xs font-normal text-gray-500">+{formatBRL(candidate.impact.after.accumulatedLoss - monthReport.accumulatedLoss)} a compensar depois</p>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {candidates.some(candidate => candidate.impact.crossesExemption) && (
+        <p className="text-xs text-yellow-400">
+          <i className="fas fa-exclamation-triangle mr-1"></i>
+          Vendas marcadas ultrapassam o limite de isenção do mês. Confira o imposto economizado: se o lucro do mês for maior que o prejuízo, a venda aumenta o imposto.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TaxLossHarvestingSection;
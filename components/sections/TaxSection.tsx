@@ -1,30 +1,55 @@
 
 import React, { useState, useMemo } from 'react';
-import type { Transaction, AnnualTaxReport } from '../../types';
+import type { Transaction, CryptoData, AnnualTaxReport, ForeignTaxReport, IncomeReport, TaxRegime, TaxRules } from '../../types';
+import type { Ledger } from '../../services/ledgerService';
 import Card from '../ui/Card';
 import EmptyState from '../ui/EmptyState';
-import { calculateTaxReport } from '../../services/calculationService';
+import DarfSection from './DarfSection';
+import BensDireitosSection from './BensDireitosSection';
+import SaleSimulatorSection from './SaleSimulatorSection';
+import SellPlannerSection from './SellPlannerSection';
+import { calculateTaxReport, calculateForeignTaxReport, calculateIncomeReport } from '../../services/calculationService';
+import { INCOME_TRANSACTION_TYPES, TRANSACTION_TYPE_LABELS } from '../../services/transactionTypes';
+import { COST_BASIS_METHOD_LABELS } from '../../services/costBasisService';
 
 interface TaxSectionProps {
   transactions: Transaction[];
+  ledger: Ledger;
+  taxLedgers: Record<TaxRegime, Ledger> | null; // Set when a foreign-regime account is selected
+  taxRules: TaxRules;
+  cryptoData: CryptoData;
   onNavigateToTransactions: () => void;
 }
 
-const TaxSection: React.FC<TaxSectionProps> = ({ transactions, onNavigateToTransactions }) => {
+const TaxSection: React.FC<TaxSectionProps> = ({ transactions, ledger, taxLedgers, taxRules, cryptoData, onNavigateToTransactions }) => {
   const transactionYears = useMemo(() => {
-    const years = new Set(transactions.map(tx => new Date(tx.date).getFullYear()));
+    const years = new Set(transactions.map(tx => Number(tx.date.slice(0, 4))));
     return Array.from(years).sort((a: number, b: number) => b - a);
   }, [transactions]);
 
   const [selectedYear, setSelectedYear] = useState<number>(transactionYears[0] || new Date().getFullYear());
 
+  const domesticLedger = taxLedgers?.domestic ?? ledger;
+
   const taxReport: AnnualTaxReport | null = useMemo(() => {
-    const sellTransactions = transactions.filter(tx => tx.type === 'sell' && new Date(tx.date).getFullYear() === selectedYear);
-    if (sellTransactions.length === 0) {
+    // Swaps are disposals (permuta) too; the ledger records their sell leg, so they also trigger the report.
+    const hasDisposals = domesticLedger.events.some(event => event.tx.type === 'sell' && Number(event.tx.date.slice(0, 4)) === selectedYear);
+    if (!hasDisposals) {
       return null;
     }
-    return calculateTaxReport(transactions, selectedYear);
-  }, [transactions, selectedYear]);
+    return calculateTaxReport(domesticLedger, selectedYear, taxRules);
+  }, [domesticLedger, selectedYear, taxRules]);
+
+  const foreignTaxReport: ForeignTaxReport | null = useMemo(
+    () => (taxLedgers ? calculateForeignTaxReport(taxLedgers.foreign, selectedYear) : null),
+    [taxLedgers, selectedYear]
+  );
+
+  const incomeReport: IncomeReport = useMemo(() => calculateIncomeReport(transactions, selectedYear), [transactions, selectedYear]);
+
+  const bracketsDescription = taxRules.brackets
+    .map(bracket => `${bracket.rate.toLocaleString('pt-BR')}%${bracket.upTo !== null ? ` até R$ ${bracket.upTo.toLocaleString('pt-BR')}` : ' acima disso'}`)
+    .join(', ');
 
   const monthNames = ["Janeiro", "Fevereiro", "Março", "Abril", "Maio", "Junho", "Julho", "Agosto", "Setembro", "Outubro", "Novembro", "Dezembro"];
   
@@ -46,6 +71,7 @@ const TaxSection: React.FC<TaxSectionProps> = ({ transactions, onNavigateToTrans
         <div className="text-center md:text-left">
             <h1 className="text-2xl font-bold text-white">Simulador de Imposto de Renda</h1>
             <p className="text-gray-400">Análise de imposto sobre ganhos de capital em criptomoedas (Regras do Brasil).</p>
+            <p className="text-xs text-gray-500 mt-1">Método de custo: {COST_BASIS_METHOD_LABELS[domesticLedger.method]}</p>
         </div>
         <div className="flex items-center gap-2">
             <label htmlFor="year-select" className="font-semibold">Ano Fiscal:</label>
@@ -62,11 +88,29 @@ const TaxSection: React.FC<TaxSectionProps> = ({ transactions, onNavigateToTrans
         </div>
       </div>
 
+      {taxReport && foreignTaxReport && (
+        <div className="bg-gray-800/50 rounded-lg p-4 shadow-xl">
+            <h3 className="text-lg font-bold mb-1">Resumo de {selectedYear} por Regime</h3>
+            <p className="text-xs text-gray-500 mb-4">Contas nacionais são apuradas mês a mês via DARF; contas no exterior, uma vez por ano na declaração de ajuste.</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Card title="Imposto Nacional (Mensal)">
+                    <span className="text-red-400">R$ {taxReport.totalTaxDue.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </Card>
+                <Card title="Imposto no Exterior (Anual)">
+                    <span className="text-red-400">R$ {foreignTaxReport.taxDue.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </Card>
+                <Card title={`Total de Imposto em ${selectedYear}`}>
+                    <span className="text-red-400">R$ {(taxReport.totalTaxDue + foreignTaxReport.taxDue).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </Card>
+            </div>
+        </div>
+      )}
+
       {!taxReport ? (
-         <EmptyState
+         !(foreignTaxReport && foreignTaxReport.totalSales > 0) && <EmptyState
             icon="fa-search-dollar"
             title={`Nenhuma Venda em ${selectedYear}`}
-            message="Não encontramos nenhuma transação de venda para o ano selecionado. A apuração de impostos é relevante apenas quando ocorrem vendas."
+            message="Não encontramos nenhuma venda ou permuta para o ano selecionado. A apuração de impostos é relevante apenas quando ocorrem alienações."
         />
       ) : (
         <>
@@ -83,7 +127,23 @@ const TaxSection: React.FC<TaxSectionProps> = ({ transactions, onNavigateToTrans
             </div>
 
             <div className="bg-gray-800/50 rounded-lg p-4 shadow-xl">
-                <h3 className="text-lg font-bold mb-4">Detalhamento Mensal de {selectedYear}</h3>
+                <h3 className="text-lg font-bold mb-1">Compensação de Prejuízos</h3>
+                <p className="text-xs text-gray-500 mb-4">Prejuízos de meses tributáveis abatem os lucros dos meses tributáveis seguintes, inclusive em anos posteriores.</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <Card title={`Saldo em 1º de Janeiro de ${selectedYear}`}>
+                        <span className="text-gray-300">R$ {taxReport.openingAccumulatedLoss.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                    </Card>
+                    <Card title="Prejuízo Compensado no Ano">
+                        <span className="text-green-400">R$ {taxReport.totalLossCompensated.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                    </Card>
+                    <Card title="Saldo a Compensar">
+                        <span className="text-orange-400">R$ {taxReport.accumulatedLoss.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                    </Card>
+                </div>
+            </div>
+
+            <div className="bg-gray-800/50 rounded-lg p-4 shadow-xl">
+                <h3 className="text-lg font-bold mb-4">Detalhamento Mensal de {selectedYear}{taxLedgers && ' (Contas Nacionais)'}</h3>
                  <div className="overflow-x-auto">
                     <table className="w-full text-sm">
                         <thead className="text-xs text-gray-400 uppercase">
@@ -92,7 +152,10 @@ const TaxSection: React.FC<TaxSectionProps> = ({ transactions, onNavigateToTrans
                                 <th className="p-2 text-right">Total Vendido (BRL)</th>
                                 <th className="p-2 text-right">Lucro/Prejuízo Realizado (BRL)</th>
                                 <th className="p-2 text-center">Status</th>
-                                <th className="p-2 text-right">Imposto Devido (15%)</th>
+                                <th className="p-2 text-right">Prejuízo Compensado</th>
+                                <th className="p-2 text-right">Saldo de Prejuízo</th>
+                                <th className="p-2 text-right">Alíquota</th>
+                                <th className="p-2 text-right">Imposto Devido</th>
                             </tr>
                         </thead>
                         <tbody>
@@ -110,6 +173,15 @@ const TaxSection: React.FC<TaxSectionProps> = ({ transactions, onNavigateToTrans
                                             <span className="px-2 py-1 text-xs font-semibold text-yellow-300 bg-yellow-900/50 rounded-full">Tributável</span>
                                         )}
                                     </td>
+                                    <td className={`p-2 text-right ${report.lossCompensated > 0 ? 'text-green-400' : 'text-gray-400'}`}>
+                                        R$ {report.lossCompensated.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                    </td>
+                                    <td className="p-2 text-right text-gray-300">
+                                        R$ {report.accumulatedLoss.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                    </td>
+                                    <td className="p-2 text-right text-gray-300">
+                                        {report.marginalRate > 0 ? `${report.marginalRate.toLocaleString('pt-BR')}%` : '-'}
+                                    </td>
                                     <td className={`p-2 text-right font-bold ${report.taxDue > 0 ? 'text-red-400' : 'text-gray-400'}`}>
                                         R$ {report.taxDue.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                                     </td>
@@ -119,13 +191,120 @@ const TaxSection: React.FC<TaxSectionProps> = ({ transactions, onNavigateToTrans
                     </table>
                  </div>
             </div>
+            <DarfSection taxReport={taxReport} />
              <div className="text-center text-xs text-gray-500 p-2 bg-gray-900/50 rounded-md">
                 <p><i className="fas fa-info-circle mr-1"></i>
-                    <strong>Aviso Legal:</strong> Este é um simulador e não deve ser considerado como aconselhamento fiscal. As regras podem mudar. Consulte sempre um contador profissional para sua declaração de imposto de renda. O cálculo considera a isenção para vendas totais de criptoativos abaixo de R$ 35.000,00 por mês e uma alíquota de 15% sobre o ganho de capital para valores acima.
+                    <strong>Aviso Legal:</strong> Este é um simulador e não deve ser considerado como aconselhamento fiscal. As regras podem mudar. Consulte sempre um contador profissional para sua declaração de imposto de renda. O cálculo considera a isenção para vendas totais de criptoativos de até R$ {taxRules.exemptionLimit.toLocaleString('pt-BR', { minimumFractionDigits: 2 })} por mês e, acima disso, as alíquotas progressivas de {bracketsDescription} sobre o ganho de capital, após a compensação de prejuízos acumulados em meses tributáveis. Os limites podem ser ajustados nas configurações.
                 </p>
             </div>
         </>
       )}
+
+      {foreignTaxReport && (
+        <div className="bg-gray-800/50 rounded-lg p-4 shadow-xl space-y-4">
+            <div>
+                <h3 className="text-lg font-bold">Contas no Exterior — Apuração Anual de {selectedYear}</h3>
+                <p className="text-xs text-gray-500">
+                    Ganhos em exchanges no exterior (Lei 14.754/2023) são apurados no ano, sem isenção mensal, à alíquota de {foreignTaxReport.rate.toLocaleString('pt-BR')}%.
+                    O imposto é pago com a declaração de ajuste, até {new Date(foreignTaxReport.dueDate + 'T00:00:00').toLocaleDateString('pt-BR')}. Prejuízos do ano abatem ganhos de anos seguintes.
+                    Método de custo: {COST_BASIS_METHOD_LABELS[taxLedgers!.foreign.method]}.
+                </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Card title="Total Vendido no Ano">
+                    <span className="text-indigo-400">R$ {foreignTaxReport.totalSales.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </Card>
+                <Card title="Lucro/Prejuízo Realizado">
+                    <span className={foreignTaxReport.realizedProfit >= 0 ? 'text-green-400' : 'text-red-400'}>R$ {foreignTaxReport.realizedProfit.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </Card>
+                <Card title="Imposto Anual Devido">
+                    <span className="text-red-400">R$ {foreignTaxReport.taxDue.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </Card>
+                <Card title={`Prejuízo em 1º de Janeiro de ${selectedYear}`}>
+                    <span className="text-gray-300">R$ {foreignTaxReport.openingAccumulatedLoss.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </Card>
+                <Card title="Prejuízo Compensado no Ano">
+                    <span className="text-green-400">R$ {foreignTaxReport.lossCompensated.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </Card>
+                <Card title="Saldo a Compensar">
+                    <span className="text-orange-400">R$ {foreignTaxReport.accumulatedLoss.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                </Card>
+            </div>
+        </div>
+      )}
+
+      <SaleSimulatorSection ledger={domesticLedger} taxRules={taxRules} cryptoData={cryptoData} />
+
+      <SellPlannerSection ledger={domesticLedger} taxRules={taxRules} cryptoData={cryptoData} />
+
+      <BensDireitosSection ledger={ledger} year={selectedYear} />
+
+      {incomeReport.totalIncome > 0 && (
+        <div className="bg-gray-800/50 rounded-lg p-4 shadow-xl space-y-4">
+            <div className="flex flex-col md:flex-row justify-between md:items-center gap-2">
+                <h3 className="text-lg font-bold">Rendimentos Recebidos em {selectedYear}</h3>
+                <span className="text-sky-400 text-xl font-semibold">
+                    R$ {incomeReport.totalIncome.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                </span>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="text-xs text-gray-400 uppercase">
+                            <tr>
+                                <th className="p-2 text-left">Mês</th>
+                                {INCOME_TRANSACTION_TYPES.map(type => (
+                                    <th key={type} className="p-2 text-right">{TRANSACTION_TYPE_LABELS[type]}</th>
+                                ))}
+                                <th className="p-2 text-right">Total</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {incomeReport.byMonth.filter(m => m.value > 0).map(m => (
+                                <tr key={m.month} className="border-b border-gray-700/50 hover:bg-gray-700/50">
+                                    <td className="p-2 font-bold">{monthNames[m.month - 1]}</td>
+                                    {INCOME_TRANSACTION_TYPES.map(type => (
+                                        <td key={type} className="p-2 text-right text-gray-300">
+                                            R$ {m.byType[type].toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                        </td>
+                                    ))}
+                                    <td className="p-2 text-right font-semibold text-sky-400">
+                                        R$ {m.value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="text-xs text-gray-400 uppercase">
+                            <tr>
+                                <th className="p-2 text-left">Ativo</th>
+                                <th className="p-2 text-right">Quantidade Recebida</th>
+                                <th className="p-2 text-right">Valor na Data (BRL)</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {incomeReport.byAsset.map(asset => (
+                                <tr key={asset.symbol} className="border-b border-gray-700/50 hover:bg-gray-700/50">
+                                    <td className="p-2 font-bold">{asset.symbol}</td>
+                                    <td className="p-2 text-right">{asset.quantity.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 8 })}</td>
+                                    <td className="p-2 text-right font-semibold text-sky-400">
+                                        R$ {asset.value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+            <p className="text-xs text-gray-500">
+                <i className="fas fa-info-circle mr-1"></i>
+                Staking, airdrops, juros e doações entram no custo de aquisição pelo valor justo informado no recebimento.
+            </p>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,24 +1,93 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import type { Transaction, Toast } from '../../types';
+import type { Account, Transaction, Toast, FeeCurrency, TransactionType } from '../../types';
 import Button from '../ui/Button';
 import AutoCompleteInput from '../ui/AutoCompleteInput';
 import Modal from '../ui/Modal';
+import ImportWizardModal from '../ImportWizardModal';
+import DuplicateReviewModal from '../DuplicateReviewModal';
+import FindDuplicatesModal from '../FindDuplicatesModal';
+import { TRANSACTION_TYPE_LABELS, EDITABLE_TRANSACTION_TYPES, isIncomeType, isTransferType, parseTransactionTypeLabel } from '../../services/transactionTypes';
+import { findImportDuplicates } from '../../services/duplicateService';
+import { EXCHANGE_IMPORTERS, convertExchangeTrades, parseExchangeCsv, type QuoteRates } from '../../services/importers';
 
 // Declaration for the xlsx library loaded from CDN
 declare const XLSX: any;
 
 type CryptoMap = Record<string, string>;
 
+const formatFee = (tx: Transaction): string => {
+  if (!tx.fee) return '-';
+  if (tx.feeCurrency === 'asset') {
+    return `${tx.fee.toLocaleString('pt-BR', { maximumFractionDigits: 8 })} ${tx.asset}`;
+  }
+  return `R$ ${tx.fee.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const typeColorClass = (type: TransactionType): string => {
+  if (type === 'sell') return 'text-red-400';
+  if (type === 'swap') return 'text-amber-400';
+  if (isIncomeType(type)) return 'text-sky-400';
+  if (isTransferType(type)) return 'text-violet-400';
+  return 'text-green-400';
+};
+
+// Income can be received with no market value (e.g. worthless airdrops), trades cannot.
+// Transfers carry the cost basis of the source account, so their unit value is not informed.
+const isValidUnitValue = (type: TransactionType, value: number): boolean =>
+  type === 'transfer' || (!isNaN(value) && (isIncomeType(type) ? value >= 0 : value > 0));
+
+const TransactionTypeOptions: React.FC = () => (
+  <>
+    {EDITABLE_TRANSACTION_TYPES.map(type => (
+      <option key={type} value={type}>{TRANSACTION_TYPE_LABELS[type]}</option>
+    ))}
+  </>
+);
+
+const formatQuantity = (quantity: number): string =>
+  quantity.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 8 });
+
+const parseFee = (fee: string): number | undefined => {
+  if (fee.trim() === '') return undefined;
+  return parseFloat(fee);
+};
+
+const getAccountName = (accounts: Account[], id?: number): string =>
+  accounts.find(acc => acc.id === id)?.name ?? 'Conta removida';
+
+const DestinationAccountSelect: React.FC<{
+  value: string;
+  onChange: (value: string) => void;
+  accounts: Account[];
+  hasError?: boolean;
+  className: string;
+}> = ({ value, onChange, accounts, hasError, className }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    className={`${className} border rounded p-2 w-full text-sm ${hasError ? 'border-red-500 text-red-400' : 'border-gray-600'}`}
+  >
+    <option value="">{accounts.length > 0 ? 'Conta destino' : 'Nenhuma outra conta'}</option>
+    {accounts.map(acc => (
+      <option key={acc.id} value={acc.id}>{acc.name}</option>
+    ))}
+  </select>
+);
+
 interface TransactionsSectionProps {
   transactions: Transaction[];
   onAddTransaction: (transaction: Omit<Transaction, 'id'>) => void;
   onUpdateTransaction: (transaction: Transaction) => void;
   onDeleteTransaction: (id: number) => void;
+  onDeleteTransactions: (ids: number[]) => void;
   cryptoMap: CryptoMap;
   addToast: (message: string, type: Toast['type']) => void;
-  onImport: (transactions: Omit<Transaction, 'id'>[]) => void;
+  onImport: (transactions: Omit<Transaction, 'id'>[], merged?: Transaction[]) => void;
+  loadQuoteRates: (earliestDates: Record<string, string>) => Promise<QuoteRates>;
   accountNames: string;
   isMultiAccountView: boolean;
+  accounts: Account[];
+  activeAccountId: number;
 }
 
 const TransactionRow: React.FC<{
@@ -27,7 +96,9 @@ const TransactionRow: React.FC<{
   onDelete: (id: number) => void;
   cryptoMap: CryptoMap;
   addToast: (message: string, type: Toast['type']) => void;
-}> = ({ transaction, onSave, onDelete, cryptoMap, addToast }) => {
+  accounts: Account[];
+  destinationAccounts: Account[];
+}> = ({ transaction, onSave, onDelete, cryptoMap, addToast, accounts, destinationAccounts }) => {
   const [isEditing, setIsEditing] = useState(false);
 
   const [editForm, setEditForm] = useState({
@@ -36,6 +107,11 @@ const TransactionRow: React.FC<{
     asset: transaction.asset,
     quantity: String(transaction.quantity),
     value: String(transaction.value),
+    fee: transaction.fee ? String(transaction.fee) : '',
+    feeCurrency: transaction.feeCurrency || 'BRL' as FeeCurrency,
+    toAsset: transaction.toAsset || '',
+    toQuantity: transaction.toQuantity ? String(transaction.toQuantity) : '',
+    toAccountId: transaction.toAccountId !== undefined ? String(transaction.toAccountId) : '',
   });
 
   const handleEdit = () => {
@@ -45,6 +121,11 @@ const TransactionRow: React.FC<{
       asset: transaction.asset,
       quantity: String(transaction.quantity),
       value: String(transaction.value),
+      fee: transaction.fee ? String(transaction.fee) : '',
+      feeCurrency: transaction.feeCurrency || 'BRL',
+      toAsset: transaction.toAsset || '',
+      toQuantity: transaction.toQuantity ? String(transaction.toQuantity) : '',
+      toAccountId: transaction.toAccountId !== undefined ? String(transaction.toAccountId) : '',
     });
     setIsEditing(true);
   };
@@ -52,17 +133,39 @@ const TransactionRow: React.FC<{
   const handleSave = () => {
     const quantity = parseFloat(editForm.quantity);
     const value = parseFloat(editForm.value);
+    const fee = parseFee(editForm.fee);
 
-    if (isNaN(quantity) || quantity <= 0 || isNaN(value) || value <= 0) {
+    if (isNaN(quantity) || quantity <= 0 || !isValidUnitValue(editForm.type, value)) {
       addToast("Quantidade e Valor devem ser números positivos.", "error");
       return;
     }
+    if (fee !== undefined && (isNaN(fee) || fee < 0)) {
+      addToast("A taxa deve ser um número maior ou igual a zero.", "error");
+      return;
+    }
+    const isSwap = editForm.type === 'swap';
+    const toQuantity = parseFloat(editForm.toQuantity);
+    if (isSwap && (!editForm.toAsset.trim() || isNaN(toQuantity) || toQuantity <= 0)) {
+      addToast("Informe o ativo e a quantidade recebidos na permuta.", "error");
+      return;
+    }
+    const isTransfer = editForm.type === 'transfer';
+    if (isTransfer && !editForm.toAccountId) {
+      addToast("Selecione a conta de destino da transferência.", "error");
+      return;
+    }
 
     onSave({
       ...transaction,
       ...editForm,
       quantity,
-      value,
+      value: isTransfer ? 0 : value,
+      fee: fee || undefined,
+      feeCurrency: fee ? editForm.feeCurrency : undefined,
+      toAsset: isSwap ? editForm.toAsset.trim() : undefined,
+      toQuantity: isSwap ? toQuantity : undefined,
+      toAccountId: isTransfer ? Number(editForm.toAccountId) : undefined,
+      transferId: isTransfer ? transaction.transferId : undefined,
     });
     setIsEditing(false);
   };
@@ -77,9 +180,8 @@ const TransactionRow: React.FC<{
     return (
       <tr className="bg-gray-700/50">
         <td className="p-2 align-middle">
-          <select value={editForm.type} onChange={(e) => setEditForm({ ...editForm, type: e.target.value as 'buy' | 'sell' })} className="bg-gray-800 border border-gray-600 rounded p-2 w-full text-sm">
-            <option value="buy">Compra</option>
-            <option value="sell">Venda</option>
+          <select value={editForm.type} onChange={(e) => setEditForm({ ...editForm, type: e.target.value as TransactionType })} className="bg-gray-800 border border-gray-600 rounded p-2 w-full text-sm">
+            <TransactionTypeOptions />
           </select>
         </td>
         <td className="p-2 align-middle"><input type="date" value={editForm.date} onChange={(e) => setEditForm({ ...editForm, date: e.target.value })} className="bg-gray-800 border border-gray-600 rounded p-2 w-full text-sm" /></td>
@@ -89,10 +191,45 @@ const TransactionRow: React.FC<{
             onChange={(value) => setEditForm({ ...editForm, asset: value })}
             suggestions={Object.values(cryptoMap)}
           />
+          {editForm.type === 'swap' && (
+            <div className="mt-1">
+              <AutoCompleteInput
+                value={editForm.toAsset}
+                onChange={(value) => setEditForm({ ...editForm, toAsset: value })}
+                suggestions={Object.values(cryptoMap)}
+                placeholder="Recebido"
+              />
+            </div>
+          )}
+        </td>
+        <td className="p-2 align-middle">
+          <input type="number" step="any" value={editForm.quantity} onChange={(e) => setEditForm({ ...editForm, quantity: e.target.value })} className="bg-gray-800 border border-gray-600 rounded p-2 w-full text-sm" />
+          {editForm.type === 'swap' && (
+            <input type="number" step="any" placeholder="Recebido" value={editForm.toQuantity} onChange={(e) => setEditForm({ ...editForm, toQuantity: e.target.value })} className="bg-gray-800 border border-gray-600 rounded p-2 w-full text-sm mt-1" />
+          )}
+        </td>
+        <td className="p-2 align-middle">
+          {editForm.type === 'transfer' ? (
+            <DestinationAccountSelect
+              value={editForm.toAccountId}
+              onChange={(value) => setEditForm({ ...editForm, toAccountId: value })}
+              accounts={destinationAccounts}
+              className="bg-gray-800"
+            />
+          ) : (
+            <input type="number" step="any" value={editForm.value} onChange={(e) => setEditForm({ ...editForm, value: e.target.value })} className="bg-gray-800 border border-gray-600 rounded p-2 w-full text-sm" />
+          )}
+        </td>
+        <td className="p-2 align-middle">
+          <div className="flex gap-1">
+            <input type="number" step="any" placeholder="0" value={editForm.fee} onChange={(e) => setEditForm({ ...editForm, fee: e.target.value })} className="bg-gray-800 border border-gray-600 rounded p-2 w-full text-sm" />
+            <select value={editForm.feeCurrency} onChange={(e) => setEditForm({ ...editForm, feeCurrency: e.target.value as FeeCurrency })} className="bg-gray-800 border border-gray-600 rounded p-1 text-xs">
+              <option value="BRL">BRL</option>
+              <option value="asset">Ativo</option>
+            </select>
+          </div>
         </td>
-        <td className="p-2 align-middle"><input type="number" step="any" value={editForm.quantity} onChange={(e) => setEditForm({ ...editForm, quantity: e.target.value })} className="bg-gray-800 border border-gray-600 rounded p-2 w-full text-sm" /></td>
-        <td className="p-2 align-middle"><input type="number" step="any" value={editForm.value} onChange={(e) => setEditForm({ ...editForm, value: e.target.value })} className="bg-gray-800 border border-gray-600 rounded p-2 w-full text-sm" /></td>
-        <td className="p-2 text-right align-middle">R$ {totalOperation.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+        <td className="p-2 text-right align-middle">{editForm.type === 'transfer' ? '-' : `R$ ${totalOperation.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}</td>
         <td className="p-2 align-middle">
           <div className="flex gap-2">
             <Button onClick={handleSave} variant="primary" icon="fa-save" className="py-1 px-2 text-xs" />
@@ -105,17 +242,35 @@ const TransactionRow: React.FC<{
 
   return (
     <tr className="border-b border-gray-700/50 hover:bg-gray-800/50">
-      <td className={`p-2 font-medium ${transaction.type === 'buy' ? 'text-green-400' : 'text-red-400'}`}>{transaction.type === 'buy' ? 'COMPRA' : 'VENDA'}</td>
+      <td className={`p-2 font-medium ${typeColorClass(transaction.type)}`}>{TRANSACTION_TYPE_LABELS[transaction.type].toUpperCase()}</td>
       <td className="p-2 text-gray-400">{new Date(transaction.date + 'T00:00:00').toLocaleDateString('pt-BR')}</td>
-      <td className="p-2 font-bold">{transaction.asset}</td>
-      <td className="p-2 text-right">{transaction.quantity.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 8 })}</td>
-      <td className="p-2 text-right">R$ {transaction.value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
-      <td className="p-2 text-right">R$ {(transaction.quantity * transaction.value).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+      <td className="p-2 font-bold">
+        {transaction.type === 'swap' ? `${transaction.asset} → ${transaction.toAsset}` : transaction.asset}
+        {transaction.type === 'transfer' && (
+          <span className="block text-xs font-normal text-gray-400">para {getAccountName(accounts, transaction.toAccountId)}</span>
+        )}
+        {transaction.type === 'transfer_in' && (
+          <span className="block text-xs font-normal text-gray-400">de {getAccountName(accounts, transaction.fromAccountId)}</span>
+        )}
+      </td>
+      <td className="p-2 text-right">
+        {formatQuantity(transaction.quantity)}
+        {transaction.type === 'swap' && transaction.toQuantity !== undefined && ` → ${formatQuantity(transaction.toQuantity)}`}
+      </td>
+      <td className="p-2 text-right">{transaction.type === 'transfer' ? '-' : `R$ ${transaction.value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}</td>
+      <td className="p-2 text-right text-gray-400">{formatFee(transaction)}</td>
+      <td className="p-2 text-right">{transaction.type === 'transfer' ? '-' : `R$ ${(transaction.quantity * transaction.value).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}</td>
       <td className="p-2">
-        <div className="flex gap-2">
-          <Button onClick={handleEdit} variant="ghost" icon="fa-pencil-alt" className="py-1 px-2 text-xs" />
-          <Button onClick={() => onDelete(transaction.id)} variant="danger" icon="fa-trash" className="py-1 px-2 text-xs" />
-        </div>
+        {transaction.type === 'transfer_in' ? (
+          <span className="text-xs text-gray-500" title="Edite a transferência na conta de origem.">
+            <i className="fas fa-lock mr-1"></i>Origem
+          </span>
+        ) : (
+          <div className="flex gap-2">
+            <Button onClick={handleEdit} variant="ghost" icon="fa-pencil-alt" className="py-1 px-2 text-xs" />
+            <Button onClick={() => onDelete(transaction.id)} variant="danger" icon="fa-trash" className="py-1 px-2 text-xs" />
+          </div>
+        )}
       </td>
     </tr>
   );
@@ -125,31 +280,50 @@ const NewTransactionRow: React.FC<{
   onAdd: (tx: Omit<Transaction, 'id'>) => void;
   cryptoMap: CryptoMap;
   addToast: (message: string, type: Toast['type']) => void;
-}> = ({ onAdd, cryptoMap, addToast }) => {
+  destinationAccounts: Account[];
+}> = ({ onAdd, cryptoMap, addToast, destinationAccounts }) => {
   const [newTx, setNewTx] = useState({
-    type: 'buy' as 'buy' | 'sell',
+    type: 'buy' as TransactionType,
     date: new Date().toISOString().split('T')[0],
     asset: '',
     quantity: '',
-    value: ''
+    value: '',
+    fee: '',
+    feeCurrency: 'BRL' as FeeCurrency,
+    toAsset: '',
+    toQuantity: '',
+    toAccountId: '',
   });
 
   const [errors, setErrors] = useState({
     asset: false,
     quantity: false,
     value: false,
+    fee: false,
+    toAsset: false,
+    toQuantity: false,
+    toAccountId: false,
   });
 
   const validate = (tx: typeof newTx) => {
     const asset = tx.asset.trim();
     const quantity = parseFloat(tx.quantity);
     const value = parseFloat(tx.value);
-    const isValidAsset = Object.keys(cryptoMap).map(s => s.toUpperCase()).includes(asset.toUpperCase());
+    const fee = parseFee(tx.fee);
+    const knownSymbols = Object.keys(cryptoMap).map(s => s.toUpperCase());
+    const isValidAsset = knownSymbols.includes(asset.toUpperCase());
+    const isSwap = tx.type === 'swap';
+    const toAsset = tx.toAsset.trim();
+    const toQuantity = parseFloat(tx.toQuantity);
 
     const newErrors = {
       asset: !asset || !isValidAsset,
       quantity: isNaN(quantity) || quantity <= 0,
-      value: isNaN(value) || value <= 0,
+      value: !isValidUnitValue(tx.type, value),
+      fee: fee !== undefined && (isNaN(fee) || fee < 0),
+      toAsset: isSwap && (!toAsset || !knownSymbols.includes(toAsset.toUpperCase()) || toAsset.toUpperCase() === asset.toUpperCase()),
+      toQuantity: isSwap && (isNaN(toQuantity) || toQuantity <= 0),
+      toAccountId: tx.type === 'transfer' && !destinationAccounts.some(acc => String(acc.id) === tx.toAccountId),
     };
     setErrors(newErrors);
     return !Object.values(newErrors).some(Boolean);
@@ -157,7 +331,7 @@ const NewTransactionRow: React.FC<{
 
   useEffect(() => {
     validate(newTx);
-  }, [newTx, cryptoMap]);
+  }, [newTx, cryptoMap, destinationAccounts]);
 
   const handleInputChange = (field: keyof typeof newTx, value: string) => {
     setNewTx(prev => ({ ...prev, [field]: value }));
@@ -169,19 +343,28 @@ const NewTransactionRow: React.FC<{
       return;
     }
 
+    const fee = parseFee(newTx.fee);
     onAdd({
       type: newTx.type,
       date: newTx.date,
       asset: newTx.asset.trim(),
       quantity: parseFloat(newTx.quantity),
-      value: parseFloat(newTx.value)
+      value: newTx.type === 'transfer' ? 0 : parseFloat(newTx.value),
+      ...(fee ? { fee, feeCurrency: newTx.feeCurrency } : {}),
+      ...(newTx.type === 'swap' ? { toAsset: newTx.toAsset.trim(), toQuantity: parseFloat(newTx.toQuantity) } : {}),
+      ...(newTx.type === 'transfer' ? { toAccountId: Number(newTx.toAccountId) } : {}),
     });
     setNewTx({
       type: 'buy',
       date: new Date().toISOString().split('T')[0],
       asset: '',
       quantity: '',
-      value: ''
+      value: '',
+      fee: '',
+      feeCurrency: 'BRL',
+      toAsset: '',
+      toQuantity: '',
+      toAccountId: '',
     });
   };
 
@@ -192,8 +375,7 @@ const NewTransactionRow: React.FC<{
     <tr className="bg-gray-800" id="onboarding-new-tx-row">
       <td className="p-2 align-middle">
         <select value={newTx.type} onChange={(e) => handleInputChange('type', e.target.value)} className="bg-gray-900 border border-gray-600 rounded p-2 w-full text-sm">
-          <option value="buy">Compra</option>
-          <option value="sell">Venda</option>
+          <TransactionTypeOptions />
         </select>
       </td>
       <td className="p-2 align-middle"><input type="date" value={newTx.date} onChange={(e) => handleInputChange('date', e.target.value)} className="bg-gray-900 border border-gray-600 rounded p-2 w-full text-sm" /></td>
@@ -204,6 +386,16 @@ const NewTransactionRow: React.FC<{
           suggestions={Object.values(cryptoMap)}
           placeholder="ex: BTC"
         />
+        {newTx.type === 'swap' && (
+          <div className="mt-1">
+            <AutoCompleteInput
+              value={newTx.toAsset}
+              onChange={(value) => handleInputChange('toAsset', value)}
+              suggestions={Object.values(cryptoMap)}
+              placeholder="Recebido, ex: ETH"
+            />
+          </div>
+        )}
       </td>
       <td className="p-2 align-middle">
         <input
@@ -215,19 +407,57 @@ const NewTransactionRow: React.FC<{
           className={`bg-gray-900 border rounded p-2 w-full text-sm focus:outline-none focus:ring-2 ${errors.quantity ? 'border-red-500 text-red-400 focus:ring-red-500' : 'border-gray-600 focus:ring-indigo-500'
             }`}
         />
+        {newTx.type === 'swap' && (
+          <input
+            type="number"
+            step="any"
+            placeholder="Recebido"
+            value={newTx.toQuantity}
+            onChange={(e) => handleInputChange('toQuantity', e.target.value)}
+            className={`bg-gray-900 border rounded p-2 w-full text-sm mt-1 focus:outline-none focus:ring-2 ${errors.toQuantity ? 'border-red-500 text-red-400 focus:ring-red-500' : 'border-gray-600 focus:ring-indigo-500'
+              }`}
+          />
+        )}
       </td>
       <td className="p-2 align-middle">
-        <input
-          type="number"
-          step="any"
-          placeholder="0,00"
-          value={newTx.value}
-          onChange={(e) => handleInputChange('value', e.target.value)}
-          className={`bg-gray-900 border rounded p-2 w-full text-sm focus:outline-none focus:ring-2 ${errors.value ? 'border-red-500 text-red-400 focus:ring-red-500' : 'border-gray-600 focus:ring-indigo-500'
-            }`}
-        />
+        {newTx.type === 'transfer' ? (
+          <DestinationAccountSelect
+            value={newTx.toAccountId}
+            onChange={(value) => handleInputChange('toAccountId', value)}
+            accounts={destinationAccounts}
+            hasError={errors.toAccountId}
+            className="bg-gray-900"
+          />
+        ) : (
+          <input
+            type="number"
+            step="any"
+            placeholder="0,00"
+            value={newTx.value}
+            onChange={(e) => handleInputChange('value', e.target.value)}
+            className={`bg-gray-900 border rounded p-2 w-full text-sm focus:outline-none focus:ring-2 ${errors.value ? 'border-red-500 text-red-400 focus:ring-red-500' : 'border-gray-600 focus:ring-indigo-500'
+              }`}
+          />
+        )}
       </td>
-      <td className="p-2 text-right align-middle">R$ {totalOperation.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+      <td className="p-2 align-middle">
+        <div className="flex gap-1">
+          <input
+            type="number"
+            step="any"
+            placeholder="0"
+            value={newTx.fee}
+            onChange={(e) => handleInputChange('fee', e.target.value)}
+            className={`bg-gray-900 border rounded p-2 w-full text-sm focus:outline-none focus:ring-2 ${errors.fee ? 'border-red-500 text-red-400 focus:ring-red-500' : 'border-gray-600 focus:ring-indigo-500'
+              }`}
+          />
+          <select value={newTx.feeCurrency} onChange={(e) => handleInputChange('feeCurrency', e.target.value)} className="bg-gray-900 border border-gray-600 rounded p-1 text-xs">
+            <option value="BRL">BRL</option>
+            <option value="asset">Ativo</option>
+          </select>
+        </div>
+      </td>
+      <td className="p-2 text-right align-middle">{newTx.type === 'transfer' ? '-' : `R$ ${totalOperation.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}</td>
       <td className="p-2 align-middle">
         <Button onClick={handleAdd} variant="primary" icon="fa-plus" className="w-full justify-center" disabled={!isFormValid}>
           Adicionar
@@ -243,14 +473,23 @@ const TransactionsSection: React.FC<TransactionsSectionProps> = ({
   onAddTransaction,
   onUpdateTransaction,
   onDeleteTransaction,
+  onDeleteTransactions,
   cryptoMap,
   addToast,
   onImport,
+  loadQuoteRates,
   accountNames,
   isMultiAccountView,
+  accounts,
+  activeAccountId,
 }) => {
 
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isWizardOpen, setIsWizardOpen] = useState(false);
+  const [wizardFile, setWizardFile] = useState<File | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ transactions: Omit<Transaction, 'id'>[]; matches: (Transaction | null)[] } | null>(null);
+  const [isFindDuplicatesOpen, setIsFindDuplicatesOpen] = useState(false);
+  const destinationAccounts = useMemo(() => accounts.filter(acc => acc.id !== activeAccountId), [accounts, activeAccountId]);
   const sortedTransactions = useMemo(() => {
     return [...transactions].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
   }, [transactions]);
@@ -263,29 +502,92 @@ const TransactionsSection: React.FC<TransactionsSectionProps> = ({
       return;
     }
 
-    const exportData = transactions.map(tx => ({
-      'Operação': tx.type === 'buy' ? 'Compra' : 'Venda',
+    // Incoming transfers are exported by the source account, which holds the record.
+    const exportData = transactions.filter(tx => tx.type !== 'transfer_in').map(tx => ({
+      'Operação': TRANSACTION_TYPE_LABELS[tx.type],
       'Data': new Date(tx.date + 'T00:00:00'),
       'Ativo': tx.asset,
       'Quantidade': tx.quantity,
       'Valor (BRL)': tx.value,
+      'Taxa': tx.fee ?? 0,
+      'Moeda da Taxa': tx.feeCurrency === 'asset' ? 'Ativo' : 'BRL',
+      'Ativo Recebido': tx.toAsset ?? '',
+      'Quantidade Recebida': tx.toQuantity ?? '',
+      'Conta Destino': tx.type === 'transfer' ? getAccountName(accounts, tx.toAccountId) : '',
     }));
 
     const worksheet = XLSX.utils.json_to_sheet(exportData);
     const workbook = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(workbook, worksheet, 'Transactions');
 
-    worksheet['!cols'] = [{ wch: 10 }, { wch: 12, z: 'dd/mm/yyyy' }, { wch: 10 }, { wch: 15 }, { wch: 15 }];
+    worksheet['!cols'] = [{ wch: 10 }, { wch: 12, z: 'dd/mm/yyyy' }, { wch: 10 }, { wch: 15 }, { wch: 15 }, { wch: 12 }, { wch: 14 }, { wch: 14 }, { wch: 18 }, { wch: 18 }];
 
     const sanitizedName = accountNames.replace(/[^a-z0-9_]/gi, '-').toLowerCase();
     const fileName = `crypto-portfolio_${sanitizedName}_export.xlsx`;
     XLSX.writeFile(workbook, fileName);
   };
 
+  const reportImportResult = (validTransactions: Omit<Transaction, 'id'>[], errors: string[]) => {
+    if (errors.length > 0) {
+      errors.slice(0, 5).forEach(err => addToast(err, 'error'));
+      if (errors.length > 5) {
+        addToast(`E mais ${errors.length - 5} outros erros...`, 'error');
+      }
+    } else if (validTransactions.length === 0) {
+      addToast("Nenhuma transação válida encontrada para importar.", "error");
+    } else {
+      // Overlapping exports would double the holdings, so likely duplicates are reviewed before importing.
+      const matches = findImportDuplicates(validTransactions, transactions);
+      if (matches.some(Boolean)) setPendingImport({ transactions: validTransactions, matches });
+      else onImport(validTransactions);
+    }
+  };
+
+  const openWizard = (file: File | null) => {
+    setWizardFile(file);
+    setIsWizardOpen(true);
+  };
+
+  const importExchangeCsv = async (file: File, text: string) => {
+    const parsed = parseExchangeCsv(text);
+    if (!parsed) {
+      addToast(`Formato de CSV não reconhecido (exchanges suportadas: ${EXCHANGE_IMPORTERS.map(importer => importer.name).join(', ')}). Indique as colunas no assistente.`, "info");
+      openWizard(file);
+      return;
+    }
+    const { importer, result } = parsed;
+    if (result.trades.length === 0 && result.errors.length === 0) {
+      addToast(`O arquivo da ${importer.name} não possui negociações para importar.`, "error");
+      return;
+    }
+    const { transactions: converted, errors } = await convertExchangeTrades(result, loadQuoteRates);
+    if (result.ignored > 0) {
+      addToast(`${result.ignored} linha(s) da ${importer.name} ignoradas (depósitos, saques ou envios, que não alteram o custo).`, "info");
+    }
+    reportImportResult(converted.map(tx => ({
+      ...tx,
+      asset: cryptoMap[tx.asset] || tx.asset,
+      ...(tx.toAsset ? { toAsset: cryptoMap[tx.toAsset] || tx.toAsset } : {}),
+    })), errors);
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    if (file.name.toLowerCase().endsWith('.csv')) {
+      file.text()
+        .then(text => importExchangeCsv(file, text))
+        .catch(error => {
+          console.error("Erro ao importar arquivo:", error);
+          addToast(`Falha ao processar o arquivo. Pode estar corrompido ou em formato não suportado.`, "error");
+        })
+        .finally(() => {
+          if (event.target) event.target.value = '';
+        });
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       const expectedHeaders = {
@@ -294,6 +596,11 @@ const TransactionsSection: React.FC<TransactionsSectionProps> = ({
         asset: 'Ativo',
         quantity: 'Quantidade',
         value: 'Valor (BRL)',
+        fee: 'Taxa',
+        feeCurrency: 'Moeda da Taxa',
+        toAsset: 'Ativo Recebido',
+        toQuantity: 'Quantidade Recebida',
+        toAccount: 'Conta Destino',
       };
 
       try {
@@ -313,7 +620,8 @@ const TransactionsSection: React.FC<TransactionsSectionProps> = ({
 
         const headers = Object.keys(json[0]);
         if (!headers.includes(expectedHeaders.operation) || !headers.includes(expectedHeaders.date) || !headers.includes(expectedHeaders.asset)) {
-          addToast(`A importação falhou. O arquivo possui cabeçalhos de coluna incorretos.`, "error");
+          addToast(`Os cabeçalhos do arquivo não seguem o modelo. Indique as colunas no assistente.`, "info");
+          openWizard(file);
           return;
         }
 
@@ -325,6 +633,11 @@ const TransactionsSection: React.FC<TransactionsSectionProps> = ({
           const asset = row[expectedHeaders.asset];
           const quantity = row[expectedHeaders.quantity];
           const value = row[expectedHeaders.value];
+          const fee = row[expectedHeaders.fee];
+          const feeCurrency = row[expectedHeaders.feeCurrency];
+          const toAsset = row[expectedHeaders.toAsset];
+          const toQuantity = row[expectedHeaders.toQuantity];
+          const toAccount = row[expectedHeaders.toAccount];
 
           let rowIsValid = true;
           let parsedDate: Date | null = null;
@@ -343,9 +656,10 @@ const TransactionsSection: React.FC<TransactionsSectionProps> = ({
             rowIsValid = false;
           }
 
-          const lowerType = String(operation || '').toLowerCase().trim();
-          if (lowerType !== 'compra' && lowerType !== 'venda') {
-            errors.push(`Linha ${rowIndex}: '${expectedHeaders.operation}' inválida ou ausente. Deve ser 'Compra' ou 'Venda'.`);
+          const txType = parseTransactionTypeLabel(String(operation || ''));
+          if (!txType) {
+            const validLabels = EDITABLE_TRANSACTION_TYPES.map(type => `'${TRANSACTION_TYPE_LABELS[type]}'`).join(', ');
+            errors.push(`Linha ${rowIndex}: '${expectedHeaders.operation}' inválida ou ausente. Deve ser um dos valores: ${validLabels}.`);
             rowIsValid = false;
           }
 
@@ -370,34 +684,65 @@ const TransactionsSection: React.FC<TransactionsSectionProps> = ({
           }
 
           const numValue = parseNumericValue(value);
-          if (isNaN(numValue) || numValue <= 0) {
+          if (txType ? !isValidUnitValue(txType, numValue) : isNaN(numValue) || numValue <= 0) {
             errors.push(`Linha ${rowIndex}: '${expectedHeaders.value}' inválida ou ausente. Deve ser um número positivo.`);
             rowIsValid = false;
           }
 
-          if (rowIsValid && parsedDate) {
+          // Fee columns are optional so older exports keep importing.
+          const numFee = fee === undefined || fee === null || fee === '' ? 0 : parseNumericValue(fee);
+          if (isNaN(numFee) || numFee < 0) {
+            errors.push(`Linha ${rowIndex}: '${expectedHeaders.fee}' inválida. Deve ser um número maior ou igual a zero.`);
+            rowIsValid = false;
+          }
+
+          const lowerFeeCurrency = String(feeCurrency || 'BRL').toLowerCase().trim();
+          if (lowerFeeCurrency !== 'brl' && lowerFeeCurrency !== 'ativo') {
+            errors.push(`Linha ${rowIndex}: '${expectedHeaders.feeCurrency}' inválida. Deve ser 'BRL' ou 'Ativo'.`);
+            rowIsValid = false;
+          }
+
+          let numToQuantity = NaN;
+          if (txType === 'swap') {
+            if (!toAsset || typeof toAsset !== 'string' || toAsset.trim() === '') {
+              errors.push(`Linha ${rowIndex}: '${expectedHeaders.toAsset}' é obrigatório para permutas.`);
+              rowIsValid = false;
+            }
+            numToQuantity = parseNumericValue(toQuantity);
+            if (isNaN(numToQuantity) || numToQuantity <= 0) {
+              errors.push(`Linha ${rowIndex}: '${expectedHeaders.toQuantity}' inválida ou ausente. Deve ser um número positivo.`);
+              rowIsValid = false;
+            }
+          }
+
+          let toAccountId: number | undefined;
+          if (txType === 'transfer') {
+            const accountName = String(toAccount ?? '').toLowerCase().trim();
+            toAccountId = destinationAccounts.find(acc => acc.name.toLowerCase().trim() === accountName)?.id;
+            if (toAccountId === undefined) {
+              errors.push(`Linha ${rowIndex}: '${expectedHeaders.toAccount}' inválida ou ausente. Deve ser o nome de outra conta existente.`);
+              rowIsValid = false;
+            }
+          }
+
+          if (rowIsValid && parsedDate && txType) {
             const assetStr = String(asset).toUpperCase().trim();
             const correctedAsset = cryptoMap[assetStr] || assetStr;
+            const toAssetStr = txType === 'swap' ? String(toAsset).toUpperCase().trim() : '';
             validTransactions.push({
-              type: lowerType === 'compra' ? 'buy' : 'sell',
+              type: txType,
               date: parsedDate.toISOString().split('T')[0],
               asset: correctedAsset,
               quantity: numQuantity,
-              value: numValue
+              value: txType === 'transfer' ? 0 : numValue,
+              ...(numFee > 0 ? { fee: numFee, feeCurrency: lowerFeeCurrency === 'ativo' ? 'asset' as FeeCurrency : 'BRL' as FeeCurrency } : {}),
+              ...(txType === 'swap' ? { toAsset: cryptoMap[toAssetStr] || toAssetStr, toQuantity: numToQuantity } : {}),
+              ...(txType === 'transfer' ? { toAccountId } : {}),
             });
           }
         });
 
-        if (errors.length > 0) {
-          errors.slice(0, 5).forEach(err => addToast(err, 'error'));
-          if (errors.length > 5) {
-            addToast(`E mais ${errors.length - 5} outros erros...`, 'error');
-          }
-        } else if (validTransactions.length === 0) {
-          addToast("Nenhuma transação válida encontrada para importar.", "error");
-        } else {
-          onImport(validTransactions);
-        }
+        reportImportResult(validTransactions, errors);
       } catch (error) {
         console.error("Erro ao importar arquivo:", error);
         addToast(`Falha ao processar o arquivo. Pode estar corrompido ou em formato não suportado.`, "error");
@@ -421,16 +766,22 @@ const TransactionsSection: React.FC<TransactionsSectionProps> = ({
     fileInputRef.current?.click();
   };
 
+  const handleOpenWizard = () => {
+    setIsImportModalOpen(false);
+    openWizard(null);
+  };
+
 
   return (
     <>
       <Modal
         isOpen={isImportModalOpen}
         onClose={() => setIsImportModalOpen(false)}
-        title="Importar Transações do Excel"
+        title="Importar Transações"
         footer={
           <>
             <Button variant="secondary" onClick={() => setIsImportModalOpen(false)}>Cancelar</Button>
+            <Button variant="secondary" onClick={handleOpenWizard} icon="fa-columns">Outro Formato</Button>
             <Button variant="primary" onClick={handleSelectFile} icon="fa-file-excel">Selecionar Arquivo</Button>
           </>
         }
@@ -438,28 +789,64 @@ const TransactionsSection: React.FC<TransactionsSectionProps> = ({
         <div className="space-y-4 text-gray-300">
           <p>Prepare sua planilha com as seguintes colunas para uma importação bem-sucedida:</p>
           <ul className="list-disc list-inside space-y-2 bg-gray-900/50 p-3 rounded-md border border-gray-700">
-            <li><code className="bg-gray-700 px-1 rounded-sm text-indigo-300">Operação</code>: Aceita os valores <span className="font-semibold">"Compra"</span> ou <span className="font-semibold">"Venda"</span>.</li>
+            <li><code className="bg-gray-700 px-1 rounded-sm text-indigo-300">Operação</code>: Aceita os valores <span className="font-semibold">"Compra"</span>, <span className="font-semibold">"Venda"</span>, <span className="font-semibold">"Permuta"</span>, <span className="font-semibold">"Transferência"</span> ou rendimentos: <span className="font-semibold">"Staking"</span>, <span className="font-semibold">"Airdrop"</span>, <span className="font-semibold">"Juros"</span> e <span className="font-semibold">"Doação"</span>.</li>
             <li><code className="bg-gray-700 px-1 rounded-sm text-indigo-300">Data</code>: Use o formato de data do Excel ou texto no formato <span className="font-semibold">DD/MM/AAAA</span>.</li>
             <li><code className="bg-gray-700 px-1 rounded-sm text-indigo-300">Ativo</code>: O ticker da criptomoeda (ex: <span className="font-semibold">BTC</span>, <span className="font-semibold">ETH</span>).</li>
             <li><code className="bg-gray-700 px-1 rounded-sm text-indigo-300">Quantidade</code>: Um número positivo para a quantidade negociada.</li>
-            <li><code className="bg-gray-700 px-1 rounded-sm text-indigo-300">Valor (BRL)</code>: O preço unitário em Reais (BRL) da transação.</li>
+            <li><code className="bg-gray-700 px-1 rounded-sm text-indigo-300">Valor (BRL)</code>: O preço unitário em Reais (BRL) da transação. Para rendimentos, informe o valor justo por unidade no recebimento.</li>
+            <li><code className="bg-gray-700 px-1 rounded-sm text-indigo-300">Ativo Recebido</code> e <code className="bg-gray-700 px-1 rounded-sm text-indigo-300">Quantidade Recebida</code> <span className="text-gray-500">(apenas permutas)</span>: O ativo e a quantidade recebidos. Em permutas, <span className="font-semibold">Valor (BRL)</span> é o preço unitário do ativo entregue.</li>
+            <li><code className="bg-gray-700 px-1 rounded-sm text-indigo-300">Conta Destino</code> <span className="text-gray-500">(apenas transferências)</span>: O nome da conta que recebe o ativo. O custo de aquisição é transferido junto e <span className="font-semibold">Valor (BRL)</span> é ignorado.</li>
+            <li><code className="bg-gray-700 px-1 rounded-sm text-indigo-300">Taxa</code> <span className="text-gray-500">(opcional)</span>: A taxa paga na operação. Em transferências, a taxa de rede.</li>
+            <li><code className="bg-gray-700 px-1 rounded-sm text-indigo-300">Moeda da Taxa</code> <span className="text-gray-500">(opcional)</span>: <span className="font-semibold">"BRL"</span> ou <span className="font-semibold">"Ativo"</span>. O padrão é BRL.</li>
           </ul>
           <p className="text-sm text-gray-400">
             <i className="fas fa-info-circle mr-1"></i> A primeira linha da sua planilha deve conter exatamente estes cabeçalhos.
           </p>
+          <p>
+            Também é possível importar o histórico de negociações exportado em CSV pelas exchanges
+            {' '}<span className="font-semibold">{EXCHANGE_IMPORTERS.map(importer => importer.name).join(', ')}</span>.
+            O formato é reconhecido automaticamente, e preços em dólar, euro ou criptoativos são convertidos para BRL pela cotação do dia.
+          </p>
+          <p className="text-sm text-gray-400">
+            <i className="fas fa-columns mr-1"></i> Para planilhas em outro layout, use <span className="font-semibold">Outro Formato</span>: você escolhe a coluna de cada campo e confere as transações antes de importá-las.
+          </p>
         </div>
       </Modal>
+      <ImportWizardModal
+        isOpen={isWizardOpen}
+        onClose={() => setIsWizardOpen(false)}
+        file={wizardFile}
+        cryptoMap={cryptoMap}
+        destinationAccounts={destinationAccounts}
+        existingTransactions={transactions}
+        addToast={addToast}
+        onImport={onImport}
+      />
+      <DuplicateReviewModal
+        isOpen={pendingImport !== null}
+        onClose={() => setPendingImport(null)}
+        transactions={pendingImport?.transactions ?? []}
+        matches={pendingImport?.matches ?? []}
+        onConfirm={onImport}
+      />
+      <FindDuplicatesModal
+        isOpen={isFindDuplicatesOpen}
+        onClose={() => setIsFindDuplicatesOpen(false)}
+        transactions={transactions}
+        onDelete={onDeleteTransactions}
+      />
       <div className="bg-gray-800/50 rounded-lg p-4 shadow-xl border border-indigo-500/30 relative">
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-xl font-bold">Transações</h2>
           <div className="flex gap-2">
-            <Button onClick={handleImportClick} icon="fa-download" variant="secondary" className="py-1.5 px-3 text-xs" disabled={isMultiAccountView}>Importar do Excel</Button>
+            <Button onClick={handleImportClick} icon="fa-download" variant="secondary" className="py-1.5 px-3 text-xs" disabled={isMultiAccountView}>Importar</Button>
+            <Button onClick={() => setIsFindDuplicatesOpen(true)} icon="fa-clone" variant="secondary" className="py-1.5 px-3 text-xs" disabled={isMultiAccountView}>Buscar Duplicatas</Button>
             <Button onClick={handleExport} icon="fa-upload" variant="secondary" className="py-1.5 px-3 text-xs">Exportar para Excel</Button>
             <input
               type="file"
               ref={fileInputRef}
               onChange={handleFileChange}
-              accept=".xlsx, .xls"
+              accept=".xlsx, .xls, .csv"
               className="hidden"
               aria-hidden="true"
             />
@@ -481,15 +868,16 @@ const TransactionsSection: React.FC<TransactionsSectionProps> = ({
                 <th className="p-2 text-left min-w-[150px]">Ativo</th>
                 <th className="p-2 text-right w-32">Quantidade</th>
                 <th className="p-2 text-right w-32">Valor (BRL)</th>
+                <th className="p-2 text-right w-40">Taxa</th>
                 <th className="p-2 text-right w-40">Total da Operação</th>
                 <th className="p-2 text-left w-28">Ações</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-700/50">
-              <NewTransactionRow onAdd={onAddTransaction} cryptoMap={cryptoMap} addToast={addToast} />
+              <NewTransactionRow onAdd={onAddTransaction} cryptoMap={cryptoMap} addToast={addToast} destinationAccounts={destinationAccounts} />
               {sortedTransactions.length === 0 && (
                 <tr>
-                  <td colSpan={7} className="text-center p-8 text-gray-500">
+                  <td colSpan={8} className="text-center p-8 text-gray-500">
                     <div className="flex flex-col items-center">
                       <i className="fas fa-file-invoice-dollar fa-2x mb-2"></i>
                       <p className="font-semibold">Nenhuma transação encontrada.</p>
@@ -506,6 +894,8 @@ const TransactionsSection: React.FC<TransactionsSectionProps> = ({
                   onDelete={onDeleteTransaction}
                   cryptoMap={cryptoMap}
                   addToast={addToast}
+                  accounts={accounts}
+                  destinationAccounts={destinationAccounts}
                 />
               ))}
             </tbody>
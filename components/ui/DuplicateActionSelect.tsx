@@ -0,0 +1,32 @@
+import React from 'react';
+import type { DuplicateAction, Transaction } from '../../types';
+import { DUPLICATE_ACTION_LABELS } from '../../services/duplicateService';
+import { TRANSACTION_TYPE_LABELS } from '../../services/transactionTypes';
+
+interface DuplicateActionSelectProps {
+  match: Transaction; // The stored transaction the imported row repeats
+  value: DuplicateAction;
+  onChange: (action: DuplicateAction) => void;
+}
+
+const formatBRL = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const DuplicateActionSelect: React.FC<DuplicateActionSelectProps> = ({ match, value, onChange }) => (
+  <div className="flex items-center gap-2">
+    <i
+      className="fas fa-clone text-yellow-400"
+      title={`Provável duplicata de: ${TRANSACTION_TYPE_LABELS[match.type]} de ${match.quantity.toLocaleString('pt-BR', { maximumFractionDigits: 8 })} ${match.asset} a ${formatBRL(match.value)} em ${new Date(match.date + 'T00:00:00').toLocaleDateString('pt-BR')}`}
+    ></i>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as DuplicateAction)}
+      className="bg-gray-900 border border-yellow-600/60 rounded p-1 text-xs text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+    >
+      {(Object.keys(DUPLICATE_ACTION_LABELS) as DuplicateAction[]).map(action => (
+        <option key={action} value={action}>{DUPLICATE_ACTION_LABELS[action]}</option>
+      ))}
+    </select>
+  </div>
+);
+
+export default DuplicateActionSelect;
@@ -1,10 +1,14 @@
 import React, { useState, useMemo } from 'react';
-import type { AssetPerformance, ProfitAnalysisData, Transaction, CryptoData } from '../../types';
+import type { AssetPerformance, ProfitAnalysisData, Transaction, CryptoData, TaxRules } from '../../types';
+import type { Ledger } from '../../services/ledgerService';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
 import PortfolioHistoryChart from '../charts/PortfolioHistoryChart';
-import { calculateAssetHistory } from '../../services/calculationService';
+import { calculateAssetHistory, calculateOpenLots } from '../../services/calculationService';
 import TimeRangeSelector from '../ui/TimeRangeSelector';
+import SaleSimulatorSection from '../sections/SaleSimulatorSection';
+import { TRANSACTION_TYPE_LABELS, isIncomeType, isTransferType } from '../../services/transactionTypes';
+import { COST_BASIS_METHOD_LABELS } from '../../services/costBasisService';
 
 type HistoricalPrices = Record<string, Record<string, number> | null>;
 
@@ -14,6 +18,9 @@ interface AssetDetailViewProps {
   transactions: Transaction[];
   cryptoData: CryptoData;
   historicalPrices: HistoricalPrices;
+  ledger: Ledger;
+  taxLedger: Ledger; // Domestic accounts only, which the monthly tax applies to
+  taxRules: TaxRules;
   onBack: () => void;
 }
 
@@ -23,6 +30,9 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({
   transactions,
   cryptoData,
   historicalPrices,
+  ledger,
+  taxLedger,
+  taxRules,
   onBack,
 }) => {
   const [timeRange, setTimeRange] = useState('all');
@@ -33,7 +43,7 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({
 
   const chartData = useMemo(() => {
     if (isOwned) {
-        return calculateAssetHistory(symbol, transactions, historicalPrices as Record<string, Record<string, number>>, cryptoData);
+        return calculateAssetHistory(symbol, ledger, historicalPrices as Record<string, Record<string, number>>, cryptoData);
     }
     
     const priceHistory = historicalPrices[symbol];
@@ -47,7 +57,12 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({
         }))
         .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
-  }, [isOwned, symbol, transactions, historicalPrices, cryptoData]);
+  }, [isOwned, symbol, ledger, historicalPrices, cryptoData]);
+
+  const openLots = useMemo(
+    () => calculateOpenLots(ledger, cryptoData).filter(lot => lot.symbol === symbol),
+    [ledger, cryptoData, symbol]
+  );
 
   const filteredHistoryData = useMemo(() => {
     if (timeRange === 'all' || chartData.length < 2) return chartData;
@@ -124,6 +139,45 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({
         <PortfolioHistoryChart data={filteredHistoryData} />
       </div>
 
+      {isOwned && openLots.length > 0 && (
+        <div className="bg-gray-800/50 rounded-lg p-4 shadow-xl">
+            <div className="flex justify-between items-baseline mb-4">
+                <h3 className="text-lg font-bold">Lotes Abertos de {symbol}</h3>
+                <span className="text-xs text-gray-400">Método: {COST_BASIS_METHOD_LABELS[ledger.method]}</span>
+            </div>
+            <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+                <thead className="text-xs text-gray-400 uppercase">
+                <tr>
+                    <th className="p-2 text-left w-32">Aquisição</th>
+                    <th className="p-2 text-right w-24">Idade</th>
+                    <th className="p-2 text-right w-32">Quantidade</th>
+                    <th className="p-2 text-right w-32">Custo Unitário</th>
+                    <th className="p-2 text-right w-32">Valor Atual</th>
+                    <th className="p-2 text-right w-40">Lucro/Prejuízo Não Realizado</th>
+                </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700/50">
+                {openLots.map((lot, index) => (
+                    <tr key={`${lot.date}-${index}`} className="hover:bg-gray-800/50">
+                    <td className="p-2 text-gray-400">{new Date(lot.date + 'T00:00:00').toLocaleDateString('pt-BR')}</td>
+                    <td className="p-2 text-right">{lot.ageInDays} {lot.ageInDays === 1 ? 'dia' : 'dias'}</td>
+                    <td className="p-2 text-right">{lot.quantity.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 8 })}</td>
+                    <td className="p-2 text-right">R$ {lot.unitCost.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                    <td className="p-2 text-right">R$ {lot.currentValue.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                    <td className={`p-2 text-right ${lot.unrealizedProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        R$ {lot.unrealizedProfit.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </td>
+                    </tr>
+                ))}
+                </tbody>
+            </table>
+            </div>
+        </div>
+      )}
+
+      {isOwned && <SaleSimulatorSection ledger={taxLedger} taxRules={taxRules} cryptoData={cryptoData} asset={symbol} />}
+
       {isOwned && (
         <div className="bg-gray-800/50 rounded-lg p-4 shadow-xl">
             <h3 className="text-lg font-bold mb-4">Histórico de Transações de {symbol}</h3>
@@ -131,7 +185,7 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({
             <table className="w-full text-sm">
                 <thead className="text-xs text-gray-400 uppercase">
                 <tr>
-                    <th className="p-2 text-left w-24">Tipo</th>
+                    <th className="p-2 text-left w-40">Tipo</th>
                     <th className="p-2 text-left w-32">Data</th>
                     <th className="p-2 text-right w-32">Quantidade</th>
                     <th className="p-2 text-right w-32">Valor (BRL)</th>
@@ -139,17 +193,30 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({
                 </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-700/50">
-                {sortedTransactions.map(tx => (
-                    <tr key={tx.id} className="hover:bg-gray-800/50">
-                    <td className={`p-2 font-medium ${tx.type === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
-                        {tx.type === 'buy' ? 'COMPRA' : 'VENDA'}
+                {sortedTransactions.map(tx => {
+                    // For swaps, show the leg that moves this asset: given (tx.asset) or received (tx.toAsset).
+                    const isIncomingSwap = tx.type === 'swap' && tx.toAsset === symbol;
+                    const total = tx.quantity * tx.value;
+                    const quantity = isIncomingSwap ? tx.toQuantity ?? 0 : tx.quantity;
+                    const unitValue = isIncomingSwap ? (quantity > 0 ? total / quantity : 0) : tx.value;
+                    const typeLabel = tx.type === 'swap'
+                        ? `${TRANSACTION_TYPE_LABELS.swap} (${isIncomingSwap ? `de ${tx.asset}` : `para ${tx.toAsset}`})`
+                        : TRANSACTION_TYPE_LABELS[tx.type];
+                    const typeColor = tx.type === 'sell' || (tx.type === 'swap' && !isIncomingSwap)
+                        ? 'text-red-400'
+                        : isIncomeType(tx.type) ? 'text-sky-400' : isTransferType(tx.type) ? 'text-violet-400' : 'text-green-400';
+                    return (
+                    <tr key={`${tx.type}-${tx.id}`} className="hover:bg-gray-800/50">
+                    <td className={`p-2 font-medium ${typeColor}`}>
+                        {typeLabel.toUpperCase()}
                     </td>
                     <td className="p-2 text-gray-400">{new Date(tx.date + 'T00:00:00').toLocaleDateString('pt-BR')}</td>
-                    <td className="p-2 text-right">{tx.quantity.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 8 })}</td>
-                    <td className="p-2 text-right">R$ {tx.value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
-                    <td className="p-2 text-right">R$ {(tx.quantity * tx.value).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+                    <td className="p-2 text-right">{quantity.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 8 })}</td>
+                    <td className="p-2 text-right">{tx.type === 'transfer' ? '-' : `R$ ${unitValue.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}</td>
+                    <td className="p-2 text-right">{tx.type === 'transfer' ? '-' : `R$ ${total.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}</td>
                     </tr>
-                ))}
+                    );
+                })}
                 </tbody>
             </table>
             </div>
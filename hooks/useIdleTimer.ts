@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart', 'wheel'];
+
+/**
+ * Chama `onIdle` depois de `timeoutMs` sem interação do usuário. Com `timeoutMs` nulo, o timer fica desligado.
+ */
+function useIdleTimer(timeoutMs: number | null, onIdle: () => void) {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!timeoutMs) return;
+    let handler = setTimeout(() => onIdleRef.current(), timeoutMs);
+    const reset = () => {
+      clearTimeout(handler);
+      handler = setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, reset, { passive: true }));
+    return () => {
+      clearTimeout(handler);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, reset));
+    };
+  }, [timeoutMs]);
+}
+
+export default useIdleTimer;
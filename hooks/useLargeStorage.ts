@@ -0,0 +1,46 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { getStoredValue, setStoredValue } from '../services/secureStorage';
+import { subscribeToKey } from '../services/storageSync';
+
+/**
+ * Substitui o useLocalStorage para chaves grandes (LARGE_KEYS): o valor fica no IndexedDB, gravado em segundo
+ * plano sem passar por JSON. Exige que `initLargeStorage` tenha rodado antes de o App montar.
+ */
+function useLargeStorage<T>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] {
+  const [storedValue, setStoredState] = useState<T>(() => {
+    try {
+      return getStoredValue<T>(key) ?? initialValue;
+    } catch (error) {
+      console.error(error);
+      return initialValue;
+    }
+  });
+
+  const initialValueRef = useRef(initialValue);
+  const storedValueRef = useRef(storedValue);
+  storedValueRef.current = storedValue;
+
+  // Mantém o valor em dia quando outra aba grava a mesma chave.
+  useEffect(() => subscribeToKey(key, storedValueRef.current, value => {
+    const nextValue = value === undefined ? initialValueRef.current : (value as T);
+    storedValueRef.current = nextValue;
+    setStoredState(nextValue);
+  }), [key]);
+
+  // O próximo valor sai da ref, e não de um updater do setState: o React pode chamar updaters duas vezes, e a
+  // gravação (e o aviso às outras abas) deve acontecer uma vez só. A ref já reflete as chamadas anteriores do mesmo evento.
+  const setValue = useCallback((value: T | ((val: T) => T)) => {
+    try {
+      const valueToStore = value instanceof Function ? value(storedValueRef.current) : value;
+      storedValueRef.current = valueToStore;
+      setStoredValue(key, valueToStore);
+      setStoredState(valueToStore);
+    } catch (error) {
+      console.error(error);
+    }
+  }, [key]);
+
+  return [storedValue, setValue];
+}
+
+export default useLargeStorage;
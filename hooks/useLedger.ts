@@ -0,0 +1,52 @@
+
+import { useMemo, useRef } from 'react';
+import type { CostBasisMethod, Transaction } from '../types';
+import { appendToLedger, buildLedger, type Ledger } from '../services/ledgerService';
+
+// Transfer entries derived from the accounts are rebuilt as new objects on every change, so equal contents count as the same transaction.
+const isSameTransaction = (a: Transaction, b: Transaction): boolean => {
+  if (a === b) return true;
+  const keys = Object.keys(a) as (keyof Transaction)[];
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
+// Returns the transaction added to `previous` to produce `next`, or null if the change is anything else.
+const findSingleAddition = (previous: readonly Transaction[], next: readonly Transaction[]): Transaction | null => {
+  if (next.length !== previous.length + 1) return null;
+  let added: Transaction | null = null;
+  for (let i = 0, j = 0; i < next.length; i++) {
+    if (j < previous.length && isSameTransaction(next[i], previous[j])) {
+      j++;
+    } else if (added) {
+      return null;
+    } else {
+      added = next[i];
+    }
+  }
+  return added;
+};
+
+// Keeps the ledger for the given transactions, replaying only the new transaction when exactly one was added
+// after everything already replayed (or at the end of the list, so same-day ordering is preserved).
+function useLedger(transactions: Transaction[], method: CostBasisMethod): Ledger {
+  const ledgerRef = useRef<Ledger | null>(null);
+
+  return useMemo(() => {
+    const previous = ledgerRef.current;
+    let ledger: Ledger | null = null;
+
+    if (previous && previous.method === method) {
+      const added = findSingleAddition(previous.transactions, transactions);
+      const lastDate = previous.states.length > 0 ? previous.states[previous.states.length - 1].date : '';
+      if (added && (added.date > lastDate || added === transactions[transactions.length - 1])) {
+        ledger = appendToLedger(previous, added, transactions);
+      }
+    }
+
+    ledger = ledger ?? buildLedger(transactions, method);
+    ledgerRef.current = ledger;
+    return ledger;
+  }, [transactions, method]);
+}
+
+export default useLedger;
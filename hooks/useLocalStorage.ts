@@ -1,10 +1,12 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { appStorage } from '../services/secureStorage';
+import { subscribeToKey } from '../services/storageSync';
 
 function useLocalStorage<T>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] {
   const [storedValue, setStoredValue] = useState<T>(() => {
     try {
-      const item = window.localStorage.getItem(key);
+      const item = appStorage.getItem(key);
       return item ? (JSON.parse(item) as T) : initialValue;
     } catch (error) {
       console.error(error);
@@ -12,13 +14,25 @@ function useLocalStorage<T>(key: string, initialValue: T): [T, React.Dispatch<Re
     }
   });
 
+  const initialValueRef = useRef(initialValue);
+  const storedValueRef = useRef(storedValue);
+  storedValueRef.current = storedValue;
+
+  // Mantém o valor em dia quando outra aba grava a mesma chave.
+  useEffect(() => subscribeToKey(key, storedValueRef.current, value => {
+    const nextValue = value === undefined ? initialValueRef.current : (value as T);
+    storedValueRef.current = nextValue;
+    setStoredValue(nextValue);
+  }), [key]);
+
+  // O próximo valor sai da ref, e não de um updater do setState: o React pode chamar updaters duas vezes, e a
+  // gravação (e o aviso às outras abas) deve acontecer uma vez só. A ref já reflete as chamadas anteriores do mesmo evento.
   const setValue = useCallback((value: T | ((val: T) => T)) => {
     try {
-      setStoredValue(prevValue => {
-        const valueToStore = value instanceof Function ? value(prevValue) : value;
-        window.localStorage.setItem(key, JSON.stringify(valueToStore));
-        return valueToStore;
-      });
+      const valueToStore = value instanceof Function ? value(storedValueRef.current) : value;
+      storedValueRef.current = valueToStore;
+      appStorage.setItem(key, JSON.stringify(valueToStore));
+      setStoredValue(valueToStore);
     } catch (error) {
       console.error(error);
     }
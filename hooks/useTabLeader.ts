@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+import { startLeaderElection, subscribeToLeadership } from '../services/tabLeader';
+
+/**
+ * Indica se esta aba é a líder, a única que busca preços e roda as tarefas em segundo plano.
+ */
+function useTabLeader(): boolean {
+  const [isLeader, setIsLeader] = useState(false);
+
+  useEffect(() => {
+    startLeaderElection();
+    return subscribeToLeadership(setIsLeader);
+  }, []);
+
+  return isLeader;
+}
+
+export default useTabLeader;
@@ -3,6 +3,10 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
+import LockScreen from './components/LockScreen';
+import { isEncryptionEnabled } from './services/secureStorage';
+import { initLargeStorage } from './services/largeStorage';
+import { migrateStoredState } from './services/migrations';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,8 +14,22 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+// As migrações rodam depois do desbloqueio, pois precisam ler os dados protegidos, e antes de o App ler o estado.
+const renderApp = () => {
+  migrateStoredState();
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+};
+
+// Os dados grandes são carregados do IndexedDB antes de tudo. Com a criptografia ativa,
+// o App só é montado depois que a senha decifra os dados protegidos.
+initLargeStorage().then(() => {
+  if (isEncryptionEnabled()) {
+    root.render(<LockScreen onUnlock={renderApp} />);
+  } else {
+    renderApp();
+  }
+});
@@ -0,0 +1,35 @@
+import type { AppLockSettings } from '../types';
+import { hashSecret } from './cryptoService';
+
+export const IDLE_TIMEOUT_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Nunca' },
+  { value: 1, label: '1 minuto' },
+  { value: 5, label: '5 minutos' },
+  { value: 15, label: '15 minutos' },
+  { value: 30, label: '30 minutos' },
+  { value: 60, label: '1 hora' },
+];
+
+export const DEFAULT_IDLE_MINUTES = 5;
+
+/**
+ * Tentativas erradas seguidas antes de o desbloqueio ser suspenso temporariamente.
+ */
+export const MAX_PIN_ATTEMPTS = 5;
+
+export const PIN_LOCKOUT_MS = 30000;
+
+export const validatePin = (pin: string): string | null => {
+  if (!/^\d{4,8}$/.test(pin)) return 'O PIN deve ter de 4 a 8 dígitos.';
+  return null;
+};
+
+export const createAppLock = async (pin: string, idleMinutes: number): Promise<AppLockSettings> => {
+  const { hash, salt, iterations } = await hashSecret(pin);
+  return { pinHash: hash, salt, iterations, idleMinutes };
+};
+
+export const verifyPin = async (pin: string, lock: AppLockSettings): Promise<boolean> => {
+  const { hash } = await hashSecret(pin, lock.salt, lock.iterations);
+  return hash === lock.pinHash;
+};
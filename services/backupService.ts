@@ -0,0 +1,324 @@
+import type { Account, BackupFile, BackupSummary, EncryptedBackupFile, EncryptedPayload, RestoreMode, TaxRules, Transaction } from '../types';
+import { TRANSACTION_TYPE_LABELS } from './transactionTypes';
+import { COST_BASIS_METHOD_LABELS } from './costBasisService';
+import { validateTaxRules } from './taxRules';
+import { findImportDuplicates } from './duplicateService';
+import { STORAGE_SCHEMA_VERSION, runStorageMigrations } from './migrations';
+import { decryptWithPassphrase, deriveKey, encryptText, isEncryptedPayload } from './cryptoService';
+import { appStorage, encryptWithVaultKey } from './secureStorage';
+
+/**
+ * Versão atual do formato do backup. Ao mudar o formato, incremente-a e registre em `BACKUP_MIGRATIONS`
+ * como converter a versão anterior. É independente da versão dos dados gravados (`storageVersion`), que
+ * acompanha as migrações do armazenamento.
+ */
+export const BACKUP_SCHEMA_VERSION = 1;
+
+const BACKUP_APP_ID = 'criptofolio';
+
+type Validator = (value: unknown) => string | null;
+
+interface BackupKey {
+  key: string; // Chave no localStorage
+  label: string;
+  validate: Validator;
+  merge: (current: unknown, incoming: unknown) => unknown; // Modo mesclar; `incoming` já foi validado e `current` nunca é nulo
+  secret?: boolean; // Só entra no backup quando o usuário pede
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isBoolean: Validator = value => (typeof value === 'boolean' ? null : 'deve ser verdadeiro ou falso.');
+const isString: Validator = value => (typeof value === 'string' ? null : 'deve ser um texto.');
+
+const isArrayOf = (check: (item: unknown) => boolean, description: string): Validator => value =>
+  Array.isArray(value) && value.every(check) ? null : `deve ser uma lista de ${description}.`;
+
+const keepCurrent = (current: unknown) => current;
+
+const unionBy = <T>(getKey: (item: T) => unknown) => (current: unknown, incoming: unknown): unknown => {
+  if (!Array.isArray(current) || !Array.isArray(incoming)) return current;
+  const keys = new Set((current as T[]).map(getKey));
+  return [...current, ...(incoming as T[]).filter(item => !keys.has(getKey(item)))];
+};
+
+// Fica com o valor atual, a menos que ele esteja vazio.
+const keepCurrentUnlessEmpty = (current: unknown, incoming: unknown): unknown => {
+  const isEmpty = Array.isArray(current) ? current.length === 0 : isObject(current) && Object.keys(current).length === 0;
+  return isEmpty ? incoming : current;
+};
+
+const EDITABLE_TYPES = Object.keys(TRANSACTION_TYPE_LABELS).filter(type => type !== 'transfer_in');
+
+const validateTransaction = (tx: unknown): string | null => {
+  if (!isObject(tx)) return 'transação inválida.';
+  if (typeof tx.id !== 'number') return 'transação sem id numérico.';
+  if (!EDITABLE_TYPES.includes(tx.type as string)) return `transação ${tx.id} com tipo '${tx.type}' desconhecido.`;
+  if (typeof tx.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(tx.date)) return `transação ${tx.id} com data inválida.`;
+  if (typeof tx.asset !== 'string' || tx.asset === '') return `transação ${tx.id} sem ativo.`;
+  if (!Number.isFinite(tx.quantity) || !Number.isFinite(tx.value)) return `transação ${tx.id} com quantidade ou valor inválido.`;
+  return null;
+};
+
+const validateAccounts: Validator = value => {
+  if (!Array.isArray(value)) return 'deve ser uma lista de contas.';
+  for (const account of value) {
+    if (!isObject(account) || typeof account.id !== 'number' || typeof account.name !== 'string') return 'conta sem id ou nome.';
+    if (!Array.isArray(account.transactions)) return `conta "${account.name}" sem lista de transações.`;
+    for (const tx of account.transactions) {
+      const error = validateTransaction(tx);
+      if (error) return `conta "${account.name}": ${error}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Acrescenta as contas do backup às atuais. Contas com o mesmo nome recebem as transações que ainda não têm
+ * (duplicatas prováveis são descartadas); as demais entram como contas novas. Ids de contas e transações são
+ * renumerados para não colidir, e as transferências passam a apontar para os novos ids.
+ */
+export const mergeAccounts = (current: Account[], incoming: Account[]): Account[] => {
+  const byName = new Map(current.map(acc => [acc.name.trim().toLowerCase(), acc]));
+  let nextAccountId = current.reduce((max, acc) => Math.max(max, acc.id), 0) + 1;
+  const accountIdMap = new Map(incoming.map(acc => [acc.id, byName.get(acc.name.trim().toLowerCase())?.id ?? nextAccountId++]));
+
+  const remap = (tx: Transaction): Transaction => ({
+    ...tx,
+    ...(tx.toAccountId !== undefined ? { toAccountId: accountIdMap.get(tx.toAccountId) ?? tx.toAccountId } : {}),
+  });
+
+  const result = current.map(acc => ({ ...acc }));
+  for (const account of incoming) {
+    const targetId = accountIdMap.get(account.id)!;
+    const existing = result.find(acc => acc.id === targetId);
+    const transactions = account.transactions.map(remap);
+    if (!existing) {
+      result.push({ ...account, id: targetId, transactions });
+      continue;
+    }
+    const matches = findImportDuplicates(transactions, existing.transactions);
+    let nextTxId = existing.transactions.reduce((max, tx) => Math.max(max, tx.id), 0) + 1;
+    const added = transactions.filter((_, index) => !matches[index]).map(tx => ({ ...tx, id: nextTxId++ }));
+    existing.transactions = [...existing.transactions, ...added];
+  }
+  return result;
+};
+
+/**
+ * Dados incluídos no backup. Caches que o aplicativo reconstrói sozinho (histórico de preços, mapa de ativos,
+ * alertas da IA) ficam de fora.
+ */
+export const BACKUP_KEYS: BackupKey[] = [
+  {
+    key: 'accounts', label: 'Contas e transações', validate: validateAccounts,
+    merge: (current, incoming) => mergeAccounts(current as Account[], incoming as Account[]),
+  },
+  { key: 'activeAccountIds', label: 'Contas selecionadas', validate: isArrayOf(id => typeof id === 'number', 'ids'), merge: keepCurrent },
+  {
+    key: 'priceAlerts', label: 'Alertas de preço',
+    validate: isArrayOf(alert => isObject(alert) && typeof alert.id === 'string' && typeof alert.asset === 'string', 'alertas'),
+    merge: unionBy<{ id: string }>(alert => alert.id),
+  },
+  { key: 'watchlist', label: 'Lista de observação', validate: isArrayOf(symbol => typeof symbol === 'string', 'ativos'), merge: unionBy<string>(symbol => symbol) },
+  {
+    key: 'targetAllocations', label: 'Alocações-alvo',
+    validate: value => (isObject(value) && Object.values(value).every(Number.isFinite) ? null : 'deve associar ativos a percentuais.'),
+    merge: keepCurrentUnlessEmpty,
+  },
+  {
+    key: 'darfPayments', label: 'Pagamentos de DARF',
+    validate: isArrayOf(payment => isObject(payment) && typeof payment.id === 'string', 'pagamentos'),
+    merge: unionBy<{ id: string }>(payment => payment.id),
+  },
+  {
+    key: 'selicRates', label: 'Tabela Selic personalizada',
+    validate: value => (isObject(value) && Object.values(value).every(Number.isFinite) ? null : 'deve associar meses a taxas.'),
+    merge: (current, incoming) => (isObject(current) && isObject(incoming) ? { ...incoming, ...current } : current),
+  },
+  {
+    key: 'importMappings', label: 'Mapeamentos de importação',
+    validate: isArrayOf(mapping => isObject(mapping) && typeof mapping.name === 'string' && isObject(mapping.columns), 'mapeamentos'),
+    merge: unionBy<{ name: string }>(mapping => mapping.name),
+  },
+  {
+    key: 'chatHistory', label: 'Histórico do chat',
+    validate: isArrayOf(message => isObject(message) && Array.isArray(message.parts), 'mensagens'),
+    merge: keepCurrentUnlessEmpty,
+  },
+  {
+    key: 'costBasisMethod', label: 'Método de custo',
+    validate: value => (Object.keys(COST_BASIS_METHOD_LABELS).includes(value as string) ? null : 'método desconhecido.'),
+    merge: keepCurrent,
+  },
+  {
+    key: 'taxRules', label: 'Regras de imposto',
+    validate: value => (isObject(value) && Array.isArray(value.brackets) ? validateTaxRules(value as unknown as TaxRules) : 'formato inválido.'),
+    merge: keepCurrent,
+  },
+  { key: 'selectedProxy', label: 'Proxy', validate: isString, merge: keepCurrent },
+  { key: 'autoRefreshEnabled', label: 'Atualização automática', validate: isBoolean, merge: keepCurrent },
+  { key: 'areNotificationsEnabled', label: 'Notificações', validate: isBoolean, merge: keepCurrent },
+  { key: 'isPrivacyMode', label: 'Modo privacidade', validate: isBoolean, merge: keepCurrent },
+  { key: 'onboardingCompleted', label: 'Tour concluído', validate: isBoolean, merge: keepCurrent },
+  { key: 'geminiApiKey', label: 'Chave da API Gemini', validate: isString, merge: (current, incoming) => current || incoming, secret: true },
+  { key: 'cmcApiKey', label: 'Chave da API CoinMarketCap', validate: isString, merge: (current, incoming) => current || incoming, secret: true },
+  { key: 'cryptoCompareApiKey', label: 'Chave da API CryptoCompare', validate: isString, merge: (current, incoming) => current || incoming, secret: true },
+];
+
+/**
+ * Conversões de cada versão antiga para a seguinte, aplicadas em sequência até a versão atual.
+ */
+const BACKUP_MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // Versão 0: a lista de contas copiada direto do localStorage, já lida como `{ accounts }`.
+  0: data => data,
+};
+
+type BackupStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+const readStoredValue = (storage: BackupStorage, key: string): unknown => {
+  const item = storage.getItem(key);
+  if (item === null) return undefined;
+  try {
+    return JSON.parse(item);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Monta o backup com os dados gravados no navegador. As chaves de API só entram quando `includeApiKeys` é verdadeiro.
+ */
+export const createBackup = (includeApiKeys: boolean, storage: BackupStorage = appStorage): BackupFile => {
+  const data: Record<string, unknown> = {};
+  for (const { key, secret } of BACKUP_KEYS) {
+    if (secret && !includeApiKeys) continue;
+    const value = readStoredValue(storage, key);
+    if (value !== undefined) data[key] = value;
+  }
+  return { app: BACKUP_APP_ID, schemaVersion: BACKUP_SCHEMA_VERSION, storageVersion: STORAGE_SCHEMA_VERSION, exportedAt: new Date().toISOString(), data };
+};
+
+const validateBackupData = (data: Record<string, unknown>): string[] => BACKUP_KEYS
+  .filter(({ key }) => data[key] !== undefined)
+  .flatMap(({ key, label, validate }) => {
+    const error = validate(data[key]);
+    return error ? [`${label}: ${error}`] : [];
+  });
+
+/**
+ * Lê o arquivo de backup, converte versões antigas do arquivo e dos dados para o formato atual e valida cada dado.
+ * Backups sem `storageVersion` (anteriores a ela) passam por todas as migrações do armazenamento.
+ * Retorna o backup apenas quando não há erros.
+ */
+export const parseBackup = (text: string): { backup: BackupFile | null; summary: BackupSummary | null; errors: string[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { backup: null, summary: null, errors: ['O arquivo não é um JSON válido.'] };
+  }
+
+  let schemaVersion: number;
+  let storageVersion = 0;
+  let exportedAt: string | null = null;
+  let data: Record<string, unknown>;
+  if (Array.isArray(raw)) {
+    schemaVersion = 0;
+    data = { accounts: raw };
+  } else if (isObject(raw) && raw.app === BACKUP_APP_ID && typeof raw.schemaVersion === 'number' && isObject(raw.data)) {
+    schemaVersion = raw.schemaVersion;
+    storageVersion = typeof raw.storageVersion === 'number' ? raw.storageVersion : 0;
+    exportedAt = typeof raw.exportedAt === 'string' ? raw.exportedAt : null;
+    data = raw.data;
+  } else {
+    return { backup: null, summary: null, errors: ['O arquivo não é um backup do CriptoFólio.'] };
+  }
+
+  if (schemaVersion > BACKUP_SCHEMA_VERSION || storageVersion > STORAGE_SCHEMA_VERSION) {
+    const version = schemaVersion > BACKUP_SCHEMA_VERSION ? `formato ${schemaVersion}` : `dados na versão ${storageVersion}`;
+    return { backup: null, summary: null, errors: [`O backup foi criado por uma versão mais nova do aplicativo (${version}). Atualize a página e tente novamente.`] };
+  }
+
+  // As migrações renomeiam chaves e consertam dados antigos (como alertas sem id), então só o resultado é validado.
+  try {
+    for (let version = schemaVersion; version < BACKUP_SCHEMA_VERSION; version++) {
+      data = BACKUP_MIGRATIONS[version](data);
+    }
+    data = runStorageMigrations(data, storageVersion);
+  } catch {
+    // Só dados fora do formato esperado fazem uma migração falhar; a validação do original diz qual.
+    const errors = validateBackupData(data);
+    return { backup: null, summary: null, errors: errors.length > 0 ? errors : ['Os dados do backup estão num formato que não pôde ser convertido.'] };
+  }
+  const errors = validateBackupData(data);
+  if (errors.length > 0) return { backup: null, summary: null, errors };
+
+  const accounts = (data.accounts as Account[] | undefined) ?? [];
+  const summary: BackupSummary = {
+    schemaVersion,
+    exportedAt,
+    accounts: accounts.length,
+    transactions: accounts.reduce((sum, acc) => sum + acc.transactions.length, 0),
+    keys: BACKUP_KEYS.filter(({ key }) => data[key] !== undefined).map(({ label }) => label),
+    includesApiKeys: BACKUP_KEYS.some(({ key, secret }) => secret && data[key] !== undefined),
+  };
+  const backup: BackupFile = {
+    app: BACKUP_APP_ID,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    storageVersion: STORAGE_SCHEMA_VERSION,
+    exportedAt: exportedAt ?? new Date().toISOString(),
+    data,
+  };
+  return { backup, summary, errors: [] };
+};
+
+/**
+ * Grava o backup no navegador. No modo substituir, cada dado do arquivo toma o lugar do atual; no modo mesclar,
+ * contas, alertas e listas são somados e as configurações atuais são mantidas. Dados ausentes do arquivo não
+ * são alterados. O aplicativo precisa ser recarregado para ler os novos valores.
+ */
+export const restoreBackup = (backup: BackupFile, mode: RestoreMode, storage: BackupStorage = appStorage): void => {
+  // Sem efeito no que vem de `parseBackup`, que já entrega os dados na versão atual.
+  const data = runStorageMigrations(backup.data, backup.storageVersion);
+  for (const { key, merge } of BACKUP_KEYS) {
+    const incoming = data[key];
+    if (incoming === undefined) continue;
+    const current = readStoredValue(storage, key);
+    const value = mode === 'merge' && current !== undefined && current !== null ? merge(current, incoming) : incoming;
+    storage.setItem(key, JSON.stringify(value));
+  }
+};
+
+/**
+ * Cifra o backup com a senha informada ou, sem ela, com a senha do app (exige a criptografia ativa).
+ */
+export const encryptBackup = async (backup: BackupFile, passphrase?: string): Promise<EncryptedBackupFile> => {
+  const plaintext = JSON.stringify(backup);
+  const encrypted = passphrase
+    ? await encryptText(plaintext, await deriveKey(passphrase))
+    : await encryptWithVaultKey(plaintext);
+  if (!encrypted) throw new Error('Informe uma senha para cifrar o backup.');
+  return { app: BACKUP_APP_ID, schemaVersion: BACKUP_SCHEMA_VERSION, encrypted };
+};
+
+/**
+ * Retorna o conteúdo cifrado se o arquivo for um backup protegido por senha.
+ */
+export const readEncryptedBackup = (text: string): EncryptedPayload | null => {
+  try {
+    const raw: unknown = JSON.parse(text);
+    return isObject(raw) && raw.app === BACKUP_APP_ID && isEncryptedPayload(raw.encrypted) ? raw.encrypted : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Decifra um backup protegido, devolvendo o texto para `parseBackup`. Retorna null se a senha estiver errada.
+ */
+export const decryptBackup = async (encrypted: EncryptedPayload, passphrase: string): Promise<string | null> => {
+  const result = await decryptWithPassphrase(encrypted, passphrase);
+  return result ? result.plaintext : null;
+};
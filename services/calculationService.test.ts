@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Transaction } from '../types';
+import { buildLedger } from './ledgerService';
+import { calculateTaxReport } from './calculationService';
+
+const transactions: Transaction[] = [
+  { id: 1, type: 'buy', date: '2024-01-10', asset: 'BTC', quantity: 1, value: 200000 },
+  // Fevereiro: vendas acima de R$ 35.000 com prejuízo de R$ 20.000.
+  { id: 2, type: 'sell', date: '2024-02-15', asset: 'BTC', quantity: 0.5, value: 160000 },
+  // Março: prejuízo de R$ 5.000 num mês isento, que não pode ser compensado.
+  { id: 3, type: 'sell', date: '2024-03-15', asset: 'BTC', quantity: 0.05, value: 100000 },
+  // Abril: lucro tributável de R$ 10.000, todo compensado.
+  { id: 4, type: 'sell', date: '2024-04-15', asset: 'BTC', quantity: 0.2, value: 250000 },
+  // Fevereiro de 2025: lucro tributável de R$ 20.000, metade compensada com o saldo do ano anterior.
+  { id: 5, type: 'sell', date: '2025-02-15', asset: 'BTC', quantity: 0.2, value: 300000 },
+];
+const ledger = buildLedger(transactions);
+
+test('o prejuízo de um mês tributável compensa o lucro dos meses seguintes', () => {
+  const report = calculateTaxReport(ledger, 2024);
+  assert.deepEqual(
+    report.monthlyReports.slice(1, 4).map(({ isExempt, lossCompensated, accumulatedLoss, taxDue }) => ({ isExempt, lossCompensated, accumulatedLoss, taxDue })),
+    [
+      { isExempt: false, lossCompensated: 0, accumulatedLoss: 20000, taxDue: 0 },
+      { isExempt: true, lossCompensated: 0, accumulatedLoss: 20000, taxDue: 0 },
+      { isExempt: false, lossCompensated: 10000, accumulatedLoss: 10000, taxDue: 0 },
+    ]
+  );
+  assert.equal(report.totalLossCompensated, 10000);
+  assert.equal(report.accumulatedLoss, 10000);
+  assert.equal(report.totalTaxDue, 0);
+});
+
+test('o saldo de prejuízo passa para o ano seguinte', () => {
+  const report = calculateTaxReport(ledger, 2025);
+  assert.equal(report.openingAccumulatedLoss, 10000);
+  const { lossCompensated, accumulatedLoss, taxDue } = report.monthlyReports[1];
+  assert.deepEqual({ lossCompensated, accumulatedLoss, taxDue }, { lossCompensated: 10000, accumulatedLoss: 0, taxDue: 1500 });
+  assert.equal(report.totalTaxDue, 1500);
+});
@@ -1,99 +1,87 @@
-import type { Transaction, CryptoData, AssetPerformance, ProfitAnalysisData, PortfolioHistoryPoint, AnnualTaxReport, MonthlyTaxReport, RebalanceSuggestion } from '../types';
+import type { Transaction, CryptoData, AssetPerformance, ProfitAnalysisData, PortfolioHistoryPoint, AnnualTaxReport, MonthlyTaxReport, RebalanceSuggestion, IncomeReport, IncomeTransactionType, OpenLot, TaxRules, ForeignTaxReport, SimulatedSale, SaleTaxImpact, HarvestingCandidate, TaxLossHarvestingReport } from '../types';
+import { isIncomeType } from './transactionTypes';
+import { appendToLedger, getFinalPositions, getLedgerStateAt, type Ledger } from './ledgerService';
+import { getLotUnitCost } from './costBasisService';
+import { Decimal, ZERO, minDecimal, toDecimal } from './decimal';
+import { DEFAULT_TAX_RULES, FOREIGN_ANNUAL_TAX_RATE, calculateProgressiveTax } from './taxRules';
+import { getAnnualTaxDueDate } from './darfService';
 
 type HistoricalPrices = Record<string, Record<string, number>>; // { BTC: { '2023-01-01': 16000 } }
 
-export const calculateAssetPerformance = (transactions: Transaction[], cryptoData: CryptoData): AssetPerformance[] => {
-    const assetMap = new Map<string, { totalQuantity: number; totalInvested: number }>();
-
-    transactions.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-        .forEach(tx => {
-            const asset = assetMap.get(tx.asset) || { totalQuantity: 0, totalInvested: 0 };
-            if (tx.type === 'buy') {
-                asset.totalQuantity += tx.quantity;
-                asset.totalInvested += tx.quantity * tx.value;
-            } else { // sell
-                const avgCost = asset.totalQuantity > 0 ? asset.totalInvested / asset.totalQuantity : 0;
-                asset.totalInvested -= tx.quantity * avgCost;
-                asset.totalQuantity -= tx.quantity;
-            }
-            if (asset.totalQuantity < 0.00000001) { // Floating point precision
-                asset.totalQuantity = 0;
-                asset.totalInvested = 0;
-            }
-            assetMap.set(tx.asset, asset);
-        });
-
+export const calculateAssetPerformance = (ledger: Ledger, cryptoData: CryptoData): AssetPerformance[] => {
     const performanceData: AssetPerformance[] = [];
-    for (const [symbol, data] of assetMap.entries()) {
-        if (data.totalQuantity <= 0) continue;
-        const currentPrice = cryptoData[symbol]?.price || 0;
-        const currentValue = data.totalQuantity * currentPrice;
-        const profitLoss = currentValue - data.totalInvested;
-        const variation = data.totalInvested > 0 ? (profitLoss / data.totalInvested) * 100 : 0;
+    for (const [symbol, position] of getFinalPositions(ledger).entries()) {
+        if (position.quantity.lte(0)) continue;
+        const currentValue = position.quantity.times(toDecimal(cryptoData[symbol]?.price));
+        const profitLoss = currentValue.minus(position.cost);
+        const variation = position.cost.gt(0) ? profitLoss.div(position.cost).times(100) : ZERO;
         performanceData.push({
             symbol,
-            totalQuantity: data.totalQuantity,
-            totalInvested: data.totalInvested,
-            currentValue,
-            profitLoss,
-            variation,
+            totalQuantity: position.quantity.toNumber(),
+            totalInvested: position.cost.toNumber(),
+            currentValue: currentValue.toNumber(),
+            profitLoss: profitLoss.toNumber(),
+            variation: variation.toNumber(),
         });
     }
 
     return performanceData;
 };
 
-export const calculateProfitAnalysis = (transactions: Transaction[], cryptoData: CryptoData): ProfitAnalysisData[] => {
-    const profitMap = new Map<string, Omit<ProfitAnalysisData, 'currentPrice' | 'unrealizedProfit' | 'totalProfit' | 'totalVariation'>>();
-
-    transactions.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-        .forEach(tx => {
-            const asset = profitMap.get(tx.asset) || {
-                symbol: tx.asset,
-                totalBought: 0,
-                totalSold: 0,
-                remainingQuantity: 0,
-                averageBuyPrice: 0,
-                realizedProfit: 0,
-            };
-
-            if (tx.type === 'buy') {
-                const newTotalBought = asset.totalBought + tx.quantity;
-                const newAverageBuyPrice = ((asset.averageBuyPrice * asset.totalBought) + (tx.value * tx.quantity)) / newTotalBought;
-                asset.totalBought = newTotalBought;
-                asset.averageBuyPrice = newAverageBuyPrice;
-            } else { // sell
-                asset.totalSold += tx.quantity;
-                asset.realizedProfit += tx.quantity * (tx.value - asset.averageBuyPrice);
-            }
-            asset.remainingQuantity = asset.totalBought - asset.totalSold;
-            // Clamp to 0 to avoid negative quantities (short positions) which are not supported in the history graph
-            if (asset.remainingQuantity < 1e-8) {
-                asset.remainingQuantity = 0;
-            }
-            profitMap.set(tx.asset, asset);
-        });
-
+export const calculateProfitAnalysis = (ledger: Ledger, cryptoData: CryptoData): ProfitAnalysisData[] => {
     const analysisData: ProfitAnalysisData[] = [];
-    for (const [symbol, data] of profitMap.entries()) {
+    for (const [symbol, position] of getFinalPositions(ledger).entries()) {
+        // With an open position the average price is that of the open lots, which is what the cost-basis method
+        // leaves behind; once closed it falls back to the average of everything bought.
+        const averageBuyPrice = position.quantity.gt(0)
+            ? position.cost.div(position.quantity)
+            : position.totalBought.gt(0) ? position.totalCostBought.div(position.totalBought) : ZERO;
         const currentPrice = cryptoData[symbol]?.price || 0;
-        const unrealizedProfit = data.remainingQuantity * (currentPrice - data.averageBuyPrice);
-        const totalProfit = data.realizedProfit + unrealizedProfit;
-        const totalCostBasis = data.totalBought * data.averageBuyPrice;
-        const totalVariation = totalCostBasis > 0 ? (totalProfit / totalCostBasis) * 100 : 0;
+        const unrealizedProfit = position.quantity.times(toDecimal(currentPrice)).minus(position.cost);
+        const totalProfit = position.realizedProfit.plus(unrealizedProfit);
+        const totalVariation = position.totalCostBought.gt(0) ? totalProfit.div(position.totalCostBought).times(100) : ZERO;
 
         analysisData.push({
-            ...data,
+            symbol,
+            totalBought: position.totalBought.toNumber(),
+            totalSold: position.totalSold.toNumber(),
+            remainingQuantity: position.quantity.toNumber(),
+            averageBuyPrice: averageBuyPrice.toNumber(),
             currentPrice,
-            unrealizedProfit,
-            totalProfit,
-            totalVariation,
+            realizedProfit: position.realizedProfit.toNumber(),
+            unrealizedProfit: unrealizedProfit.toNumber(),
+            totalProfit: totalProfit.toNumber(),
+            totalVariation: totalVariation.toNumber(),
         });
     }
 
     return analysisData;
 };
 
+export const calculateOpenLots = (ledger: Ledger, cryptoData: CryptoData): OpenLot[] => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const openLots: OpenLot[] = [];
+    for (const [symbol, position] of getFinalPositions(ledger).entries()) {
+        const currentPrice = toDecimal(cryptoData[symbol]?.price);
+        for (const lot of position.lots) {
+            const ageInDays = Math.max(Math.floor((today.getTime() - new Date(lot.date + 'T00:00:00').getTime()) / 86400000), 0);
+            const currentValue = lot.quantity.times(currentPrice);
+            openLots.push({
+                symbol,
+                date: lot.date,
+                quantity: lot.quantity.toNumber(),
+                unitCost: getLotUnitCost(lot).toNumber(),
+                ageInDays,
+                currentValue: currentValue.toNumber(),
+                unrealizedProfit: currentValue.minus(lot.cost).toNumber(),
+            });
+        }
+    }
+
+    return openLots.sort((a, b) => a.date.localeCompare(b.date));
+};
+
 export const calculateProfitAnalysisMetrics = (analysisData: ProfitAnalysisData[]) => {
     if (analysisData.length === 0) {
         return {
@@ -131,101 +119,63 @@ export const calculateProfitAnalysisMetrics = (analysisData: ProfitAnalysisData[
 };
 
 
-const calculateHistory = (transactions: Transaction[], historicalPrices: HistoricalPrices, cryptoData: CryptoData): PortfolioHistoryPoint[] => {
-    if (transactions.length === 0) {
+// Daily invested and market values read from the ledger timeline, optionally restricted to some assets.
+const calculateHistory = (ledger: Ledger, historicalPrices: HistoricalPrices, cryptoData: CryptoData, symbols?: string[]): PortfolioHistoryPoint[] => {
+    const includes = (symbol: string) => !symbols || symbols.includes(symbol);
+    const firstEvent = ledger.events.find(event => includes(event.tx.asset));
+    if (!firstEvent) {
         return [];
     }
 
-    const sortedTxs = [...transactions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    const transactionsByDate = new Map<string, Transaction[]>();
-    sortedTxs.forEach(tx => {
-        const date = tx.date;
-        if (!transactionsByDate.has(date)) {
-            transactionsByDate.set(date, []);
-        }
-        transactionsByDate.get(date)!.push(tx);
-    });
-
-    const assetPortfolio = new Map<string, { quantity: number; invested: number }>();
     const historyPoints: PortfolioHistoryPoint[] = [];
-
-    const firstDate = new Date(sortedTxs[0].date + 'T00:00:00Z');
+    const firstDate = new Date(firstEvent.tx.date + 'T00:00:00Z');
     const today = new Date();
     today.setUTCHours(0, 0, 0, 0);
+    const todayStr = today.toISOString().split('T')[0];
 
     // Add a starting point of zero before the first transaction
     const dayBeforeFirst = new Date(firstDate);
     dayBeforeFirst.setUTCDate(dayBeforeFirst.getUTCDate() - 1);
     historyPoints.push({ date: dayBeforeFirst.toISOString().split('T')[0], investedValue: 0, marketValue: 0 });
 
-    let currentInvested = 0;
-    const symbolsInTxs = new Set(transactions.map(tx => tx.asset));
-    const isSingleAssetMode = symbolsInTxs.size === 1;
+    const symbolsInLedger = new Set(ledger.events.map(event => event.tx.asset).filter(includes));
+    const isSingleAssetMode = symbolsInLedger.size === 1;
 
     for (let d = firstDate; d <= today; d.setUTCDate(d.getUTCDate() + 1)) {
         const dateStr = d.toISOString().split('T')[0];
+        const positions = getLedgerStateAt(ledger, dateStr)?.positions ?? new Map();
 
-        // Process transactions for the current day
-        if (transactionsByDate.has(dateStr)) {
-            transactionsByDate.get(dateStr)!.forEach(tx => {
-                const asset = assetPortfolio.get(tx.asset) || { quantity: 0, invested: 0 };
-                if (tx.type === 'buy') {
-                    asset.quantity += tx.quantity;
-                    asset.invested += tx.quantity * tx.value;
-                    currentInvested += tx.quantity * tx.value;
-                } else { // sell
-                    const avgCost = asset.quantity > 0 ? asset.invested / asset.quantity : 0;
-                    const costOfSale = tx.quantity * avgCost;
-                    const investedToRemove = costOfSale > asset.invested ? asset.invested : costOfSale;
-
-                    asset.invested -= investedToRemove;
-                    asset.quantity -= tx.quantity;
-                    currentInvested -= investedToRemove;
-                }
-
-                if (asset.quantity < 1e-8) {
-                    asset.quantity = 0;
-                    asset.invested = 0;
-                }
-                assetPortfolio.set(tx.asset, asset);
-            });
-        }
-
-        // Calculate market value for the current day
-        let currentMarketValue = 0;
+        let currentInvested = ZERO;
+        let currentMarketValue = ZERO;
         let priceForPoint: number | undefined = undefined;
-        for (const [symbol, data] of assetPortfolio.entries()) {
-            if (data.quantity > 0) {
-                // Use today's live price for the last point, historical otherwise
-                const isToday = dateStr === today.toISOString().split('T')[0];
-                const price = isToday
-                    ? cryptoData[symbol]?.price
-                    : historicalPrices[symbol]?.[dateStr];
-
-                if (price !== undefined && price !== null && price > 0) {
-                    // Price is available and valid, use it for market value calculation.
-                    currentMarketValue += data.quantity * price;
-                    if (isSingleAssetMode) {
-                        priceForPoint = price;
-                    }
-                } else {
-                    // Price is NOT available.
-                    // If it's TODAY, we must match the Dashboard logic (which assumes 0 if no price).
-                    // Otherwise, for historical data, we use cost basis to avoid ugly gaps in the chart.
-                    if (isToday) {
-                        currentMarketValue += 0;
-                    } else {
-                        currentMarketValue += data.invested;
-                    }
+        for (const [symbol, position] of positions.entries()) {
+            if (!includes(symbol) || position.quantity.lte(0)) continue;
+            currentInvested = currentInvested.plus(position.cost);
+
+            // Use today's live price for the last point, historical otherwise
+            const isToday = dateStr === todayStr;
+            const price = isToday
+                ? cryptoData[symbol]?.price
+                : historicalPrices[symbol]?.[dateStr];
+
+            if (price !== undefined && price !== null && price > 0) {
+                // Price is available and valid, use it for market value calculation.
+                currentMarketValue = currentMarketValue.plus(position.quantity.times(toDecimal(price)));
+                if (isSingleAssetMode) {
+                    priceForPoint = price;
                 }
+            } else if (!isToday) {
+                // Price is NOT available. Today must match the Dashboard logic (which assumes 0 if no price);
+                // for historical data we use cost basis to avoid ugly gaps in the chart.
+                currentMarketValue = currentMarketValue.plus(position.cost);
             }
         }
 
         // Always push a point, as we now have a calculated market value (real or fallback).
         historyPoints.push({
             date: dateStr,
-            investedValue: currentInvested,
-            marketValue: currentMarketValue,
+            investedValue: currentInvested.toNumber(),
+            marketValue: currentMarketValue.toNumber(),
             price: priceForPoint,
         });
     }
@@ -233,89 +183,51 @@ const calculateHistory = (transactions: Transaction[], historicalPrices: Histori
     return historyPoints;
 };
 
-export const calculatePortfolioHistory = (transactions: Transaction[], historicalPrices: HistoricalPrices, cryptoData: CryptoData): PortfolioHistoryPoint[] => {
-    return calculateHistory(transactions, historicalPrices, cryptoData);
+export const calculatePortfolioHistory = (ledger: Ledger, historicalPrices: HistoricalPrices, cryptoData: CryptoData): PortfolioHistoryPoint[] => {
+    return calculateHistory(ledger, historicalPrices, cryptoData);
 };
 
-export const calculateAssetHistory = (assetSymbol: string, transactions: Transaction[], historicalPrices: HistoricalPrices, cryptoData: CryptoData): PortfolioHistoryPoint[] => {
-    const assetTransactions = transactions.filter(tx => tx.asset === assetSymbol);
-    return calculateHistory(assetTransactions, historicalPrices, cryptoData);
+export const calculateAssetHistory = (assetSymbol: string, ledger: Ledger, historicalPrices: HistoricalPrices, cryptoData: CryptoData): PortfolioHistoryPoint[] => {
+    // Swaps are already split in the ledger, so only the leg that moves this asset counts.
+    return calculateHistory(ledger, historicalPrices, cryptoData, [assetSymbol]);
 };
 
 export const calculateAllAssetsHistoricalValues = (
-    transactions: Transaction[],
+    ledger: Ledger,
     historicalPrices: HistoricalPrices,
     cryptoData: CryptoData
 ): Record<string, Record<string, number>> => {
     const result: Record<string, Record<string, number>> = {};
-    if (transactions.length === 0) {
+    if (ledger.events.length === 0) {
         return result;
     }
 
-    const sortedTxs = [...transactions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    const transactionsByDate = new Map<string, Transaction[]>();
-    sortedTxs.forEach(tx => {
-        const date = tx.date;
-        if (!transactionsByDate.has(date)) {
-            transactionsByDate.set(date, []);
-        }
-        transactionsByDate.get(date)!.push(tx);
-    });
-
-    const assetPortfolio = new Map<string, { quantity: number; invested: number }>();
-    const allAssets = Array.from(new Set(transactions.map(tx => tx.asset)));
-    allAssets.forEach(symbol => {
-        result[symbol] = {};
+    ledger.events.forEach(event => {
+        result[event.tx.asset] = {};
     });
 
-    const firstDate = new Date(sortedTxs[0].date + 'T00:00:00Z');
+    const firstDate = new Date(ledger.events[0].tx.date + 'T00:00:00Z');
     const today = new Date();
     today.setUTCHours(0, 0, 0, 0);
+    const todayStr = today.toISOString().split('T')[0];
 
     for (let d = firstDate; d <= today; d.setUTCDate(d.getUTCDate() + 1)) {
         const dateStr = d.toISOString().split('T')[0];
-
-        // Process transactions for the current day
-        if (transactionsByDate.has(dateStr)) {
-            transactionsByDate.get(dateStr)!.forEach(tx => {
-                const asset = assetPortfolio.get(tx.asset) || { quantity: 0, invested: 0 };
-                if (tx.type === 'buy') {
-                    asset.quantity += tx.quantity;
-                    asset.invested += tx.quantity * tx.value;
-                } else { // sell
-                    const avgCost = asset.quantity > 0 ? asset.invested / asset.quantity : 0;
-                    const costOfSale = tx.quantity * avgCost;
-                    const investedToRemove = costOfSale > asset.invested ? asset.invested : costOfSale;
-
-                    asset.invested -= investedToRemove;
-                    asset.quantity -= tx.quantity;
-                }
-
-                if (asset.quantity < 1e-8) {
-                    asset.quantity = 0;
-                    asset.invested = 0;
-                }
-                assetPortfolio.set(tx.asset, asset);
-            });
-        }
+        const positions = getLedgerStateAt(ledger, dateStr)?.positions ?? new Map();
 
         // Calculate market value for each asset on the current day
-        for (const [symbol, data] of assetPortfolio.entries()) {
-            if (data.quantity > 0) {
-                const isToday = dateStr === today.toISOString().split('T')[0];
+        for (const [symbol, position] of positions.entries()) {
+            if (position.quantity.gt(0)) {
+                const isToday = dateStr === todayStr;
                 const price = isToday
                     ? cryptoData[symbol]?.price
                     : historicalPrices[symbol]?.[dateStr];
 
                 if (price !== undefined && price !== null && price > 0) {
-                    result[symbol][dateStr] = data.quantity * price;
+                    result[symbol][dateStr] = position.quantity.times(toDecimal(price)).toNumber();
                 } else {
                     // Fallback logic aligned with Dashboard
-                    if (isToday) {
-                        result[symbol][dateStr] = 0;
-                    } else {
-                        result[symbol][dateStr] = data.invested;
-                    }
+                    result[symbol][dateStr] = isToday ? 0 : position.cost.toNumber();
                 }
             }
         }
@@ -441,80 +353,251 @@ export const calculateMultipleAssetHistoryByCostBasis = (
     return resultData;
 };
 
-export const calculateTaxReport = (transactions: Transaction[], year: number): AnnualTaxReport => {
-    const TAX_EXEMPTION_LIMIT = 35000;
-    const TAX_RATE = 0.15;
-
-    const sortedTxs = [...transactions]
-        .filter(tx => new Date(tx.date).getFullYear() <= year)
-        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+interface MonthlyTaxTotals {
+    totalSales: Decimal;
+    realizedProfit: Decimal;
+}
+
+// Settles one month against the accumulated loss balance. Losses of taxable months accumulate and offset the gains
+// of later taxable months, in the same or following years; exempt months neither add to the balance nor consume it.
+// What remains of the gain is taxed by the progressive brackets.
+const settleTaxMonth = (totals: MonthlyTaxTotals, accumulatedLoss: Decimal, rules: TaxRules) => {
+    const isExempt = totals.totalSales.lte(toDecimal(rules.exemptionLimit));
+    if (isExempt) {
+        return { isExempt, lossCompensated: ZERO, taxDue: ZERO, marginalRate: 0, accumulatedLoss };
+    }
+    if (totals.realizedProfit.lt(0)) {
+        return { isExempt, lossCompensated: ZERO, taxDue: ZERO, marginalRate: 0, accumulatedLoss: accumulatedLoss.minus(totals.realizedProfit) };
+    }
+    const lossCompensated = minDecimal(accumulatedLoss, totals.realizedProfit);
+    const { tax, marginalRate } = calculateProgressiveTax(totals.realizedProfit.minus(lossCompensated), rules.brackets);
+    return {
+        isExempt,
+        lossCompensated,
+        taxDue: tax,
+        marginalRate,
+        accumulatedLoss: accumulatedLoss.minus(lossCompensated),
+    };
+};
 
-    const assetCostBasis = new Map<string, { totalQuantity: number; totalCost: number }>();
-    const monthlyReports: MonthlyTaxReport[] = Array.from({ length: 12 }, (_, i) => ({
-        month: i + 1,
-        year,
-        totalSales: 0,
-        realizedProfit: 0,
-        isExempt: true,
-        taxDue: 0,
-    }));
-
-    for (const tx of sortedTxs) {
-        const basis = assetCostBasis.get(tx.asset) || { totalQuantity: 0, totalCost: 0 };
-        const txYear = new Date(tx.date).getFullYear();
-        const txMonth = new Date(tx.date).getMonth(); // 0-11
-
-        if (tx.type === 'buy') {
-            basis.totalCost += tx.quantity * tx.value;
-            basis.totalQuantity += tx.quantity;
-        } else { // sell
-            const avgCost = basis.totalQuantity > 0 ? basis.totalCost / basis.totalQuantity : 0;
-            const costOfSale = tx.quantity * avgCost;
-
-            if (txYear === year) {
-                const saleValue = tx.quantity * tx.value;
-                const profit = saleValue - costOfSale;
-
-                monthlyReports[txMonth].totalSales += saleValue;
-                monthlyReports[txMonth].realizedProfit += profit;
-            }
+// Sale totals of every period up to the given year, keyed by the first `keyLength` characters of the date
+// ('YYYY-MM' for months, 'YYYY' for years), since losses carry over across years.
+const aggregateSales = (ledger: Ledger, year: number, keyLength: number): Map<string, MonthlyTaxTotals> => {
+    const totalsByPeriod = new Map<string, MonthlyTaxTotals>();
+
+    // Swaps count as a disposal (permuta) of the asset given, valued at the trade's BRL valuation.
+    // Transfers between own accounts are not disposals; the lots travel with the asset.
+    for (const event of ledger.events) {
+        if (event.tx.type !== 'sell' || Number(event.tx.date.slice(0, 4)) > year) continue;
+        const key = event.tx.date.slice(0, keyLength);
+        const totals = totalsByPeriod.get(key) ?? { totalSales: ZERO, realizedProfit: ZERO };
+        // The exemption threshold looks at the gross sale amount; fees only reduce the gain.
+        totalsByPeriod.set(key, {
+            totalSales: totals.totalSales.plus(event.saleValue),
+            realizedProfit: totals.realizedProfit.plus(event.proceeds.minus(event.costOut)),
+        });
+    }
+    return totalsByPeriod;
+};
 
-            basis.totalCost -= costOfSale;
-            basis.totalQuantity -= tx.quantity;
+export const calculateTaxReport = (ledger: Ledger, year: number, rules: TaxRules = DEFAULT_TAX_RULES): AnnualTaxReport => {
+    const monthlyTotals = aggregateSales(ledger, year, 7);
 
-            if (basis.totalQuantity < 1e-8) {
-                basis.totalQuantity = 0;
-                basis.totalCost = 0;
-            }
-        }
-        assetCostBasis.set(tx.asset, basis);
+    let accumulatedLoss = ZERO;
+    for (const key of Array.from(monthlyTotals.keys()).sort()) {
+        if (Number(key.slice(0, 4)) >= year) break;
+        accumulatedLoss = settleTaxMonth(monthlyTotals.get(key)!, accumulatedLoss, rules).accumulatedLoss;
     }
+    const openingAccumulatedLoss = accumulatedLoss;
 
-    let totalTaxDue = 0;
-    let totalTaxableSales = 0;
+    let totalTaxDue = ZERO;
+    let totalTaxableSales = ZERO;
+    let totalLossCompensated = ZERO;
     let taxableMonthsCount = 0;
 
-    for (const report of monthlyReports) {
-        if (report.totalSales > TAX_EXEMPTION_LIMIT) {
-            report.isExempt = false;
-            if (report.realizedProfit > 0) {
-                report.taxDue = report.realizedProfit * TAX_RATE;
-                totalTaxDue += report.taxDue;
-            }
-            totalTaxableSales += report.totalSales;
+    const monthlyReports: MonthlyTaxReport[] = Array.from({ length: 12 }, (_, i) => {
+        const totals = monthlyTotals.get(`${year}-${String(i + 1).padStart(2, '0')}`) ?? { totalSales: ZERO, realizedProfit: ZERO };
+        const settled = settleTaxMonth(totals, accumulatedLoss, rules);
+        accumulatedLoss = settled.accumulatedLoss;
+        if (!settled.isExempt) {
+            totalTaxDue = totalTaxDue.plus(settled.taxDue);
+            totalTaxableSales = totalTaxableSales.plus(totals.totalSales);
+            totalLossCompensated = totalLossCompensated.plus(settled.lossCompensated);
             taxableMonthsCount++;
         }
-    }
+        return {
+            month: i + 1,
+            year,
+            totalSales: totals.totalSales.toNumber(),
+            realizedProfit: totals.realizedProfit.toNumber(),
+            isExempt: settled.isExempt,
+            lossCompensated: settled.lossCompensated.toNumber(),
+            accumulatedLoss: settled.accumulatedLoss.toNumber(),
+            marginalRate: settled.marginalRate,
+            taxDue: settled.taxDue.toNumber(),
+        };
+    });
 
     return {
         year,
-        totalTaxDue,
-        totalTaxableSales,
+        totalTaxDue: totalTaxDue.toNumber(),
+        totalTaxableSales: totalTaxableSales.toNumber(),
         taxableMonthsCount,
+        openingAccumulatedLoss: openingAccumulatedLoss.toNumber(),
+        totalLossCompensated: totalLossCompensated.toNumber(),
+        accumulatedLoss: accumulatedLoss.toNumber(),
         monthlyReports,
     };
 };
 
+// Runs a hypothetical sell through the ledger and the monthly settlement, leaving the stored transactions untouched.
+// Only the sale's month is compared; carried losses may still shift the tax of later months.
+export const simulateSaleTaxImpact = (ledger: Ledger, sale: SimulatedSale, rules: TaxRules = DEFAULT_TAX_RULES): SaleTaxImpact => {
+    const tx: Transaction = {
+        id: Number.MIN_SAFE_INTEGER, // Never collides with stored or derived ids
+        type: 'sell',
+        date: sale.date,
+        asset: sale.asset,
+        quantity: sale.quantity,
+        value: sale.price,
+        fee: sale.fee,
+    };
+    const year = Number(sale.date.slice(0, 4));
+    const month = Number(sale.date.slice(5, 7));
+
+    const simulatedLedger = appendToLedger(ledger, tx);
+    const event = simulatedLedger.events.find(e => e.tx === tx)!;
+    const before = calculateTaxReport(ledger, year, rules).monthlyReports[month - 1];
+    const after = calculateTaxReport(simulatedLedger, year, rules).monthlyReports[month - 1];
+
+    return {
+        availableQuantity: getLedgerStateAt(ledger, sale.date)?.positions.get(sale.asset)?.quantity.toNumber() ?? 0,
+        saleValue: event.saleValue.toNumber(),
+        costBasis: event.costOut.toNumber(),
+        realizedProfit: event.proceeds.minus(event.costOut).toNumber(),
+        before,
+        after,
+        crossesExemption: before.isExempt && !after.isExempt,
+        additionalTax: toDecimal(after.taxDue).minus(toDecimal(before.taxDue)).toNumber(),
+    };
+};
+
+// Losing open positions, each simulated as sold in full at the current price on the given date. A loss only lowers
+// the tax when the month is taxable: in an exempt month it is neither compensated nor carried forward.
+export const calculateTaxLossHarvesting = (
+    ledger: Ledger,
+    cryptoData: CryptoData,
+    rules: TaxRules = DEFAULT_TAX_RULES,
+    date: string = new Date().toISOString().split('T')[0]
+): TaxLossHarvestingReport => {
+    const year = Number(date.slice(0, 4));
+    const month = Number(date.slice(5, 7));
+    const monthReport = calculateTaxReport(ledger, year, rules).monthlyReports[month - 1];
+
+    const candidates: HarvestingCandidate[] = [];
+    for (const [symbol, position] of getFinalPositions(ledger).entries()) {
+        const price = cryptoData[symbol]?.price;
+        if (position.quantity.lte(0) || !price) continue;
+        const currentValue = position.quantity.times(toDecimal(price));
+        if (currentValue.gte(position.cost)) continue;
+
+        const impact = simulateSaleTaxImpact(ledger, { asset: symbol, quantity: position.quantity.toNumber(), price, date }, rules);
+        candidates.push({
+            symbol,
+            quantity: position.quantity.toNumber(),
+            currentValue: currentValue.toNumber(),
+            costBasis: position.cost.toNumber(),
+            loss: -impact.realizedProfit,
+            taxSaved: -impact.additionalTax,
+            impact,
+        });
+    }
+
+    candidates.sort((a, b) => b.taxSaved - a.taxSaved || b.loss - a.loss);
+    return { monthReport, candidates };
+};
+
+// Foreign-regime gains (Lei 14.754/2023) are settled once a year at a flat rate, with no exemption threshold.
+// A net loss for the year carries over to offset the gains of following years.
+export const calculateForeignTaxReport = (ledger: Ledger, year: number, rate: number = FOREIGN_ANNUAL_TAX_RATE): ForeignTaxReport => {
+    const annualTotals = aggregateSales(ledger, year, 4);
+
+    let accumulatedLoss = ZERO;
+    for (let y = Math.min(...Array.from(annualTotals.keys(), Number), year); y < year; y++) {
+        const profit = annualTotals.get(String(y))?.realizedProfit ?? ZERO;
+        accumulatedLoss = profit.lt(0) ? accumulatedLoss.minus(profit) : accumulatedLoss.minus(minDecimal(accumulatedLoss, profit));
+    }
+    const openingAccumulatedLoss = accumulatedLoss;
+
+    const totals = annualTotals.get(String(year)) ?? { totalSales: ZERO, realizedProfit: ZERO };
+    let lossCompensated = ZERO;
+    let taxDue = ZERO;
+    if (totals.realizedProfit.lt(0)) {
+        accumulatedLoss = accumulatedLoss.minus(totals.realizedProfit);
+    } else {
+        lossCompensated = minDecimal(accumulatedLoss, totals.realizedProfit);
+        accumulatedLoss = accumulatedLoss.minus(lossCompensated);
+        taxDue = totals.realizedProfit.minus(lossCompensated).times(toDecimal(rate)).div(100);
+    }
+
+    return {
+        year,
+        totalSales: totals.totalSales.toNumber(),
+        realizedProfit: totals.realizedProfit.toNumber(),
+        openingAccumulatedLoss: openingAccumulatedLoss.toNumber(),
+        lossCompensated: lossCompensated.toNumber(),
+        accumulatedLoss: accumulatedLoss.toNumber(),
+        rate,
+        taxDue: taxDue.toNumber(),
+        dueDate: getAnnualTaxDueDate(year),
+    };
+};
+
+export const calculateIncomeReport = (transactions: Transaction[], year: number): IncomeReport => {
+    const emptyByType = (): Record<IncomeTransactionType, Decimal> => ({ staking: ZERO, airdrop: ZERO, interest: ZERO, gift: ZERO });
+    const byMonth = Array.from({ length: 12 }, (_, i) => ({ month: i + 1, value: ZERO, byType: emptyByType() }));
+    const assetTotals = new Map<string, { quantity: Decimal; value: Decimal }>();
+    let totalIncome = ZERO;
+
+    for (const tx of transactions) {
+        if (!isIncomeType(tx.type)) continue;
+        const txDate = new Date(tx.date + 'T00:00:00');
+        if (txDate.getFullYear() !== year) continue;
+
+        // Income is recognized at the fair value chosen by the user at receipt.
+        const quantity = toDecimal(tx.quantity);
+        const incomeValue = quantity.times(toDecimal(tx.value));
+        const month = byMonth[txDate.getMonth()];
+        month.value = month.value.plus(incomeValue);
+        month.byType[tx.type] = month.byType[tx.type].plus(incomeValue);
+
+        const asset = assetTotals.get(tx.asset) || { quantity: ZERO, value: ZERO };
+        assetTotals.set(tx.asset, { quantity: asset.quantity.plus(quantity), value: asset.value.plus(incomeValue) });
+
+        totalIncome = totalIncome.plus(incomeValue);
+    }
+
+    const byAsset = Array.from(assetTotals.entries())
+        .map(([symbol, data]) => ({ symbol, quantity: data.quantity.toNumber(), value: data.value.toNumber() }))
+        .sort((a, b) => b.value - a.value);
+
+    return {
+        year,
+        totalIncome: totalIncome.toNumber(),
+        byAsset,
+        byMonth: byMonth.map(month => ({
+            month: month.month,
+            value: month.value.toNumber(),
+            byType: {
+                staking: month.byType.staking.toNumber(),
+                airdrop: month.byType.airdrop.toNumber(),
+                interest: month.byType.interest.toNumber(),
+                gift: month.byType.gift.toNumber(),
+            },
+        })),
+    };
+};
+
 export const calculateRebalanceSuggestions = (
     performanceData: AssetPerformance[],
     targetAllocations: Record<string, number>,
@@ -522,19 +605,19 @@ export const calculateRebalanceSuggestions = (
     capitalChange: number = 0,
     anchoredAssets: Record<string, boolean> = {}
 ): RebalanceSuggestion[] => {
+    const HUNDRED = new Decimal(100);
+    const sumValues = (assets: AssetPerformance[]) => assets.reduce((sum, asset) => sum.plus(toDecimal(asset.currentValue)), ZERO);
 
-    const currentTotalPortfolioValue = performanceData.reduce((sum, asset) => sum + asset.currentValue, 0);
+    const currentTotalPortfolioValue = sumValues(performanceData);
+    const allocationOf = (value: Decimal) => currentTotalPortfolioValue.gt(0) ? value.div(currentTotalPortfolioValue).times(HUNDRED) : ZERO;
 
     // 1. Separate anchored assets and calculate their total value
-    const totalAnchoredValue = performanceData
-        .filter(p => anchoredAssets[p.symbol])
-        .reduce((sum, asset) => sum + asset.currentValue, 0);
+    const totalAnchoredValue = sumValues(performanceData.filter(p => anchoredAssets[p.symbol]));
 
     // 2. Define the portion of the portfolio that is available for rebalancing
-    const rebalanceableCurrentValue = currentTotalPortfolioValue - totalAnchoredValue;
-    const rebalanceableTargetValue = currentTotalPortfolioValue + capitalChange - totalAnchoredValue;
+    const rebalanceableTargetValue = currentTotalPortfolioValue.plus(toDecimal(capitalChange)).minus(totalAnchoredValue);
 
-    if (rebalanceableTargetValue <= 0) {
+    if (rebalanceableTargetValue.lte(0)) {
         // If only anchored assets remain or the withdrawal makes the rest negative, only suggest selling non-anchored assets if necessary.
         return performanceData
             .filter(p => !anchoredAssets[p.symbol] && p.currentValue > 0)
@@ -545,14 +628,14 @@ export const calculateRebalanceSuggestions = (
                 quantity: p.totalQuantity,
                 currentValue: p.currentValue,
                 targetValue: 0,
-                currentAllocation: (p.currentValue / currentTotalPortfolioValue) * 100,
+                currentAllocation: allocationOf(toDecimal(p.currentValue)).toNumber(),
                 targetAllocation: 0,
             }));
     }
 
     // 3. Normalize the target percentages for only the rebalanceable assets
     const rebalanceableSymbols = Object.keys(targetAllocations).filter(symbol => !anchoredAssets[symbol]);
-    const totalTargetPercentForRebalance = rebalanceableSymbols.reduce((sum, symbol) => sum + (targetAllocations[symbol] || 0), 0);
+    const totalTargetPercentForRebalance = rebalanceableSymbols.reduce((sum, symbol) => sum.plus(toDecimal(targetAllocations[symbol])), ZERO);
 
     const suggestions: RebalanceSuggestion[] = [];
     const allSymbols = Array.from(new Set([...performanceData.map(p => p.symbol), ...Object.keys(targetAllocations)]));
@@ -564,37 +647,38 @@ export const calculateRebalanceSuggestions = (
         }
 
         const asset = performanceData.find(p => p.symbol === symbol);
-        const currentValue = asset?.currentValue ?? 0;
-        const currentAllocation = currentTotalPortfolioValue > 0 ? (currentValue / currentTotalPortfolioValue) * 100 : 0;
+        const currentValue = toDecimal(asset?.currentValue);
+        const currentAllocation = allocationOf(currentValue);
 
-        let targetValue = 0;
-        let targetAllocation = targetAllocations[symbol] ?? 0;
+        let targetValue = ZERO;
+        const targetAllocation = targetAllocations[symbol] ?? 0;
 
         // 4. Calculate target value based on the rebalanceable part of the portfolio
-        if (totalTargetPercentForRebalance > 0) {
-            const effectiveTargetPercent = (targetAllocations[symbol] || 0) / totalTargetPercentForRebalance;
-            targetValue = rebalanceableTargetValue * effectiveTargetPercent;
+        if (totalTargetPercentForRebalance.gt(0)) {
+            targetValue = rebalanceableTargetValue.times(toDecimal(targetAllocations[symbol])).div(totalTargetPercentForRebalance);
         }
 
-        const differenceBRL = targetValue - currentValue;
-        const currentPrice = asset?.totalQuantity > 0 ? asset.currentValue / asset.totalQuantity : cryptoData[symbol]?.price;
+        const differenceBRL = targetValue.minus(currentValue);
+        const currentPrice = asset && asset.totalQuantity > 0
+            ? currentValue.div(toDecimal(asset.totalQuantity))
+            : toDecimal(cryptoData[symbol]?.price);
 
-        if (!currentPrice && differenceBRL > 0) {
+        if (currentPrice.lte(0) && differenceBRL.gt(0)) {
             console.warn(`Cannot suggest buying ${symbol} without price data.`);
             continue;
         }
 
-        const quantity = currentPrice && currentPrice > 0 ? differenceBRL / currentPrice : 0;
+        const quantity = currentPrice.gt(0) ? differenceBRL.div(currentPrice) : ZERO;
 
-        if (Math.abs(differenceBRL) > 0.01) {
+        if (differenceBRL.abs().gt('0.01')) {
             suggestions.push({
                 symbol,
-                action: differenceBRL > 0 ? 'buy' : 'sell',
-                amountBRL: Math.abs(differenceBRL),
-                quantity: Math.abs(quantity),
-                currentValue,
-                targetValue,
-                currentAllocation,
+                action: differenceBRL.gt(0) ? 'buy' : 'sell',
+                amountBRL: differenceBRL.abs().toNumber(),
+                quantity: quantity.abs().toNumber(),
+                currentValue: currentValue.toNumber(),
+                targetValue: targetValue.toNumber(),
+                currentAllocation: currentAllocation.toNumber(),
                 targetAllocation,
             });
         }
@@ -0,0 +1,122 @@
+import type { Account, CostBasisMethod } from '../types';
+import { Decimal, ZERO, roundAmount, roundQuantity, sumDecimals } from './decimal';
+
+/**
+ * Lote de aquisição em aberto. Transferências mantêm a data e o custo originais dos lotes que movimentam.
+ * O custo é guardado pelo total do lote (taxas incluídas) para que a soma das partes de um lote dividido
+ * seja sempre igual ao lote original.
+ */
+export interface Lot {
+  date: string; // YYYY-MM-DD
+  quantity: Decimal;
+  cost: Decimal; // BRL
+}
+
+export const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  average: 'Custo Médio Ponderado',
+  fifo: 'PEPS (FIFO)',
+  lifo: 'UEPS (LIFO)',
+  hifo: 'Maior Custo Primeiro (HIFO)',
+};
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'average';
+
+export const getLotsQuantity = (lots: readonly Lot[]): Decimal => sumDecimals(lots.map(lot => lot.quantity));
+
+export const getLotsCost = (lots: readonly Lot[]): Decimal => sumDecimals(lots.map(lot => lot.cost));
+
+export const getLotUnitCost = (lot: Lot): Decimal => (lot.quantity.gt(0) ? lot.cost.div(lot.quantity) : ZERO);
+
+/**
+ * Ordem em que os lotes são consumidos numa saída. Lotes com a mesma data mantêm a ordem de entrada.
+ */
+const getConsumptionOrder = (lots: readonly Lot[], method: CostBasisMethod): Lot[] => {
+  const indexed = lots.map((lot, index) => ({ lot, index }));
+  switch (method) {
+    case 'fifo':
+      indexed.sort((a, b) => a.lot.date.localeCompare(b.lot.date) || a.index - b.index);
+      break;
+    case 'lifo':
+      indexed.sort((a, b) => b.lot.date.localeCompare(a.lot.date) || b.index - a.index);
+      break;
+    case 'hifo':
+      indexed.sort((a, b) => getLotUnitCost(b.lot).comparedTo(getLotUnitCost(a.lot)) || a.index - b.index);
+      break;
+  }
+  return indexed.map(({ lot }) => lot);
+};
+
+/**
+ * Divide um lote, retirando a quantidade pedida. O custo da parte retirada é proporcional (ou o informado)
+ * e o restante fica com a diferença, sem perda de centavos.
+ */
+const splitLot = (lot: Lot, quantity: Decimal, cost = lot.quantity.gt(0) ? roundAmount(lot.cost.times(quantity).div(lot.quantity)) : ZERO): { taken: Lot; left: Lot } => ({
+  taken: { ...lot, quantity, cost },
+  left: { ...lot, quantity: lot.quantity.minus(quantity), cost: lot.cost.minus(cost) },
+});
+
+/**
+ * Retira uma quantidade dos lotes abertos segundo o método de custo.
+ * No custo médio, todos os lotes são reduzidos na mesma proporção, o que equivale a baixar a quantidade pelo preço médio;
+ * o último lote absorve o arredondamento das divisões, de modo que a quantidade e o custo retirados são exatamente
+ * os da posição inteira na proporção pedida.
+ * Se a quantidade pedida for maior ou igual à posição, todos os lotes são retirados.
+ */
+export const removeFromLots = (lots: readonly Lot[], quantity: Decimal, method: CostBasisMethod): { remaining: readonly Lot[]; removed: readonly Lot[] } => {
+  const available = getLotsQuantity(lots);
+  if (quantity.lte(0) || available.lte(0)) return { remaining: lots, removed: [] };
+  if (quantity.gte(available)) return { remaining: [], removed: lots };
+
+  if (method === 'average') {
+    const remaining: Lot[] = [];
+    const removed: Lot[] = [];
+    let quantityLeft = quantity;
+    let costLeft = roundAmount(getLotsCost(lots).times(quantity).div(available));
+    lots.forEach((lot, index) => {
+      const isLast = index === lots.length - 1;
+      const takenQuantity = isLast ? quantityLeft : roundQuantity(lot.quantity.times(quantity).div(available));
+      const takenCost = isLast ? costLeft : roundAmount(lot.cost.times(quantity).div(available));
+      const { taken, left } = splitLot(lot, takenQuantity, takenCost);
+      quantityLeft = quantityLeft.minus(takenQuantity);
+      costLeft = costLeft.minus(takenCost);
+      removed.push(taken);
+      remaining.push(left);
+    });
+    return { remaining: remaining.filter(lot => lot.quantity.gt(0)), removed };
+  }
+
+  const removed: Lot[] = [];
+  const leftovers = new Map<Lot, Lot | null>();
+  let toRemove = quantity;
+  for (const lot of getConsumptionOrder(lots, method)) {
+    if (toRemove.lte(0)) break;
+    if (lot.quantity.lte(toRemove)) {
+      removed.push(lot);
+      leftovers.set(lot, null);
+      toRemove = toRemove.minus(lot.quantity);
+    } else {
+      const { taken, left } = splitLot(lot, toRemove);
+      removed.push(taken);
+      leftovers.set(lot, left);
+      toRemove = ZERO;
+    }
+  }
+
+  const remaining = lots
+    .map(lot => (leftovers.has(lot) ? leftovers.get(lot)! : lot))
+    .filter((lot): lot is Lot => lot !== null);
+  return { remaining, removed };
+};
+
+/**
+ * Método efetivo para as contas em exibição: a configuração própria das contas quando todas concordam,
+ * senão o método geral do aplicativo.
+ */
+export const resolveCostBasisMethod = (accounts: Account[], appMethod: CostBasisMethod): CostBasisMethod => {
+  const overrides = new Set(accounts.map(acc => acc.costBasisMethod));
+  if (overrides.size === 1) {
+    const [method] = overrides;
+    return method ?? appMethod;
+  }
+  return appMethod;
+};
@@ -0,0 +1,89 @@
+import type { EncryptedPayload } from '../types';
+
+/**
+ * Iterações do PBKDF2 (SHA-256) na derivação da chave a partir da senha.
+ */
+export const PBKDF2_ITERATIONS = 310000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+/**
+ * Chave AES-GCM derivada da senha, com o sal e as iterações usados, para cifrar vários conteúdos sem derivá-la de novo.
+ */
+export interface DerivedKey {
+  key: CryptoKey;
+  salt: string; // Base64
+  iterations: number;
+}
+
+export const isCryptoAvailable = (): boolean => typeof window !== 'undefined' && !!window.crypto?.subtle;
+
+/**
+ * Deriva a chave da senha. Sem `salt`, gera um novo (ao criar ou trocar a senha).
+ */
+export const deriveKey = async (passphrase: string, salt?: string, iterations: number = PBKDF2_ITERATIONS): Promise<DerivedKey> => {
+  const saltBytes = salt ? fromBase64(salt) : window.crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const material = await window.crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await window.crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: saltBytes, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { key, salt: toBase64(saltBytes), iterations };
+};
+
+/**
+ * Calcula o hash PBKDF2 de um segredo curto (como um PIN), para conferi-lo depois sem guardá-lo.
+ * Sem `salt`, gera um novo.
+ */
+export const hashSecret = async (secret: string, salt?: string, iterations: number = PBKDF2_ITERATIONS): Promise<{ hash: string; salt: string; iterations: number }> => {
+  const saltBytes = salt ? fromBase64(salt) : window.crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const material = await window.crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await window.crypto.subtle.deriveBits({ name: 'PBKDF2', salt: saltBytes, iterations, hash: 'SHA-256' }, material, 256);
+  return { hash: toBase64(new Uint8Array(bits)), salt: toBase64(saltBytes), iterations };
+};
+
+export const encryptText = async (plaintext: string, derived: DerivedKey): Promise<EncryptedPayload> => {
+  const iv = window.crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await window.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, derived.key, new TextEncoder().encode(plaintext));
+  return { salt: derived.salt, iterations: derived.iterations, iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+/**
+ * Decifra o conteúdo. Lança erro se a chave não for a usada na cifragem ou se o conteúdo tiver sido alterado.
+ */
+export const decryptText = async (payload: EncryptedPayload, derived: DerivedKey): Promise<string> => {
+  const plaintext = await window.crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, derived.key, fromBase64(payload.ciphertext));
+  return new TextDecoder().decode(plaintext);
+};
+
+/**
+ * Decifra com a senha, derivando a chave com o sal e as iterações gravados no próprio conteúdo.
+ * Retorna null se a senha estiver errada.
+ */
+export const decryptWithPassphrase = async (payload: EncryptedPayload, passphrase: string): Promise<{ plaintext: string; derived: DerivedKey } | null> => {
+  const derived = await deriveKey(passphrase, payload.salt, payload.iterations);
+  try {
+    return { plaintext: await decryptText(payload, derived), derived };
+  } catch {
+    return null;
+  }
+};
+
+export const isEncryptedPayload = (value: unknown): value is EncryptedPayload => {
+  if (typeof value !== 'object' || value === null) return false;
+  const payload = value as Record<string, unknown>;
+  return typeof payload.salt === 'string' && typeof payload.iv === 'string'
+    && typeof payload.ciphertext === 'string' && typeof payload.iterations === 'number';
+};
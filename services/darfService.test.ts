@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MonthlyTaxReport } from '../types';
+import { calculateDarf, getDarfDueDate } from './darfService';
+import { BUNDLED_SELIC_RATES } from './selicRates';
+
+const report = (year: number, month: number, taxDue: number) => ({ year, month, taxDue }) as MonthlyTaxReport;
+
+test('vence no último dia útil do mês seguinte, pulando fim de semana e feriado', () => {
+  assert.equal(getDarfDueDate(2024, 8), '2024-09-30'); // segunda-feira
+  assert.equal(getDarfDueDate(2023, 8), '2023-09-29'); // 30/09/2023 é sábado
+  assert.equal(getDarfDueDate(2024, 10), '2024-11-29'); // 30/11/2024 é sábado
+  assert.equal(getDarfDueDate(2024, 2), '2024-03-28'); // 29/03/2024 é Sexta-feira da Paixão, seguida do fim de semana
+  assert.equal(getDarfDueDate(2024, 12), '2025-01-31'); // dezembro vence em janeiro do ano seguinte
+});
+
+test('pago até o vencimento não tem multa nem juros', () => {
+  const darf = calculateDarf(report(2024, 8, 1000), '2024-09-30', BUNDLED_SELIC_RATES);
+  assert.deepEqual(
+    { daysLate: darf.daysLate, fine: darf.fine, interest: darf.interest, total: darf.total },
+    { daysLate: 0, fine: 0, interest: 0, total: 1000 }
+  );
+});
+
+test('um dia de atraso cobra 0,33% de multa e 1% de juros no mês do pagamento', () => {
+  const darf = calculateDarf(report(2024, 8, 1000), '2024-10-01', BUNDLED_SELIC_RATES);
+  assert.deepEqual(
+    { daysLate: darf.daysLate, fine: darf.fine, interest: darf.interest, total: darf.total },
+    { daysLate: 1, fine: 3.3, interest: 10, total: 1013.3 }
+  );
+});
+
+test('a multa para em 20% a partir do 61º dia de atraso', () => {
+  // Juros: Selic de outubro/2024 (0,93%) mais 1% no mês do pagamento.
+  const day60 = calculateDarf(report(2024, 8, 1000), '2024-11-29', BUNDLED_SELIC_RATES);
+  assert.deepEqual({ daysLate: day60.daysLate, fine: day60.fine, interest: day60.interest }, { daysLate: 60, fine: 198, interest: 19.3 });
+
+  const day61 = calculateDarf(report(2024, 8, 1000), '2024-11-30', BUNDLED_SELIC_RATES);
+  assert.deepEqual({ daysLate: day61.daysLate, fine: day61.fine }, { daysLate: 61, fine: 200 });
+  const later = calculateDarf(report(2024, 8, 1000), '2025-06-30', BUNDLED_SELIC_RATES);
+  assert.equal(later.fine, 200);
+});
+
+test('os juros somam a Selic dos meses entre o vencimento e o pagamento', () => {
+  // Outubro (0,93%) + novembro (0,79%) + dezembro (0,93%) + 1% em janeiro.
+  const darf = calculateDarf(report(2024, 8, 1000), '2025-01-15', BUNDLED_SELIC_RATES);
+  assert.equal(darf.interest, 36.5);
+  assert.equal(darf.estimatedInterest, false);
+});
+
+test('meses sem Selic na tabela repetem a última taxa conhecida e marcam os juros como estimados', () => {
+  const darf = calculateDarf(report(2024, 8, 1000), '2025-01-15', { '2024-10': 1.2 });
+  // Outubro informado; novembro e dezembro repetem 1,2%; mais 1% em janeiro.
+  assert.equal(darf.interest, 46);
+  assert.equal(darf.estimatedInterest, true);
+});
@@ -0,0 +1,210 @@
+import type { AnnualTaxReport, Darf, DarfPayment, MonthlyTaxReport, SelicRateTable } from '../types';
+import { Decimal, ZERO, minDecimal, toDecimal } from './decimal';
+import { BUNDLED_SELIC_RATES } from './selicRates';
+
+/**
+ * Código de receita do DARF de ganho de capital na alienação de bens e direitos (pessoa física).
+ */
+export const DARF_REVENUE_CODE = '4600';
+
+/**
+ * Valor mínimo de um DARF. Impostos menores devem ser somados aos dos meses seguintes.
+ */
+export const DARF_MINIMUM_AMOUNT = 10;
+
+const LATE_FINE_DAILY_RATE = new Decimal('0.0033');
+const LATE_FINE_CAP = new Decimal('0.2');
+const PAYMENT_MONTH_INTEREST = new Decimal(1); // % no mês do pagamento
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+const utcDate = (year: number, month: number, day: number): Date => new Date(Date.UTC(year, month - 1, day));
+
+/**
+ * Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher), base dos feriados móveis.
+ */
+const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month, day);
+};
+
+/**
+ * Feriados nacionais em que não há expediente bancário, no formato YYYY-MM-DD.
+ */
+const getBankHolidays = (year: number): Set<string> => {
+  const easter = getEasterSunday(year);
+  const fromEaster = (days: number) => toDateString(new Date(easter.getTime() + days * 86400000));
+  const fixed = ['01-01', '04-21', '05-01', '09-07', '10-12', '11-02', '11-15', '12-25'];
+  if (year >= 2024) fixed.push('11-20'); // Dia Nacional de Zumbi e da Consciência Negra (Lei 14.759/2023)
+
+  return new Set([
+    ...fixed.map(day => `${year}-${day}`),
+    fromEaster(-48), // Segunda-feira de Carnaval
+    fromEaster(-47), // Terça-feira de Carnaval
+    fromEaster(-2), // Sexta-feira da Paixão
+    fromEaster(60), // Corpus Christi
+  ]);
+};
+
+export const isBusinessDay = (date: string): boolean => {
+  const day = new Date(date + 'T00:00:00Z').getUTCDay();
+  return day !== 0 && day !== 6 && !getBankHolidays(Number(date.slice(0, 4))).has(date);
+};
+
+const getLastBusinessDay = (year: number, month: number): string => {
+  const date = utcDate(year, month + 1, 0); // Dia 0 do mês seguinte = último dia do mês
+  while (!isBusinessDay(toDateString(date))) {
+    date.setUTCDate(date.getUTCDate() - 1);
+  }
+  return toDateString(date);
+};
+
+/**
+ * Vencimento do DARF: último dia útil do mês seguinte ao da apuração.
+ */
+export const getDarfDueDate = (year: number, month: number): string =>
+  month === 12 ? getLastBusinessDay(year + 1, 1) : getLastBusinessDay(year, month + 1);
+
+/**
+ * Vencimento do imposto apurado na declaração anual (aplicações no exterior): último dia útil de maio do ano seguinte.
+ */
+export const getAnnualTaxDueDate = (year: number): string => getLastBusinessDay(year + 1, 5);
+
+const getDaysBetween = (from: string, to: string): number =>
+  Math.round((new Date(to + 'T00:00:00Z').getTime() - new Date(from + 'T00:00:00Z').getTime()) / 86400000);
+
+const nextMonthKey = (key: string): string => {
+  const year = Number(key.slice(0, 4));
+  const month = Number(key.slice(5, 7));
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Tabela Selic em uso: a embutida no aplicativo, completada e corrigida pelas taxas informadas pelo usuário.
+ */
+export const getSelicRates = (customRates: SelicRateTable): SelicRateTable => ({ ...BUNDLED_SELIC_RATES, ...customRates });
+
+/**
+ * Juros de mora (Lei 9.430/96, art. 61): Selic acumulada do mês seguinte ao vencimento até o mês anterior ao
+ * pagamento, mais 1% no mês do pagamento. Pagamentos no próprio mês do vencimento não têm juros.
+ * Meses sem taxa na tabela usam a última taxa conhecida, e o resultado é marcado como estimado.
+ */
+const getInterestRate = (dueDate: string, paymentDate: string, selicRates: SelicRateTable): { rate: Decimal; estimated: boolean } => {
+  const dueMonth = dueDate.slice(0, 7);
+  const paymentMonth = paymentDate.slice(0, 7);
+  if (paymentMonth <= dueMonth) return { rate: ZERO, estimated: false };
+
+  const knownMonths = Object.keys(selicRates).sort();
+  const lastKnownRate = knownMonths.length > 0 ? selicRates[knownMonths[knownMonths.length - 1]] : 0;
+  let rate = ZERO;
+  let estimated = false;
+  for (let key = nextMonthKey(dueMonth); key < paymentMonth; key = nextMonthKey(key)) {
+    const monthRate = selicRates[key];
+    if (monthRate === undefined) estimated = true;
+    rate = rate.plus(toDecimal(monthRate ?? lastKnownRate));
+  }
+  return { rate: rate.plus(PAYMENT_MONTH_INTEREST), estimated };
+};
+
+const roundToCents = (value: Decimal): Decimal => value.toDecimalPlaces(2, Decimal.ROUND_HALF_UP);
+
+/**
+ * Monta o DARF de um mês tributável como se fosse pago na data informada, com multa de mora de 0,33% ao dia
+ * (limitada a 20%) e juros Selic quando o pagamento é feito após o vencimento.
+ */
+export const calculateDarf = (report: MonthlyTaxReport, paymentDate: string, selicRates: SelicRateTable): Darf => {
+  const dueDate = getDarfDueDate(report.year, report.month);
+  const principal = roundToCents(toDecimal(report.taxDue));
+  const daysLate = Math.max(getDaysBetween(dueDate, paymentDate), 0);
+
+  let fine = ZERO;
+  let interest = ZERO;
+  let estimatedInterest = false;
+  if (daysLate > 0) {
+    fine = roundToCents(principal.times(minDecimal(LATE_FINE_DAILY_RATE.times(daysLate), LATE_FINE_CAP)));
+    const { rate, estimated } = getInterestRate(dueDate, paymentDate, selicRates);
+    interest = roundToCents(principal.times(rate).div(100));
+    estimatedInterest = estimated;
+  }
+
+  return {
+    year: report.year,
+    month: report.month,
+    revenueCode: DARF_REVENUE_CODE,
+    dueDate,
+    principal: principal.toNumber(),
+    daysLate,
+    fine: fine.toNumber(),
+    interest: interest.toNumber(),
+    total: principal.plus(fine).plus(interest).toNumber(),
+    estimatedInterest,
+    belowMinimum: principal.lt(DARF_MINIMUM_AMOUNT),
+  };
+};
+
+/**
+ * DARFs de todos os meses do ano com imposto a pagar.
+ */
+export const generateDarfs = (report: AnnualTaxReport, paymentDate: string, selicRates: SelicRateTable): Darf[] =>
+  report.monthlyReports
+    .filter(monthly => monthly.taxDue > 0)
+    .map(monthly => calculateDarf(monthly, paymentDate, selicRates));
+
+export const createDarfPayment = (darf: Darf, paidAt: string): DarfPayment => ({
+  id: `${darf.year}-${darf.month}-${Date.now()}`,
+  year: darf.year,
+  month: darf.month,
+  revenueCode: darf.revenueCode,
+  dueDate: darf.dueDate,
+  paidAt,
+  principal: darf.principal,
+  fine: darf.fine,
+  interest: darf.interest,
+  total: darf.total,
+});
+
+export const findDarfPayment = (payments: DarfPayment[], year: number, month: number): DarfPayment | undefined =>
+  payments.find(payment => payment.year === year && payment.month === month);
+
+/**
+ * Converte a tabela Selic em texto editável, uma linha "MM/AAAA; taxa" por mês.
+ */
+export const formatSelicTable = (rates: SelicRateTable): string =>
+  Object.keys(rates)
+    .sort()
+    .map(key => `${key.slice(5, 7)}/${key.slice(0, 4)}; ${rates[key].toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`)
+    .join('\n');
+
+/**
+ * Lê o texto da tabela Selic. Aceita "MM/AAAA; 0,97" ou "AAAA-MM 0.97"; linhas inválidas são reportadas pelo número.
+ */
+export const parseSelicTable = (text: string): { rates: SelicRateTable; errors: string[] } => {
+  const rates: SelicRateTable = {};
+  const errors: string[] = [];
+  text.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const match = trimmed.match(/^(?:(\d{2})\/(\d{4})|(\d{4})-(\d{2}))\s*[;\t ]\s*(-?\d+(?:[.,]\d+)?)\s*%?$/);
+    const month = match ? Number(match[1] ?? match[4]) : NaN;
+    if (!match || month < 1 || month > 12) {
+      errors.push(`Linha ${index + 1}: use o formato MM/AAAA; taxa.`);
+      return;
+    }
+    const year = match[2] ?? match[3];
+    rates[`${year}-${String(month).padStart(2, '0')}`] = Number(match[5].replace(',', '.'));
+  });
+  return { rates, errors };
+};
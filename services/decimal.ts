@@ -0,0 +1,64 @@
+import DecimalBase from 'decimal.js-light';
+
+/**
+ * Tipo decimal exato usado para quantidades e valores em BRL no livro-razão, nos impostos e no rebalanceamento.
+ * É um construtor próprio (clone) para não alterar a configuração global usada pelos gráficos.
+ * 40 dígitos significativos cobrem tokens com 18 casas decimais em posições de bilhões de unidades.
+ */
+export const Decimal = DecimalBase.clone({ precision: 40, rounding: DecimalBase.ROUND_HALF_UP });
+export type Decimal = DecimalBase;
+
+export const ZERO = new Decimal(0);
+
+/**
+ * Casas decimais mantidas quando uma divisão reparte quantidades (o máximo usado por tokens) ou valores em BRL.
+ * Com casas fixas, as somas das partes continuam exatas; a última parte de cada rateio fica com a diferença.
+ */
+export const QUANTITY_DECIMALS = 18;
+export const AMOUNT_DECIMALS = 12;
+
+export const roundQuantity = (value: Decimal): Decimal => value.toDecimalPlaces(QUANTITY_DECIMALS, Decimal.ROUND_DOWN);
+
+export const roundAmount = (value: Decimal): Decimal => value.toDecimalPlaces(AMOUNT_DECIMALS, Decimal.ROUND_HALF_UP);
+
+/**
+ * Converte um número armazenado para decimal. Números do JavaScript entram pela sua representação decimal
+ * mais curta (0.1 vira exatamente 0,1). Valores ausentes ou não finitos viram zero.
+ */
+export const toDecimal = (value: number | string | Decimal | null | undefined): Decimal => {
+  if (value instanceof DecimalBase) return value;
+  if (value === null || value === undefined || value === '') return ZERO;
+  if (typeof value === 'number' && !Number.isFinite(value)) return ZERO;
+  try {
+    return new Decimal(value);
+  } catch {
+    return ZERO;
+  }
+};
+
+export const sumDecimals = (values: Iterable<Decimal>): Decimal => {
+  let total = ZERO;
+  for (const value of values) total = total.plus(value);
+  return total;
+};
+
+export const maxDecimal = (a: Decimal, b: Decimal): Decimal => (a.gte(b) ? a : b);
+
+export const minDecimal = (a: Decimal, b: Decimal): Decimal => (a.lte(b) ? a : b);
+
+/**
+ * Dígitos significativos que um número do JavaScript representa com segurança.
+ */
+const SAFE_SIGNIFICANT_DIGITS = 15;
+
+/**
+ * Remove o resíduo de ponto flutuante de um número gravado por versões anteriores (0.30000000000000004 vira 0.3).
+ * Só corrige quando o arredondamento a 15 dígitos encurta o número de forma evidente, para não truncar
+ * valores digitados com muitas casas decimais.
+ */
+export const normalizeStoredAmount = (value: number): number => {
+  if (!Number.isFinite(value) || Number.isInteger(value)) return value;
+  const exact = new Decimal(value);
+  const rounded = exact.toSignificantDigits(SAFE_SIGNIFICANT_DIGITS);
+  return exact.sd(false) - rounded.sd(false) >= 3 ? rounded.toNumber() : value;
+};
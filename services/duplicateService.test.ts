@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Transaction } from '../types';
+import { applyDuplicateActions, findDuplicateGroups, findImportDuplicates, mergeTransactions } from './duplicateService';
+
+const buy: Transaction = { id: 1, type: 'buy', date: '2024-03-10', asset: 'BTC', quantity: 1, value: 100 };
+
+test('a tolerância é relativa e inclui o limite', () => {
+  const incoming = [
+    { ...buy, quantity: 1.0001 }, // 0,01% de quantidade: no limite
+    { ...buy, quantity: 1.0002 },
+    { ...buy, value: 101 }, // 1% de preço: no limite
+    { ...buy, value: 102 },
+  ];
+  assert.deepEqual(
+    incoming.map(tx => findImportDuplicates([tx], [buy])[0]?.id ?? null),
+    [1, null, 1, null]
+  );
+  assert.equal(findImportDuplicates([{ ...buy, value: 102 }], [buy], { quantity: 0.0001, value: 0.05 })[0]?.id, 1);
+  // Data, tipo ou ativo diferente nunca é duplicata, mesmo com a quantidade e o preço iguais.
+  assert.deepEqual(findImportDuplicates([{ ...buy, date: '2024-03-11' }, { ...buy, type: 'sell' }, { ...buy, asset: 'ETH' }], [buy]), [null, null, null]);
+});
+
+test('cada transação registrada casa com uma só importada', () => {
+  const { id: _id, ...row } = buy;
+  assert.deepEqual(findImportDuplicates([row, row], [buy]).map(match => match?.id ?? null), [1, null]);
+  assert.deepEqual(findImportDuplicates([row, row], [buy, { ...buy, id: 2 }]).map(match => match?.id ?? null), [1, 2]);
+});
+
+test('a entrada derivada de uma transferência não conta como duplicata', () => {
+  const transferIn: Transaction = { id: 5, type: 'transfer_in', date: '2024-03-10', asset: 'BTC', quantity: 1, value: 0, fromAccountId: 1, transferId: 't1' };
+  const { id: _id, ...row } = transferIn;
+  assert.deepEqual(findImportDuplicates([row], [transferIn]), [null]);
+  assert.deepEqual(findDuplicateGroups([transferIn, { ...transferIn, id: 6 }]), []);
+});
+
+test('agrupa as duplicatas registradas a partir da mais antiga', () => {
+  const groups = findDuplicateGroups([
+    { ...buy, id: 3, quantity: 1.00005 },
+    buy,
+    { ...buy, id: 2, quantity: 2 },
+    { id: 4, type: 'sell', date: '2024-05-01', asset: 'ETH', quantity: 1, value: 10 },
+    { id: 7, type: 'sell', date: '2024-05-01', asset: 'ETH', quantity: 1, value: 10 },
+  ]);
+  assert.deepEqual(groups.map(group => group.map(tx => tx.id)), [[4, 7], [1, 3]]);
+});
+
+test('mesclar mantém o id, o vínculo de transferência e os campos que o arquivo não traz', () => {
+  const existing: Transaction = { id: 9, type: 'transfer', date: '2024-03-10', asset: 'BTC', quantity: 1, value: 0, fee: 0.0001, feeCurrency: 'asset', toAccountId: 2, transferId: 't9' };
+  const incoming = { type: 'transfer' as const, date: '2024-03-10', asset: 'BTC', quantity: 0.99995, value: 0, fee: undefined, transferId: 'outro' };
+  assert.deepEqual(mergeTransactions(existing, incoming), { ...existing, quantity: 0.99995 });
+});
+
+test('aplica a ação escolhida para cada linha importada', () => {
+  const { id: _id, ...row } = buy;
+  const rows = [{ ...row, value: 100.5 }, row, row, { ...row, asset: 'ETH' }];
+  const { imported, merged } = applyDuplicateActions(rows, [buy, buy, buy, null], ['merge', 'skip', 'import', 'skip']);
+  assert.deepEqual(merged, [{ ...buy, value: 100.5 }]);
+  // A linha sem duplicata entra mesmo com a ação "pular", que só vale para duplicatas.
+  assert.deepEqual(imported, [row, { ...row, asset: 'ETH' }]);
+});
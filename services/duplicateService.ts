@@ -0,0 +1,119 @@
+import type { DuplicateAction, DuplicateTolerance, Transaction } from '../types';
+import { toDecimal } from './decimal';
+
+export const DUPLICATE_ACTION_LABELS: Record<DuplicateAction, string> = {
+  skip: 'Pular',
+  merge: 'Mesclar',
+  import: 'Importar mesmo assim',
+};
+
+/**
+ * Tolerância padrão: diferenças de arredondamento na quantidade e de cotação/conversão no preço unitário.
+ */
+export const DEFAULT_DUPLICATE_TOLERANCE: DuplicateTolerance = { quantity: 0.0001, value: 0.01 };
+
+/**
+ * Chave exata da transação (data, tipo e ativos). Transações com a mesma chave são comparadas pela quantidade e pelo preço.
+ */
+export const getTransactionFingerprint = (tx: Omit<Transaction, 'id'>): string =>
+  [tx.date, tx.type, tx.asset.toUpperCase(), tx.toAsset?.toUpperCase() ?? ''].join('|');
+
+const isWithin = (a: number, b: number, tolerance: number): boolean => {
+  if (a === b) return true;
+  const reference = Math.max(Math.abs(a), Math.abs(b));
+  return toDecimal(a).minus(toDecimal(b)).abs().lte(toDecimal(reference).times(toDecimal(tolerance)));
+};
+
+/**
+ * Indica se duas transações provavelmente registram a mesma operação.
+ */
+export const isLikelyDuplicate = (
+  a: Omit<Transaction, 'id'>,
+  b: Omit<Transaction, 'id'>,
+  tolerance: DuplicateTolerance = DEFAULT_DUPLICATE_TOLERANCE
+): boolean =>
+  getTransactionFingerprint(a) === getTransactionFingerprint(b)
+  && isWithin(a.quantity, b.quantity, tolerance.quantity)
+  && (a.type === 'transfer' || isWithin(a.value, b.value, tolerance.value))
+  && (a.type !== 'swap' || isWithin(a.toQuantity ?? 0, b.toQuantity ?? 0, tolerance.quantity))
+  && (a.type !== 'transfer' || a.toAccountId === b.toAccountId);
+
+const groupByFingerprint = (transactions: Transaction[]): Map<string, Transaction[]> => {
+  const groups = new Map<string, Transaction[]>();
+  for (const tx of transactions) {
+    const key = getTransactionFingerprint(tx);
+    groups.set(key, [...(groups.get(key) ?? []), tx]);
+  }
+  return groups;
+};
+
+/**
+ * Para cada transação importada, a transação já registrada que ela provavelmente repete, ou null.
+ * Cada transação registrada casa com no máximo uma importada, então duas execuções idênticas no arquivo
+ * contra uma só registrada marcam apenas uma como duplicata.
+ */
+export const findImportDuplicates = (
+  incoming: Omit<Transaction, 'id'>[],
+  existing: Transaction[],
+  tolerance: DuplicateTolerance = DEFAULT_DUPLICATE_TOLERANCE
+): (Transaction | null)[] => {
+  // Transferências recebidas são derivadas da conta de origem e não pertencem a esta conta.
+  const candidates = groupByFingerprint(existing.filter(tx => tx.type !== 'transfer_in'));
+  const used = new Set<number>();
+  return incoming.map(tx => {
+    const match = (candidates.get(getTransactionFingerprint(tx)) ?? [])
+      .find(candidate => !used.has(candidate.id) && isLikelyDuplicate(tx, candidate, tolerance));
+    if (!match) return null;
+    used.add(match.id);
+    return match;
+  });
+};
+
+/**
+ * Grupos de transações registradas que provavelmente repetem a mesma operação, cada um ordenado pelo id
+ * (o primeiro é o registro mais antigo).
+ */
+export const findDuplicateGroups = (
+  transactions: Transaction[],
+  tolerance: DuplicateTolerance = DEFAULT_DUPLICATE_TOLERANCE
+): Transaction[][] => {
+  const result: Transaction[][] = [];
+  for (const group of groupByFingerprint(transactions.filter(tx => tx.type !== 'transfer_in')).values()) {
+    const pending = [...group].sort((a, b) => a.id - b.id);
+    while (pending.length > 1) {
+      const [first, ...rest] = pending;
+      const matches = rest.filter(tx => isLikelyDuplicate(first, tx, tolerance));
+      if (matches.length > 0) result.push([first, ...matches]);
+      pending.splice(0, pending.length, ...rest.filter(tx => !matches.includes(tx)));
+    }
+  }
+  return result.sort((a, b) => b[0].date.localeCompare(a[0].date));
+};
+
+/**
+ * Atualiza a transação registrada com os dados importados, mantendo o id e o vínculo de transferência.
+ * Campos que o arquivo não traz (como a taxa) continuam com o valor registrado.
+ */
+export const mergeTransactions = (existing: Transaction, incoming: Omit<Transaction, 'id'>): Transaction => {
+  const defined = Object.fromEntries(Object.entries(incoming).filter(([, value]) => value !== undefined));
+  return { ...existing, ...defined, id: existing.id, ...(existing.transferId ? { transferId: existing.transferId } : {}) };
+};
+
+/**
+ * Separa as transações importadas conforme a ação escolhida para cada duplicata: novas para incluir e
+ * registradas atualizadas (mescladas). Linhas sem duplicata, ou marcadas para importar, entram como novas.
+ */
+export const applyDuplicateActions = (
+  incoming: Omit<Transaction, 'id'>[],
+  matches: (Transaction | null)[],
+  actions: DuplicateAction[]
+): { imported: Omit<Transaction, 'id'>[]; merged: Transaction[] } => {
+  const imported: Omit<Transaction, 'id'>[] = [];
+  const merged: Transaction[] = [];
+  incoming.forEach((tx, index) => {
+    const match = matches[index];
+    if (!match || actions[index] === 'import') imported.push(tx);
+    else if (actions[index] === 'merge') merged.push(mergeTransactions(match, tx));
+  });
+  return { imported, merged };
+};
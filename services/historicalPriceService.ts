@@ -1,5 +1,6 @@
 import type { Transaction } from '../types';
 import { getProxiedUrl } from './proxyService';
+import { getTransactionAssets } from './transactionTypes';
 
 type HistoricalPricesUpdate = Record<string, Record<string, number>>;
 type CachedPrices = Record<string, Record<string, number> | null>;
@@ -34,10 +35,12 @@ export const fetchHistoricalPrices = async (
 
     const earliestTxDates = new Map<string, string>();
     transactions.forEach(tx => {
-        const currentMinDate = earliestTxDates.get(tx.asset);
-        if (!currentMinDate || tx.date < currentMinDate) {
-            earliestTxDates.set(tx.asset, tx.date);
-        }
+        getTransactionAssets(tx).forEach(asset => {
+            const currentMinDate = earliestTxDates.get(asset);
+            if (!currentMinDate || tx.date < currentMinDate) {
+                earliestTxDates.set(asset, tx.date);
+            }
+        });
     });
 
     const assetsToFetch = new Map<string, string>(); // Map<assetSymbol, minDateString>
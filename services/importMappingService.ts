@@ -0,0 +1,255 @@
+import type { Account, FeeCurrency, ImportColumnMapping, ImportDateFormat, ImportField, ImportPreviewRow, Transaction, TransactionType } from '../types';
+import { EDITABLE_TRANSACTION_TYPES, TRANSACTION_TYPE_LABELS, isIncomeType, parseTransactionTypeLabel } from './transactionTypes';
+import { parseNumber } from './importers/common';
+import { toDecimal } from './decimal';
+
+/**
+ * Conteúdo de uma célula como vem da planilha: texto (CSV ou célula de texto), número ou data do Excel.
+ */
+export type ImportCell = string | number | Date | null | undefined;
+
+export interface ImportTable {
+  headers: string[];
+  rows: { line: number; cells: ImportCell[] }[];
+}
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean; hint: string }[] = [
+  { key: 'type', label: 'Operação', required: false, hint: 'Sem coluna, todas as linhas usam o tipo padrão.' },
+  { key: 'date', label: 'Data', required: true, hint: 'Data da operação.' },
+  { key: 'asset', label: 'Ativo', required: true, hint: 'Ticker do ativo negociado (ou entregue, em permutas).' },
+  { key: 'quantity', label: 'Quantidade', required: true, hint: 'Quantidade negociada.' },
+  { key: 'value', label: 'Valor Unitário (BRL)', required: false, hint: 'Preço por unidade em reais.' },
+  { key: 'total', label: 'Valor Total (BRL)', required: false, hint: 'Usado para calcular o preço quando não há valor unitário.' },
+  { key: 'fee', label: 'Taxa', required: false, hint: 'Taxa paga na operação.' },
+  { key: 'feeCurrency', label: 'Moeda da Taxa', required: false, hint: "'BRL', 'Ativo' ou o ticker do ativo. O padrão é BRL." },
+  { key: 'toAsset', label: 'Ativo Recebido', required: false, hint: 'Apenas permutas.' },
+  { key: 'toQuantity', label: 'Quantidade Recebida', required: false, hint: 'Apenas permutas.' },
+  { key: 'toAccount', label: 'Conta Destino', required: false, hint: 'Apenas transferências: nome de outra conta existente.' },
+];
+
+export const IMPORT_DATE_FORMATS: ImportDateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+// Cabeçalhos comuns de cada campo, sem acentos e em minúsculas.
+const HEADER_SYNONYMS: Record<ImportField, string[]> = {
+  type: ['operacao', 'tipo', 'tipo de operacao', 'type', 'side', 'lado', 'operation', 'transaction type'],
+  date: ['data', 'date', 'data/hora', 'timestamp', 'time', 'datetime', 'date(utc)'],
+  asset: ['ativo', 'asset', 'moeda', 'coin', 'symbol', 'ticker', 'cripto', 'criptomoeda', 'currency'],
+  quantity: ['quantidade', 'qtd', 'qtde', 'quantity', 'qty', 'amount', 'vol', 'volume'],
+  value: ['valor (brl)', 'valor unitario', 'preco', 'preco unitario', 'price', 'unit price', 'cotacao'],
+  total: ['total', 'valor total', 'valor', 'cost', 'subtotal', 'total (brl)'],
+  fee: ['taxa', 'fee', 'fees', 'comissao', 'tarifa'],
+  feeCurrency: ['moeda da taxa', 'fee currency', 'fee coin', 'fee asset', 'ativo da taxa'],
+  toAsset: ['ativo recebido', 'to asset', 'received asset'],
+  toQuantity: ['quantidade recebida', 'to quantity', 'received quantity'],
+  toAccount: ['conta destino', 'to account', 'destination'],
+};
+
+const normalizeHeader = (header: string) => header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const cellText = (cell: ImportCell): string => (cell instanceof Date ? cell.toISOString() : String(cell ?? '')).trim();
+
+/**
+ * Monta a tabela a partir das linhas lidas do arquivo. A primeira linha não vazia é o cabeçalho; linhas vazias são descartadas.
+ */
+export const buildImportTable = (rows: ImportCell[][]): ImportTable | null => {
+  const isEmpty = (row: ImportCell[]) => row.every(cell => cellText(cell) === '');
+  const headerIndex = rows.findIndex(row => !isEmpty(row));
+  if (headerIndex === -1) return null;
+  return {
+    headers: rows[headerIndex].map(cellText),
+    rows: rows
+      .map((cells, index) => ({ line: index + 1, cells }))
+      .slice(headerIndex + 1)
+      .filter(row => !isEmpty(row.cells)),
+  };
+};
+
+/**
+ * Sugere a coluna de cada campo pelo nome do cabeçalho.
+ */
+export const guessColumns = (headers: string[]): ImportColumnMapping['columns'] => {
+  const columns: ImportColumnMapping['columns'] = {};
+  const used = new Set<string>();
+  for (const { key } of IMPORT_FIELDS) {
+    const header = headers.find(h => !used.has(h) && HEADER_SYNONYMS[key].includes(normalizeHeader(h)));
+    if (header) {
+      columns[key] = header;
+      used.add(header);
+    }
+  }
+  return columns;
+};
+
+const getColumnCells = (table: ImportTable, header: string | undefined): ImportCell[] => {
+  const index = header ? table.headers.indexOf(header) : -1;
+  return index === -1 ? [] : table.rows.map(row => row.cells[index]);
+};
+
+/**
+ * Deduz o formato das datas em texto: dia maior que 12 na primeira posição indica DD/MM, na segunda indica MM/DD.
+ * Na dúvida, fica com o formato brasileiro.
+ */
+export const guessDateFormat = (table: ImportTable, dateColumn: string | undefined): ImportDateFormat => {
+  const texts = getColumnCells(table, dateColumn).filter((cell): cell is string => typeof cell === 'string');
+  if (texts.some(text => /^\d{4}-\d{1,2}-\d{1,2}/.test(text.trim()))) return 'YYYY-MM-DD';
+  for (const text of texts) {
+    const parts = text.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-]\d{4}/);
+    if (parts && Number(parts[1]) > 12) return 'DD/MM/YYYY';
+    if (parts && Number(parts[2]) > 12) return 'MM/DD/YYYY';
+  }
+  return 'DD/MM/YYYY';
+};
+
+/**
+ * Deduz o separador decimal pelos números em texto. Um separador seguido de exatamente três dígitos é ambíguo
+ * ("1,000") e não conta; na dúvida, fica com a vírgula.
+ */
+export const guessDecimalSeparator = (table: ImportTable, mapping: Pick<ImportColumnMapping, 'columns'>): ',' | '.' => {
+  const numericFields: ImportField[] = ['quantity', 'value', 'total', 'fee', 'toQuantity'];
+  let votes = 0;
+  for (const field of numericFields) {
+    for (const cell of getColumnCells(table, mapping.columns[field])) {
+      if (typeof cell !== 'string') continue;
+      const match = cell.trim().match(/([.,])(\d+)$/);
+      if (!match || match[2].length === 3) continue;
+      votes += match[1] === ',' ? 1 : -1;
+    }
+  }
+  return votes < 0 ? '.' : ',';
+};
+
+/**
+ * Verifica se o mapeamento tem o mínimo para ler as linhas. Devolve as mensagens dos problemas encontrados.
+ */
+export const validateMapping = (mapping: ImportColumnMapping): string[] => {
+  const errors: string[] = [];
+  IMPORT_FIELDS.filter(field => field.required && !mapping.columns[field.key])
+    .forEach(field => errors.push(`Selecione a coluna de '${field.label}'.`));
+  if (!mapping.columns.type && !mapping.defaultType) {
+    errors.push("Selecione a coluna de 'Operação' ou um tipo padrão para todas as linhas.");
+  }
+  const onlyTransfers = !mapping.columns.type && mapping.defaultType === 'transfer';
+  if (!onlyTransfers && !mapping.columns.value && !mapping.columns.total) {
+    errors.push("Selecione a coluna de 'Valor Unitário (BRL)' ou de 'Valor Total (BRL)'.");
+  }
+  return errors;
+};
+
+const parseCellNumber = (cell: ImportCell, decimalSeparator: ',' | '.'): number => {
+  if (typeof cell === 'number') return cell;
+  if (typeof cell !== 'string' || cell.trim() === '') return NaN;
+  return parseNumber(cell, decimalSeparator === ',' ? 'pt' : 'en');
+};
+
+const parseCellDate = (cell: ImportCell, format: ImportDateFormat): string | null => {
+  if (cell instanceof Date) return isNaN(cell.getTime()) ? null : cell.toISOString().split('T')[0];
+  const text = cellText(cell);
+  const parts = format === 'YYYY-MM-DD'
+    ? text.match(/^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})/)
+    : text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/);
+  if (!parts) return null;
+  const [year, month, day] = format === 'YYYY-MM-DD'
+    ? [parts[1], parts[2], parts[3]]
+    : format === 'DD/MM/YYYY' ? [parts[3], parts[2], parts[1]] : [parts[3], parts[1], parts[2]];
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) return null;
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Converte o texto da operação aceitando os rótulos da interface ("Compra") e os tipos em inglês ("buy").
+ */
+const parseTypeCell = (text: string): TransactionType | null => {
+  const normalized = text.toLowerCase().trim();
+  return parseTransactionTypeLabel(text) ?? EDITABLE_TRANSACTION_TYPES.find(type => type === normalized) ?? null;
+};
+
+/**
+ * Aplica o mapeamento a todas as linhas, sem salvar nada, e devolve cada linha com a transação resultante
+ * ou os erros que a impedem de ser importada.
+ */
+export const buildImportPreview = (
+  table: ImportTable,
+  mapping: ImportColumnMapping,
+  context: { cryptoMap: Record<string, string>; destinationAccounts: Account[] }
+): ImportPreviewRow[] => {
+  const columnIndex = Object.fromEntries(
+    IMPORT_FIELDS.map(({ key }) => [key, mapping.columns[key] ? table.headers.indexOf(mapping.columns[key]!) : -1])
+  ) as Record<ImportField, number>;
+  const labelOf = (field: ImportField) => mapping.columns[field] ?? IMPORT_FIELDS.find(f => f.key === field)!.label;
+  const normalizeAsset = (text: string) => {
+    const symbol = text.toUpperCase();
+    return context.cryptoMap[symbol] || symbol;
+  };
+
+  return table.rows.map(({ line, cells }) => {
+    const cell = (field: ImportField): ImportCell => (columnIndex[field] === -1 ? undefined : cells[columnIndex[field]]);
+    const text = (field: ImportField) => cellText(cell(field));
+    const errors: string[] = [];
+
+    const typeText = text('type');
+    const type = typeText === '' ? mapping.defaultType ?? null : parseTypeCell(typeText);
+    if (!type) {
+      const validLabels = EDITABLE_TRANSACTION_TYPES.map(t => `'${TRANSACTION_TYPE_LABELS[t]}'`).join(', ');
+      errors.push(`Linha ${line}: '${labelOf('type')}' inválida ou ausente. Deve ser um dos valores: ${validLabels}.`);
+    }
+
+    const date = parseCellDate(cell('date'), mapping.dateFormat);
+    if (!date) errors.push(`Linha ${line}: '${labelOf('date')}' inválida ou ausente. Use o formato ${mapping.dateFormat} ou uma data válida do Excel.`);
+
+    const asset = text('asset');
+    if (asset === '') errors.push(`Linha ${line}: '${labelOf('asset')}' inválido ou ausente.`);
+
+    const quantity = parseCellNumber(cell('quantity'), mapping.decimalSeparator);
+    if (!(quantity > 0)) errors.push(`Linha ${line}: '${labelOf('quantity')}' inválida ou ausente. Deve ser um número positivo.`);
+
+    let value = parseCellNumber(cell('value'), mapping.decimalSeparator);
+    if (isNaN(value) && quantity > 0) {
+      const total = parseCellNumber(cell('total'), mapping.decimalSeparator);
+      if (!isNaN(total)) value = toDecimal(total).div(toDecimal(quantity)).toNumber();
+    }
+    if (type && type !== 'transfer' && !(isIncomeType(type) ? value >= 0 : value > 0)) {
+      const column = mapping.columns.value ? labelOf('value') : labelOf('total');
+      errors.push(`Linha ${line}: '${column}' inválido ou ausente. Deve ser um número positivo.`);
+    }
+
+    const fee = text('fee') === '' ? 0 : parseCellNumber(cell('fee'), mapping.decimalSeparator);
+    if (!(fee >= 0)) errors.push(`Linha ${line}: '${labelOf('fee')}' inválida. Deve ser um número maior ou igual a zero.`);
+
+    const feeCurrencyText = text('feeCurrency').toLowerCase();
+    let feeCurrency: FeeCurrency | null = null;
+    if (feeCurrencyText === '' || feeCurrencyText === 'brl') feeCurrency = 'BRL';
+    else if (feeCurrencyText === 'ativo' || feeCurrencyText === 'asset' || feeCurrencyText === asset.toLowerCase()) feeCurrency = 'asset';
+    else errors.push(`Linha ${line}: '${labelOf('feeCurrency')}' inválida. Deve ser 'BRL', 'Ativo' ou o ticker do ativo.`);
+
+    const toAsset = text('toAsset');
+    const toQuantity = parseCellNumber(cell('toQuantity'), mapping.decimalSeparator);
+    if (type === 'swap') {
+      if (toAsset === '') errors.push(`Linha ${line}: '${labelOf('toAsset')}' é obrigatório para permutas.`);
+      if (!(toQuantity > 0)) errors.push(`Linha ${line}: '${labelOf('toQuantity')}' inválida ou ausente. Deve ser um número positivo.`);
+    }
+
+    let toAccountId: number | undefined;
+    if (type === 'transfer') {
+      const accountName = text('toAccount').toLowerCase();
+      toAccountId = context.destinationAccounts.find(acc => acc.name.toLowerCase().trim() === accountName)?.id;
+      if (toAccountId === undefined) {
+        errors.push(`Linha ${line}: '${labelOf('toAccount')}' inválida ou ausente. Deve ser o nome de outra conta existente.`);
+      }
+    }
+
+    if (errors.length > 0 || !type || !date || !feeCurrency) return { line, transaction: null, errors };
+
+    const transaction: Omit<Transaction, 'id'> = {
+      type,
+      date,
+      asset: normalizeAsset(asset),
+      quantity,
+      value: type === 'transfer' ? 0 : value,
+      ...(fee > 0 ? { fee, feeCurrency } : {}),
+      ...(type === 'swap' ? { toAsset: normalizeAsset(toAsset), toQuantity } : {}),
+      ...(type === 'transfer' ? { toAccountId } : {}),
+    };
+    return { line, transaction, errors };
+  });
+};
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { parseExchangeCsv } from './index';
+import { parseAmountWithAsset } from './common';
+
+const fixture = readFileSync(new URL('./fixtures/binance.csv', import.meta.url), 'utf8');
+
+test('lê o extrato de exemplo da Binance sem erros', () => {
+  const parsed = parseExchangeCsv(fixture);
+  assert.equal(parsed?.importer.id, 'binance');
+  assert.deepEqual(parsed?.result.errors, []);
+  assert.equal(parsed?.result.trades.length, 6);
+});
+
+test('separa tickers que começam com dígito', () => {
+  const trades = parseExchangeCsv(fixture)!.result.trades.filter(trade => trade.base === '1INCH');
+  assert.deepEqual(
+    trades.map(({ quantity, quote, total, fee, feeAsset }) => ({ quantity, quote, total, fee, feeAsset })),
+    [
+      { quantity: 10, quote: 'USDT', total: 4.5, fee: 0.0045, feeAsset: 'BNB' },
+      { quantity: 4, quote: 'USDT', total: 2, fee: 0.002, feeAsset: 'USDT' },
+    ]
+  );
+  assert.deepEqual(parseAmountWithAsset('10.000000001INCH'), { amount: 10, asset: '1INCH' });
+  assert.deepEqual(parseAmountWithAsset('10.01INCH', ['1INCH', 'USDT']), { amount: 10, asset: '1INCH' });
+});
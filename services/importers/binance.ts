@@ -0,0 +1,51 @@
+import type { ExchangeImporter, ExchangeTrade } from './common';
+import { parseAmountWithAsset, parseDate, parseNumber, parseRecords, splitPair, validateTrade } from './common';
+
+const BINANCE_QUOTES = ['BRL', 'USDT', 'USDC', 'FDUSD', 'BUSD', 'TUSD', 'DAI', 'BTC', 'ETH', 'BNB', 'EUR', 'TRY'];
+
+/**
+ * Histórico de negociações spot da Binance ("Trade History"), nos dois layouts de exportação:
+ * o atual, com quantidade e ativo na mesma célula ("Executed" = "0.001BTC"), e o antigo, com "Market" e "Fee Coin".
+ */
+export const binanceImporter: ExchangeImporter = {
+  id: 'binance',
+  name: 'Binance',
+  detect: headers => headers.includes('Date(UTC)') && (headers.includes('Executed') || headers.includes('Fee Coin')),
+  parse: records => parseRecords(records, ({ line, values }) => {
+    const side = (values['Side'] ?? values['Type'] ?? '').trim().toUpperCase();
+    if (side !== 'BUY' && side !== 'SELL') return [`Linha ${line}: lado da operação '${side}' não reconhecido. Deve ser BUY ou SELL.`];
+
+    let trade: Partial<ExchangeTrade>;
+    if (values['Executed'] !== undefined) {
+      const pair = splitPair(values['Pair'] ?? '', BINANCE_QUOTES);
+      const pairAssets = pair ? [pair.base, pair.quote] : [];
+      const executed = parseAmountWithAsset(values['Executed'], pairAssets);
+      const amount = parseAmountWithAsset(values['Amount'], pairAssets);
+      const fee = parseAmountWithAsset(values['Fee'], pairAssets);
+      trade = {
+        base: executed?.asset,
+        quote: amount?.asset,
+        quantity: executed?.amount,
+        price: parseNumber(values['Price']),
+        total: amount?.amount,
+        fee: fee?.amount,
+        feeAsset: fee?.asset,
+      };
+    } else {
+      const pair = splitPair(values['Market'] ?? '', BINANCE_QUOTES);
+      trade = {
+        base: pair?.base,
+        quote: pair?.quote,
+        quantity: parseNumber(values['Amount']),
+        price: parseNumber(values['Price']),
+        total: parseNumber(values['Total']),
+        fee: parseNumber(values['Fee']),
+        feeAsset: values['Fee Coin']?.trim().toUpperCase(),
+      };
+    }
+    trade = { ...trade, line, type: side === 'BUY' ? 'buy' : 'sell', date: parseDate(values['Date(UTC)']) ?? undefined };
+
+    const errors = validateTrade(trade, line, { date: 'Date(UTC)', quantity: values['Executed'] !== undefined ? 'Executed' : 'Amount', price: 'Price' });
+    return errors.length > 0 ? errors : (trade as ExchangeTrade);
+  }),
+};
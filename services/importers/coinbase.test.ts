@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { parseExchangeCsv } from './index';
+import { convertTrades } from './common';
+
+const fixture = readFileSync(new URL('./fixtures/coinbase.csv', import.meta.url), 'utf8');
+
+test('lê o relatório da Coinbase ignorando envios e classificando recompensas', () => {
+  const parsed = parseExchangeCsv(fixture);
+  assert.equal(parsed?.importer.id, 'coinbase');
+  assert.deepEqual(parsed?.result.errors, []);
+  // O envio de BTC para outra carteira não é negociação.
+  assert.equal(parsed?.result.ignored, 1);
+  assert.deepEqual(
+    parsed?.result.trades.map(({ line, type, base, quote, quantity, incomeType }) => ({ line, type, base, quote, quantity, incomeType })),
+    [
+      { line: 6, type: 'buy', base: 'BTC', quote: 'USD', quantity: 0.005, incomeType: undefined },
+      { line: 8, type: 'income', base: 'ETH', quote: 'USD', quantity: 0.0021, incomeType: 'staking' },
+      { line: 9, type: 'sell', base: 'ETH', quote: 'SOL', quantity: 0.5, incomeType: undefined },
+      { line: 10, type: 'sell', base: 'BTC', quote: 'USD', quantity: 0.002, incomeType: undefined },
+      { line: 11, type: 'income', base: 'GRT', quote: 'USD', quantity: 10, incomeType: 'airdrop' },
+    ]
+  );
+});
+
+test('converte o Convert em permuta com a taxa em dólar convertida para reais', () => {
+  const trades = parseExchangeCsv(fixture)!.result.trades;
+  const convert = trades.find(trade => trade.quote === 'SOL')!;
+  assert.deepEqual({ price: convert.price, total: convert.total, fee: convert.fee, feeAsset: convert.feeAsset }, { price: 24.6, total: 12.3, fee: 12.25, feeAsset: 'USD' });
+
+  const { transactions, errors } = convertTrades([convert], { SOL: { '2024-02-10': 500 }, USD: { '2024-02-10': 5 } });
+  assert.deepEqual(errors, []);
+  assert.deepEqual(transactions, [{
+    type: 'swap', date: '2024-02-10', asset: 'ETH', quantity: 0.5, value: 12300,
+    toAsset: 'SOL', toQuantity: 12.3, fee: 61.25, feeCurrency: 'BRL',
+  }]);
+});
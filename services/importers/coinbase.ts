@@ -0,0 +1,67 @@
+import type { ExchangeImporter, ExchangeTrade } from './common';
+import { parseDate, parseNumber, parseRecords, validateTrade } from './common';
+
+const TRADE_TYPES: Record<string, 'buy' | 'sell'> = {
+  'buy': 'buy',
+  'advanced trade buy': 'buy',
+  'sell': 'sell',
+  'advanced trade sell': 'sell',
+};
+
+const INCOME_TYPES: Record<string, NonNullable<ExchangeTrade['incomeType']>> = {
+  'rewards income': 'staking',
+  'staking income': 'staking',
+  'inflation reward': 'staking',
+  'learning reward': 'airdrop',
+  'coinbase earn': 'airdrop',
+  'interest': 'interest',
+};
+
+// Depósitos, saques e envios entre carteiras não mudam o custo nem geram venda.
+const IGNORED_TYPES = new Set(['send', 'receive', 'deposit', 'withdrawal', 'pro deposit', 'pro withdrawal', 'exchange deposit', 'exchange withdrawal']);
+
+/**
+ * Relatório "Transaction history" da Coinbase. O arquivo começa com linhas de apresentação antes do cabeçalho,
+ * e os valores vêm na moeda nativa da conta ("Spot Price Currency"). Conversões entre criptoativos ("Convert")
+ * trazem o ativo recebido apenas no texto da coluna "Notes".
+ */
+export const coinbaseImporter: ExchangeImporter = {
+  id: 'coinbase',
+  name: 'Coinbase',
+  detect: headers => headers.includes('Transaction Type') && headers.includes('Spot Price Currency') && headers.includes('Quantity Transacted'),
+  parse: records => parseRecords(records, ({ line, values }) => {
+    const kind = (values['Transaction Type'] ?? '').trim().toLowerCase();
+    if (IGNORED_TYPES.has(kind)) return null;
+
+    const currency = (values['Spot Price Currency'] ?? '').trim().toUpperCase();
+    const quantity = Math.abs(parseNumber(values['Quantity Transacted']));
+    const subtotal = Math.abs(parseNumber(values['Subtotal']));
+    const fee = Math.abs(parseNumber(values['Fees and/or Spread']));
+    const common = {
+      line,
+      date: parseDate(values['Timestamp']) ?? undefined,
+      base: (values['Asset'] ?? '').trim().toUpperCase() || undefined,
+      quantity,
+      ...(fee > 0 ? { fee, feeAsset: currency } : {}),
+    };
+
+    let trade: Partial<ExchangeTrade>;
+    if (TRADE_TYPES[kind]) {
+      // O subtotal exclui taxas e spread, então dá o preço efetivo melhor que o preço à vista.
+      const price = subtotal > 0 && quantity > 0 ? subtotal / quantity : parseNumber(values['Spot Price at Transaction']);
+      trade = { ...common, type: TRADE_TYPES[kind], quote: currency || undefined, price, ...(subtotal > 0 ? { total: subtotal } : {}) };
+    } else if (INCOME_TYPES[kind]) {
+      trade = { ...common, type: 'income', incomeType: INCOME_TYPES[kind], quote: currency || undefined, price: parseNumber(values['Spot Price at Transaction']) };
+    } else if (kind === 'convert') {
+      const converted = (values['Notes'] ?? '').match(/Converted\s+[\d.,]+\s+\S+\s+to\s+([\d.,]+)\s+(\S+)/i);
+      if (!converted) return [`Linha ${line}: não foi possível identificar o ativo recebido na conversão ('Notes').`];
+      const toQuantity = parseNumber(converted[1]);
+      trade = { ...common, type: 'sell', quote: converted[2].toUpperCase(), price: quantity > 0 ? toQuantity / quantity : NaN, total: toQuantity };
+    } else {
+      return [`Linha ${line}: tipo de transação '${values['Transaction Type']}' não suportado.`];
+    }
+
+    const errors = validateTrade(trade, line, { date: 'Timestamp', quantity: 'Quantity Transacted', price: 'Spot Price at Transaction' });
+    return errors.length > 0 ? errors : (trade as ExchangeTrade);
+  }),
+};
@@ -0,0 +1,277 @@
+import type { FeeCurrency, Transaction, TransactionType } from '../../types';
+import { Decimal, toDecimal } from '../decimal';
+
+/**
+ * Uma linha de dados do CSV, com as colunas indexadas pelo cabeçalho.
+ */
+export interface CsvRecord {
+  line: number; // Linha do arquivo, contando a partir de 1
+  values: Record<string, string>;
+}
+
+/**
+ * Negociação ou rendimento lido de um extrato de exchange, ainda na moeda de cotação original.
+ */
+export interface ExchangeTrade {
+  line: number; // Linha do arquivo, para as mensagens de erro
+  date: string; // YYYY-MM-DD
+  type: 'buy' | 'sell' | 'income';
+  incomeType?: Extract<TransactionType, 'staking' | 'airdrop' | 'interest' | 'gift'>;
+  base: string; // Ativo negociado
+  quote: string; // Moeda em que o preço está cotado
+  quantity: number; // Em unidades do ativo negociado
+  price: number; // Na moeda de cotação, por unidade
+  total?: number; // Na moeda de cotação, quando o extrato informa (evita o arredondamento do preço)
+  fee?: number;
+  feeAsset?: string;
+}
+
+export interface ParsedExchangeFile {
+  trades: ExchangeTrade[];
+  errors: string[];
+  ignored: number; // Linhas válidas que não viram transação (depósitos, saques etc.)
+}
+
+export interface ExchangeImporter {
+  id: string;
+  name: string;
+  /** Reconhece o arquivo pelos cabeçalhos (já sem espaços nas pontas). */
+  detect: (headers: string[]) => boolean;
+  parse: (records: CsvRecord[]) => ParsedExchangeFile;
+}
+
+/**
+ * Histórico de preços em BRL por moeda e data (YYYY-MM-DD), no mesmo formato do cache de preços históricos.
+ */
+export type QuoteRates = Record<string, Record<string, number> | null>;
+
+/**
+ * Moedas fiduciárias: negociações cotadas nelas são compras e vendas. Nas demais, cotadas em outro criptoativo
+ * (inclusive stablecoins), a operação é uma permuta entre criptoativos.
+ */
+export const FIAT_CURRENCIES = new Set(['BRL', 'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY', 'CHF']);
+
+/**
+ * Dias que a busca pela cotação pode recuar quando não há preço na data exata (fins de semana no câmbio, lacunas na API).
+ */
+const RATE_LOOKBACK_DAYS = 4;
+
+/**
+ * Separa o texto em linhas e colunas, com suporte a campos entre aspas. O delimitador (vírgula, ponto e vírgula ou
+ * tabulação) é o mais frequente na primeira linha não vazia.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const sample = content.split(/\r?\n/).find(line => line.trim() !== '') ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    sample.split(candidate).length > sample.split(best).length ? candidate : best);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Lê números no formato americano ("1,234.56") ou brasileiro ("1.234,56"), ignorando símbolos de moeda e espaços.
+ */
+export const parseNumber = (value: string | undefined, format: 'en' | 'pt' = 'en'): number => {
+  if (value === undefined) return NaN;
+  let cleaned = value.replace(/[^\d.,\-]/g, '');
+  if (cleaned === '' || cleaned === '-') return NaN;
+  cleaned = format === 'pt' ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  return Number(cleaned);
+};
+
+/**
+ * Extrai a data (YYYY-MM-DD) de "2024-01-10 14:22:01", "2024-01-10T14:22:01Z" ou, com `dayFirst`, "10/01/2024 14:22".
+ * Horários não são convertidos de fuso: vale a data como aparece no extrato.
+ */
+export const parseDate = (value: string | undefined, dayFirst = false): string | null => {
+  const trimmed = (value ?? '').trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const local = dayFirst ? trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/) : null;
+  const [year, month, day] = iso ? [iso[1], iso[2], iso[3]] : local ? [local[3], local[2], local[1]] : [];
+  if (!year) return null;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) return null;
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Separa "0.00100000BTC" em quantidade e ativo, como nas colunas de valor do extrato da Binance.
+ * Tickers que começam com dígito ("1INCH") tornam a divisão ambígua. No formato da Binance, com 8 casas decimais, o
+ * número termina na 8ª casa; fora dele, vale o ativo de `knownAssets` (os do par negociado) que fecha a célula.
+ */
+export const parseAmountWithAsset = (value: string | undefined, knownAssets: string[] = []): { amount: number; asset: string } | null => {
+  const cell = (value ?? '').trim().toUpperCase();
+  const fixed = cell.match(/^(-?[\d,]*\.\d{8})\s*([A-Z0-9]+)$/);
+  if (fixed) return { amount: parseNumber(fixed[1]), asset: fixed[2] };
+
+  const known = knownAssets
+    .filter(asset => asset !== '' && cell.endsWith(asset))
+    .sort((a, b) => b.length - a.length)
+    .find(asset => /^-?[\d.,]+$/.test(cell.slice(0, -asset.length).trim()));
+  if (known) return { amount: parseNumber(cell.slice(0, -known.length)), asset: known };
+
+  const match = cell.match(/^(-?[\d.,]+)\s*([A-Z0-9]+)$/);
+  if (!match) return null;
+  return { amount: parseNumber(match[1]), asset: match[2] };
+};
+
+const getRate = (rates: QuoteRates, currency: string, date: string): Decimal | null => {
+  if (currency === 'BRL') return new Decimal(1);
+  const history = rates[currency];
+  if (!history) return null;
+  const day = new Date(date + 'T00:00:00Z');
+  for (let i = 0; i <= RATE_LOOKBACK_DAYS; i++) {
+    const price = history[day.toISOString().split('T')[0]];
+    if (price > 0) return toDecimal(price);
+    day.setUTCDate(day.getUTCDate() - 1);
+  }
+  return null;
+};
+
+const formatDate = (date: string) => new Date(date + 'T00:00:00').toLocaleDateString('pt-BR');
+
+/**
+ * Moedas que precisam de cotação em BRL para converter as negociações, com a data mais antiga em que aparecem.
+ */
+export const getRequiredQuoteCurrencies = (trades: ExchangeTrade[]): Record<string, string> => {
+  const required: Record<string, string> = {};
+  const add = (currency: string, date: string) => {
+    if (currency !== 'BRL' && (!required[currency] || date < required[currency])) required[currency] = date;
+  };
+  for (const trade of trades) {
+    add(trade.quote, trade.date);
+    if (trade.fee && trade.feeAsset && trade.feeAsset !== trade.base && trade.feeAsset !== trade.quote) add(trade.feeAsset, trade.date);
+  }
+  return required;
+};
+
+/**
+ * Converte as negociações lidas em transações. Preços em moeda estrangeira viram BRL pela cotação do dia;
+ * negociações cotadas em criptoativos viram permutas (o ativo entregue é avaliado pela cotação dele em BRL).
+ * Taxas cobradas no ativo entregue ficam em quantidade do ativo; as demais são convertidas para BRL.
+ */
+export const convertTrades = (trades: ExchangeTrade[], rates: QuoteRates): { transactions: Omit<Transaction, 'id'>[]; errors: string[] } => {
+  const transactions: Omit<Transaction, 'id'>[] = [];
+  const errors: string[] = [];
+
+  for (const trade of trades) {
+    const quoteRate = getRate(rates, trade.quote, trade.date);
+    if (!quoteRate) {
+      errors.push(`Linha ${trade.line}: sem cotação de ${trade.quote} em BRL para ${formatDate(trade.date)}.`);
+      continue;
+    }
+    const quantity = toDecimal(trade.quantity);
+    const quoteAmount = trade.total !== undefined ? toDecimal(trade.total) : quantity.times(toDecimal(trade.price));
+    const isSwap = trade.type !== 'income' && !FIAT_CURRENCIES.has(trade.quote);
+
+    // Na compra cotada em criptoativo, o ativo entregue é a moeda de cotação; na venda, o ativo negociado.
+    const givenAsset = isSwap && trade.type === 'buy' ? trade.quote : trade.base;
+    let fee: { fee: number; feeCurrency: FeeCurrency } | undefined;
+    if (trade.fee && trade.fee > 0 && trade.feeAsset) {
+      if (trade.feeAsset === givenAsset) {
+        fee = { fee: trade.fee, feeCurrency: 'asset' };
+      } else {
+        const feeRate = trade.feeAsset === trade.base
+          ? quoteRate.times(toDecimal(trade.price))
+          : getRate(rates, trade.feeAsset, trade.date);
+        if (!feeRate) {
+          errors.push(`Linha ${trade.line}: sem cotação de ${trade.feeAsset} em BRL para ${formatDate(trade.date)}, usada na taxa.`);
+          continue;
+        }
+        fee = { fee: toDecimal(trade.fee).times(feeRate).toDecimalPlaces(2).toNumber(), feeCurrency: 'BRL' };
+      }
+    }
+
+    const brlUnitValue = toDecimal(trade.price).times(quoteRate).toNumber();
+    if (trade.type === 'income') {
+      transactions.push({ type: trade.incomeType ?? 'interest', date: trade.date, asset: trade.base, quantity: trade.quantity, value: brlUnitValue, ...fee });
+    } else if (!isSwap) {
+      transactions.push({ type: trade.type, date: trade.date, asset: trade.base, quantity: trade.quantity, value: brlUnitValue, ...fee });
+    } else if (trade.type === 'buy') {
+      transactions.push({
+        type: 'swap', date: trade.date, asset: trade.quote, quantity: quoteAmount.toNumber(), value: quoteRate.toNumber(),
+        toAsset: trade.base, toQuantity: trade.quantity, ...fee,
+      });
+    } else {
+      transactions.push({
+        type: 'swap', date: trade.date, asset: trade.base, quantity: trade.quantity, value: brlUnitValue,
+        toAsset: trade.quote, toQuantity: quoteAmount.toNumber(), ...fee,
+      });
+    }
+  }
+
+  return { transactions, errors };
+};
+
+/**
+ * Percorre as linhas com a função de leitura da exchange, que devolve a negociação, os erros da linha ou null
+ * para linhas que não geram transação.
+ */
+export const parseRecords = (records: CsvRecord[], parseRecord: (record: CsvRecord) => ExchangeTrade | string[] | null): ParsedExchangeFile => {
+  const result: ParsedExchangeFile = { trades: [], errors: [], ignored: 0 };
+  for (const record of records) {
+    const parsed = parseRecord(record);
+    if (parsed === null) result.ignored++;
+    else if (Array.isArray(parsed)) result.errors.push(...parsed);
+    else result.trades.push(parsed);
+  }
+  return result;
+};
+
+/**
+ * Validação comum dos campos de uma negociação. Retorna as mensagens de erro da linha.
+ */
+export const validateTrade = (trade: Partial<ExchangeTrade>, line: number, columns: { date: string; quantity: string; price: string }): string[] => {
+  const errors: string[] = [];
+  if (!trade.date) errors.push(`Linha ${line}: '${columns.date}' inválida ou ausente.`);
+  if (!trade.base || !trade.quote) errors.push(`Linha ${line}: par de negociação não reconhecido.`);
+  if (!(trade.quantity! > 0)) errors.push(`Linha ${line}: '${columns.quantity}' inválida ou ausente. Deve ser um número positivo.`);
+  if (trade.type !== 'income' && !(trade.price! > 0)) errors.push(`Linha ${line}: '${columns.price}' inválido ou ausente. Deve ser um número positivo.`);
+  if (trade.type === 'income' && !(trade.price! >= 0)) errors.push(`Linha ${line}: '${columns.price}' inválido. Deve ser um número maior ou igual a zero.`);
+  if (trade.fee !== undefined && !(trade.fee >= 0)) errors.push(`Linha ${line}: taxa inválida. Deve ser um número maior ou igual a zero.`);
+  return errors;
+};
+
+/**
+ * Divide um par sem separador ("BTCUSDT", "XXBTZUSD") pela moeda de cotação conhecida mais longa no final.
+ */
+export const splitPair = (pair: string, quotes: string[]): { base: string; quote: string } | null => {
+  const normalized = pair.toUpperCase().replace(/[\s/\-_]/g, '');
+  const quote = [...quotes].sort((a, b) => b.length - a.length).find(q => normalized.endsWith(q) && normalized.length > q.length);
+  return quote ? { base: normalized.slice(0, -quote.length), quote } : null;
+};
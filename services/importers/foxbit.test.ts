@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { parseExchangeCsv } from './index';
+import { convertTrades } from './common';
+
+const fixture = readFileSync(new URL('./fixtures/foxbit.csv', import.meta.url), 'utf8');
+
+test('lê o histórico da Foxbit com o lado em português ou inglês', () => {
+  const parsed = parseExchangeCsv(fixture);
+  assert.equal(parsed?.importer.id, 'foxbit');
+  assert.deepEqual(parsed?.result.errors, []);
+  assert.deepEqual(
+    parsed?.result.trades.map(({ date, type, base, quote, quantity, price, fee, feeAsset }) => ({ date, type, base, quote, quantity, price, fee, feeAsset })),
+    [
+      { date: '2024-01-15', type: 'buy', base: 'BTC', quote: 'BRL', quantity: 0.01, price: 210000, fee: 0.00005, feeAsset: 'BTC' },
+      { date: '2024-02-20', type: 'buy', base: 'USDT', quote: 'BRL', quantity: 500, price: 4.97, fee: 2.485, feeAsset: 'BRL' },
+      { date: '2024-03-05', type: 'sell', base: 'BTC', quote: 'BRL', quantity: 0.004, price: 340000, fee: 6.8, feeAsset: 'BRL' },
+    ]
+  );
+});
+
+test('taxa no ativo negociado fica em quantidade e taxa em reais fica em reais', () => {
+  const { transactions, errors } = convertTrades(parseExchangeCsv(fixture)!.result.trades, {});
+  assert.deepEqual(errors, []);
+  assert.deepEqual(
+    transactions.map(({ type, asset, value, fee, feeCurrency }) => ({ type, asset, value, fee, feeCurrency })),
+    [
+      { type: 'buy', asset: 'BTC', value: 210000, fee: 0.00005, feeCurrency: 'asset' },
+      // Compra de stablecoin em reais é compra, não permuta.
+      { type: 'buy', asset: 'USDT', value: 4.97, fee: 2.49, feeCurrency: 'BRL' },
+      { type: 'sell', asset: 'BTC', value: 340000, fee: 6.8, feeCurrency: 'BRL' },
+    ]
+  );
+});
@@ -0,0 +1,35 @@
+import type { ExchangeImporter, ExchangeTrade } from './common';
+import { parseDate, parseNumber, parseRecords, splitPair, validateTrade } from './common';
+
+const FOXBIT_QUOTES = ['BRL', 'USDT', 'USDC', 'BTC'];
+
+/**
+ * Histórico de ordens executadas da Foxbit, com instrumento sem separador ("BTCBRL") e lado em inglês ou português.
+ */
+export const foxbitImporter: ExchangeImporter = {
+  id: 'foxbit',
+  name: 'Foxbit',
+  detect: headers => headers.includes('Instrumento') && headers.includes('Lado') && headers.includes('Ativo da Taxa'),
+  parse: records => parseRecords(records, ({ line, values }) => {
+    const side = (values['Lado'] ?? '').trim().toLowerCase();
+    const type = side === 'compra' || side === 'buy' ? 'buy' : side === 'venda' || side === 'sell' ? 'sell' : null;
+    if (!type) return [`Linha ${line}: 'Lado' inválido. Deve ser 'Compra' ou 'Venda'.`];
+
+    const pair = splitPair(values['Instrumento'] ?? '', FOXBIT_QUOTES);
+    const fee = parseNumber(values['Taxa']);
+    const trade: Partial<ExchangeTrade> = {
+      line,
+      date: parseDate(values['Data/Hora'], true) ?? undefined,
+      type,
+      base: pair?.base,
+      quote: pair?.quote,
+      quantity: parseNumber(values['Quantidade']),
+      price: parseNumber(values['Preço']),
+      total: parseNumber(values['Valor Total']),
+      ...(isNaN(fee) ? {} : { fee, feeAsset: (values['Ativo da Taxa'] ?? '').trim().toUpperCase() || pair?.quote }),
+    };
+
+    const errors = validateTrade(trade, line, { date: 'Data/Hora', quantity: 'Quantidade', price: 'Preço' });
+    return errors.length > 0 ? errors : (trade as ExchangeTrade);
+  }),
+};
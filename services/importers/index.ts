@@ -0,0 +1,60 @@
+import type { Transaction } from '../../types';
+import type { CsvRecord, ExchangeImporter, ParsedExchangeFile, QuoteRates } from './common';
+import { convertTrades, getRequiredQuoteCurrencies, parseCsv } from './common';
+import { binanceImporter } from './binance';
+import { mercadoBitcoinImporter } from './mercadoBitcoin';
+import { foxbitImporter } from './foxbit';
+import { coinbaseImporter } from './coinbase';
+import { krakenImporter } from './kraken';
+
+export type { ExchangeImporter, ParsedExchangeFile, QuoteRates } from './common';
+
+/**
+ * Importadores disponíveis, na ordem em que são testados. Para suportar uma nova exchange, basta registrar aqui
+ * um `ExchangeImporter` que reconheça os cabeçalhos do extrato e converta suas linhas.
+ */
+export const EXCHANGE_IMPORTERS: ExchangeImporter[] = [
+  binanceImporter,
+  mercadoBitcoinImporter,
+  foxbitImporter,
+  coinbaseImporter,
+  krakenImporter,
+];
+
+/**
+ * Quantas linhas do início do arquivo são examinadas em busca do cabeçalho (a Coinbase põe um texto antes dele).
+ */
+const HEADER_SEARCH_LINES = 15;
+
+/**
+ * Reconhece a exchange pelo cabeçalho do CSV e lê suas negociações. Retorna null quando nenhum importador reconhece o arquivo.
+ */
+export const parseExchangeCsv = (text: string): { importer: ExchangeImporter; result: ParsedExchangeFile } | null => {
+  const rows = parseCsv(text);
+  for (let headerIndex = 0; headerIndex < Math.min(rows.length, HEADER_SEARCH_LINES); headerIndex++) {
+    const headers = rows[headerIndex].map(header => header.trim());
+    const importer = EXCHANGE_IMPORTERS.find(candidate => candidate.detect(headers));
+    if (!importer) continue;
+
+    const records: CsvRecord[] = rows
+      .map((row, index) => ({ line: index + 1, values: Object.fromEntries(headers.map((header, column) => [header, row[column] ?? ''])) }))
+      .slice(headerIndex + 1)
+      .filter(record => Object.values(record.values).some(value => value.trim() !== ''));
+    return { importer, result: importer.parse(records) };
+  }
+  return null;
+};
+
+/**
+ * Converte o resultado da leitura em transações, buscando antes as cotações em BRL das moedas estrangeiras
+ * e dos criptoativos usados como cotação ou taxa.
+ */
+export const convertExchangeTrades = async (
+  parsed: ParsedExchangeFile,
+  loadQuoteRates: (earliestDates: Record<string, string>) => Promise<QuoteRates>
+): Promise<{ transactions: Omit<Transaction, 'id'>[]; errors: string[] }> => {
+  const required = getRequiredQuoteCurrencies(parsed.trades);
+  const rates = Object.keys(required).length > 0 ? await loadQuoteRates(required) : {};
+  const { transactions, errors } = convertTrades(parsed.trades, rates);
+  return { transactions, errors: [...parsed.errors, ...errors] };
+};
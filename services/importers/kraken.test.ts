@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { parseExchangeCsv } from './index';
+import { convertTrades } from './common';
+
+const fixture = readFileSync(new URL('./fixtures/kraken.csv', import.meta.url), 'utf8');
+
+test('lê o histórico da Kraken normalizando os códigos de ativo', () => {
+  const parsed = parseExchangeCsv(fixture);
+  assert.equal(parsed?.importer.id, 'kraken');
+  assert.deepEqual(parsed?.result.errors, []);
+  assert.equal(parsed?.result.ignored, 0);
+  assert.deepEqual(
+    parsed?.result.trades.map(({ type, base, quote, quantity, total, feeAsset }) => ({ type, base, quote, quantity, total, feeAsset })),
+    [
+      { type: 'buy', base: 'BTC', quote: 'EUR', quantity: 0.01, total: 390, feeAsset: 'EUR' },
+      { type: 'buy', base: 'ETH', quote: 'USD', quantity: 0.5, total: 1150, feeAsset: 'USD' },
+      { type: 'sell', base: 'SOL', quote: 'EUR', quantity: 5, total: 800, feeAsset: 'EUR' },
+      { type: 'sell', base: 'BTC', quote: 'USDT', quantity: 0.005, total: 330, feeAsset: 'USDT' },
+    ]
+  );
+});
+
+test('venda cotada em stablecoin vira permuta e a falta de cotação é reportada na linha', () => {
+  const trades = parseExchangeCsv(fixture)!.result.trades;
+  const { transactions, errors } = convertTrades(trades, { EUR: null, USD: { '2024-02-03': 5 }, USDT: { '2024-04-02': 5 } });
+
+  assert.deepEqual(errors, [
+    'Linha 2: sem cotação de EUR em BRL para 15/01/2024.',
+    'Linha 4: sem cotação de EUR em BRL para 20/03/2024.',
+  ]);
+  assert.deepEqual(transactions, [
+    { type: 'buy', date: '2024-02-03', asset: 'ETH', quantity: 0.5, value: 11500, fee: 14.95, feeCurrency: 'BRL' },
+    {
+      type: 'swap', date: '2024-04-02', asset: 'BTC', quantity: 0.005, value: 330000,
+      toAsset: 'USDT', toQuantity: 330, fee: 4.29, feeCurrency: 'BRL',
+    },
+  ]);
+});
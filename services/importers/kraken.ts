@@ -0,0 +1,48 @@
+import type { ExchangeImporter, ExchangeTrade } from './common';
+import { parseDate, parseNumber, parseRecords, splitPair, validateTrade } from './common';
+
+// Códigos legados da Kraken para ativos e moedas ("XXBT", "ZUSD").
+const KRAKEN_ASSET_CODES: Record<string, string> = {
+  XXBT: 'BTC', XBT: 'BTC', XETH: 'ETH', XXDG: 'DOGE', XDG: 'DOGE', XXRP: 'XRP', XLTC: 'LTC', XXLM: 'XLM', XETC: 'ETC',
+  XXMR: 'XMR', XZEC: 'ZEC', XREP: 'REP', XMLN: 'MLN',
+  ZUSD: 'USD', ZEUR: 'EUR', ZGBP: 'GBP', ZCAD: 'CAD', ZJPY: 'JPY', ZCHF: 'CHF', ZAUD: 'AUD',
+};
+
+const KRAKEN_QUOTES = ['ZUSD', 'ZEUR', 'ZGBP', 'ZCAD', 'ZJPY', 'ZCHF', 'ZAUD', 'USD', 'EUR', 'GBP', 'CAD', 'JPY', 'CHF', 'AUD', 'USDT', 'USDC', 'DAI', 'XXBT', 'XBT', 'XETH', 'ETH'];
+
+const normalizeAsset = (code: string): string => KRAKEN_ASSET_CODES[code] ?? code;
+
+/**
+ * Arquivo trades.csv da Kraken. O par vem como "XXBTZUSD", "SOLEUR" ou "XBT/USD"; a taxa e o custo ("cost")
+ * estão na moeda de cotação.
+ */
+export const krakenImporter: ExchangeImporter = {
+  id: 'kraken',
+  name: 'Kraken',
+  detect: headers => headers.includes('txid') && headers.includes('pair') && headers.includes('vol') && headers.includes('cost'),
+  parse: records => parseRecords(records, ({ line, values }) => {
+    const side = (values['type'] ?? '').trim().toLowerCase();
+    if (side !== 'buy' && side !== 'sell') return [`Linha ${line}: 'type' inválido. Deve ser buy ou sell.`];
+
+    const rawPair = (values['pair'] ?? '').trim().toUpperCase();
+    const pair = rawPair.includes('/')
+      ? { base: rawPair.split('/')[0], quote: rawPair.split('/')[1] }
+      : splitPair(rawPair, KRAKEN_QUOTES);
+    const quote = pair ? normalizeAsset(pair.quote) : undefined;
+    const fee = parseNumber(values['fee']);
+    const trade: Partial<ExchangeTrade> = {
+      line,
+      date: parseDate(values['time']) ?? undefined,
+      type: side,
+      base: pair ? normalizeAsset(pair.base) : undefined,
+      quote,
+      quantity: parseNumber(values['vol']),
+      price: parseNumber(values['price']),
+      total: parseNumber(values['cost']),
+      ...(isNaN(fee) ? {} : { fee, feeAsset: quote }),
+    };
+
+    const errors = validateTrade(trade, line, { date: 'time', quantity: 'vol', price: 'price' });
+    return errors.length > 0 ? errors : (trade as ExchangeTrade);
+  }),
+};
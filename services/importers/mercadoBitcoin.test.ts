@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { parseExchangeCsv } from './index';
+import { convertTrades } from './common';
+
+const fixture = readFileSync(new URL('./fixtures/mercado-bitcoin.csv', import.meta.url), 'utf8');
+
+test('lê o extrato do Mercado Bitcoin com ponto e vírgula e números no formato brasileiro', () => {
+  const parsed = parseExchangeCsv(fixture);
+  assert.equal(parsed?.importer.id, 'mercado-bitcoin');
+  assert.deepEqual(parsed?.result.errors, []);
+  assert.deepEqual(
+    parsed?.result.trades.map(({ type, base, quote, quantity, price, total, fee, feeAsset }) => ({ type, base, quote, quantity, price, total, fee, feeAsset })),
+    [
+      { type: 'buy', base: 'BTC', quote: 'BRL', quantity: 0.01, price: 210000, total: 2100, fee: 0.00007, feeAsset: 'BTC' },
+      { type: 'buy', base: 'ETH', quote: 'BRL', quantity: 0.25, price: 11500, total: 2875, fee: 0.00175, feeAsset: 'ETH' },
+      { type: 'sell', base: 'BTC', quote: 'BRL', quantity: 0.005, price: 330000, total: 1650, fee: 11.55, feeAsset: 'BRL' },
+    ]
+  );
+});
+
+test('converte as negociações em reais mantendo a moeda de cada taxa', () => {
+  const { transactions, errors } = convertTrades(parseExchangeCsv(fixture)!.result.trades, {});
+  assert.deepEqual(errors, []);
+  assert.deepEqual(transactions, [
+    { type: 'buy', date: '2024-01-15', asset: 'BTC', quantity: 0.01, value: 210000, fee: 0.00007, feeCurrency: 'asset' },
+    { type: 'buy', date: '2024-02-02', asset: 'ETH', quantity: 0.25, value: 11500, fee: 0.00175, feeCurrency: 'asset' },
+    { type: 'sell', date: '2024-03-10', asset: 'BTC', quantity: 0.005, value: 330000, fee: 11.55, feeCurrency: 'BRL' },
+  ]);
+});
@@ -0,0 +1,33 @@
+import type { ExchangeImporter, ExchangeTrade } from './common';
+import { parseDate, parseNumber, parseRecords, validateTrade } from './common';
+
+/**
+ * Extrato de negociações do Mercado Bitcoin: separado por ponto e vírgula, números no formato brasileiro
+ * e par no formato "BTC-BRL".
+ */
+export const mercadoBitcoinImporter: ExchangeImporter = {
+  id: 'mercado-bitcoin',
+  name: 'Mercado Bitcoin',
+  detect: headers => headers.includes('Tipo de Operação') && headers.includes('Par') && headers.includes('Preço Unitário'),
+  parse: records => parseRecords(records, ({ line, values }) => {
+    const operation = (values['Tipo de Operação'] ?? '').trim().toLowerCase();
+    if (operation !== 'compra' && operation !== 'venda') return [`Linha ${line}: 'Tipo de Operação' inválido. Deve ser 'Compra' ou 'Venda'.`];
+
+    const [base, quote] = (values['Par'] ?? '').toUpperCase().split(/[-/]/).map(part => part.trim());
+    const fee = parseNumber(values['Taxa'], 'pt');
+    const trade: Partial<ExchangeTrade> = {
+      line,
+      date: parseDate(values['Data'], true) ?? undefined,
+      type: operation === 'compra' ? 'buy' : 'sell',
+      base: base || undefined,
+      quote: quote || undefined,
+      quantity: parseNumber(values['Quantidade'], 'pt'),
+      price: parseNumber(values['Preço Unitário'], 'pt'),
+      total: parseNumber(values['Total'], 'pt'),
+      ...(isNaN(fee) ? {} : { fee, feeAsset: (values['Moeda da Taxa'] || quote || '').trim().toUpperCase() }),
+    };
+
+    const errors = validateTrade(trade, line, { date: 'Data', quantity: 'Quantidade', price: 'Preço Unitário' });
+    return errors.length > 0 ? errors : (trade as ExchangeTrade);
+  }),
+};
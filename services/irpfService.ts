@@ -0,0 +1,81 @@
+import type { BensDireitosItem, BensDireitosReport } from '../types';
+import { getLedgerStateAt, type Ledger, type LedgerPosition } from './ledgerService';
+import { COST_BASIS_METHOD_LABELS } from './costBasisService';
+import { ZERO, sumDecimals } from './decimal';
+
+/**
+ * Grupo da ficha "Bens e Direitos" do IRPF para criptoativos.
+ */
+export const BENS_DIREITOS_GROUP = '08';
+
+export const BENS_DIREITOS_CODE_LABELS: Record<string, string> = {
+  '01': 'Criptoativo Bitcoin (BTC)',
+  '02': 'Outros criptoativos do tipo moeda digital (altcoins)',
+  '03': 'Criptoativos conhecidos como stablecoins',
+};
+
+/**
+ * Stablecoins mais comuns, declaradas no código 08.03. Os demais criptoativos, exceto o Bitcoin, vão no código 08.02.
+ */
+const STABLECOINS = new Set([
+  'USDT', 'USDC', 'BUSD', 'DAI', 'TUSD', 'USDP', 'FDUSD', 'PYUSD', 'USDD', 'GUSD', 'FRAX', 'LUSD', 'USDE', 'EURC', 'EURT', 'BRZ', 'BRLA',
+]);
+
+export const getBensDireitosCode = (symbol: string): string => {
+  if (symbol === 'BTC') return '01';
+  return STABLECOINS.has(symbol) ? '03' : '02';
+};
+
+const formatQuantity = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 8 });
+const formatBRL = (value: number) => `R$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const buildDescription = (symbol: string, year: number, quantity: number, cost: number, methodLabel: string): string => {
+  if (quantity <= 0) {
+    return `${symbol}: posição encerrada durante ${year}, sem saldo em 31/12/${year}.`;
+  }
+  return `${formatQuantity(quantity)} ${symbol} em 31/12/${year}, com custo de aquisição de ${formatBRL(cost)} `
+    + `(custo médio de ${formatBRL(cost / quantity)} por unidade, apurado pelo método ${methodLabel}).`;
+};
+
+/**
+ * Posições a custo em 31/12 do ano anterior e do ano informado, prontas para a ficha "Bens e Direitos".
+ * Ativos sem saldo nas duas datas ficam de fora; os que foram zerados no ano aparecem com situação atual zero.
+ */
+export const calculateBensDireitosReport = (ledger: Ledger, year: number): BensDireitosReport => {
+  const previousPositions = getLedgerStateAt(ledger, `${year - 1}-12-31`)?.positions ?? new Map<string, LedgerPosition>();
+  const currentPositions = getLedgerStateAt(ledger, `${year}-12-31`)?.positions ?? new Map<string, LedgerPosition>();
+  const methodLabel = COST_BASIS_METHOD_LABELS[ledger.method];
+
+  const symbols = new Set<string>();
+  for (const positions of [previousPositions, currentPositions]) {
+    for (const [symbol, position] of positions.entries()) {
+      if (position.quantity.gt(0)) symbols.add(symbol);
+    }
+  }
+
+  const items: BensDireitosItem[] = Array.from(symbols).map(symbol => {
+    const previous = previousPositions.get(symbol);
+    const current = currentPositions.get(symbol);
+    const currentQuantity = current?.quantity.toNumber() ?? 0;
+    const currentCost = current?.cost.toNumber() ?? 0;
+    return {
+      symbol,
+      group: BENS_DIREITOS_GROUP,
+      code: getBensDireitosCode(symbol),
+      previousQuantity: previous?.quantity.toNumber() ?? 0,
+      previousCost: previous?.cost.toNumber() ?? 0,
+      currentQuantity,
+      currentCost,
+      description: buildDescription(symbol, year, currentQuantity, currentCost, methodLabel),
+    };
+  });
+
+  items.sort((a, b) => a.code.localeCompare(b.code) || a.symbol.localeCompare(b.symbol));
+
+  return {
+    year,
+    items,
+    totalPreviousCost: sumDecimals(Array.from(symbols).map(symbol => previousPositions.get(symbol)?.cost ?? ZERO)).toNumber(),
+    totalCurrentCost: sumDecimals(Array.from(symbols).map(symbol => currentPositions.get(symbol)?.cost ?? ZERO)).toNumber(),
+  };
+};
@@ -0,0 +1,205 @@
+import type { StorageUsage } from '../types';
+
+/**
+ * Chaves grandes demais para a cota de ~5MB do localStorage, guardadas no IndexedDB.
+ * `encryptedVault` é o cofre da criptografia, que contém as contas quando ela está ativa.
+ */
+export const LARGE_KEYS = ['accounts', 'historicalPrices', 'chatHistory', 'encryptedVault'];
+
+export const LARGE_KEY_LABELS: Record<string, string> = {
+  accounts: 'Contas e transações',
+  historicalPrices: 'Histórico de preços',
+  chatHistory: 'Histórico do chat',
+  encryptedVault: 'Dados criptografados',
+};
+
+const DB_NAME = 'criptofolio';
+const DB_VERSION = 1;
+const STORE_NAME = 'keyval';
+
+// Cópia em memória de tudo que está no IndexedDB, carregada antes de o app montar, para leituras síncronas.
+const cache = new Map<string, unknown>();
+const dirtyKeys = new Set<string>();
+let db: IDBDatabase | null = null;
+let writeQueued = false;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+export const isLargeKey = (key: string) => LARGE_KEYS.includes(key);
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) request.result.createObjectStore(STORE_NAME);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error('O banco de dados está bloqueado por outra aba.'));
+});
+
+/**
+ * Move as chaves grandes que ainda estejam no localStorage para o IndexedDB, removendo-as do localStorage só
+ * depois de gravadas. Na prática roda uma vez; depois só encontra algo se o IndexedDB tiver falhado numa sessão anterior.
+ */
+const migrateFromLocalStorage = async (database: IDBDatabase) => {
+  if (!LARGE_KEYS.some(key => window.localStorage.getItem(key) !== null)) return;
+  const transaction = database.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  const migratedKeys: string[] = [];
+  LARGE_KEYS.forEach(key => {
+    const item = window.localStorage.getItem(key);
+    if (item === null) return;
+    try {
+      store.put(JSON.parse(item), key);
+      migratedKeys.push(key);
+    } catch (error) {
+      console.error(`Valor inválido em "${key}" não foi migrado:`, error);
+    }
+  });
+  await transactionDone(transaction);
+  migratedKeys.forEach(key => window.localStorage.removeItem(key));
+};
+
+/**
+ * Abre o IndexedDB, migra os dados antigos e carrega tudo para a memória. Deve rodar antes de o App montar.
+ * Se o IndexedDB não estiver disponível (como em algumas janelas anônimas), as chaves grandes continuam no localStorage.
+ */
+export const initLargeStorage = async (): Promise<void> => {
+  try {
+    if (!window.indexedDB) return;
+    const database = await openDatabase();
+    await migrateFromLocalStorage(database);
+    const transaction = database.transaction(STORE_NAME, 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const [keys, values] = await Promise.all([requestToPromise(store.getAllKeys()), requestToPromise(store.getAll())]);
+    keys.forEach((key, index) => cache.set(String(key), values[index]));
+    db = database;
+  } catch (error) {
+    console.error('IndexedDB indisponível; usando o localStorage:', error);
+    db = null;
+  }
+};
+
+export const isIndexedDbActive = (): boolean => db !== null;
+
+const writeDirtyKeys = async () => {
+  if (!db || dirtyKeys.size === 0) return;
+  const keys = Array.from(dirtyKeys);
+  dirtyKeys.clear();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  keys.forEach(key => {
+    if (cache.has(key)) store.put(cache.get(key), key);
+    else store.delete(key);
+  });
+  await transactionDone(transaction);
+};
+
+// Gravações em sequência, agrupando numa só transação as alterações feitas enquanto a anterior ainda roda.
+const schedulePersist = (key: string) => {
+  dirtyKeys.add(key);
+  if (writeQueued) return;
+  writeQueued = true;
+  pendingWrite = pendingWrite
+    .then(() => {
+      writeQueued = false;
+      return writeDirtyKeys();
+    })
+    .catch(error => console.error('Falha ao gravar no IndexedDB:', error));
+};
+
+/**
+ * Lê o valor de uma chave grande. Retorna undefined se ela não existir.
+ */
+export const getLargeItem = <T>(key: string): T | undefined => {
+  if (db) return cache.get(key) as T | undefined;
+  try {
+    const item = window.localStorage.getItem(key);
+    return item === null ? undefined : (JSON.parse(item) as T);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Grava o valor na memória na hora e no IndexedDB em segundo plano, sem convertê-lo para JSON.
+ */
+export const setLargeItem = <T>(key: string, value: T): void => {
+  if (!db) {
+    window.localStorage.setItem(key, JSON.stringify(value));
+    return;
+  }
+  cache.set(key, value);
+  schedulePersist(key);
+};
+
+export const removeLargeItem = (key: string): void => {
+  if (!db) {
+    window.localStorage.removeItem(key);
+    return;
+  }
+  cache.delete(key);
+  schedulePersist(key);
+};
+
+/**
+ * Atualiza só a memória com um valor que outra aba já gravou no IndexedDB.
+ */
+export const applyRemoteLargeItem = (key: string, value: unknown): void => {
+  if (!db) return;
+  if (value === undefined) cache.delete(key);
+  else cache.set(key, value);
+};
+
+/**
+ * Relê uma chave do IndexedDB, descartando a cópia em memória, que pode ter ficado velha se outra aba a gravou.
+ */
+export const reloadLargeItem = async (key: string): Promise<void> => {
+  if (!db) return;
+  const value = await requestToPromise(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key));
+  if (dirtyKeys.has(key)) return;
+  applyRemoteLargeItem(key, value);
+};
+
+/**
+ * Aguarda a gravação das últimas alterações no IndexedDB. Chame antes de recarregar a página.
+ */
+export const flushLargeStorage = (): Promise<void> => pendingWrite;
+
+// Tamanho aproximado: o JSON em UTF-16, como o localStorage o guardaria.
+const estimateBytes = (value: unknown) => (value === undefined ? 0 : JSON.stringify(value).length * 2);
+
+/**
+ * Mede o espaço ocupado pelo localStorage e por cada chave grande, e a cota informada pelo navegador.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  let localStorageBytes = 0;
+  for (let i = 0; i < window.localStorage.length; i++) {
+    const key = window.localStorage.key(i);
+    if (key !== null) localStorageBytes += (key.length + (window.localStorage.getItem(key)?.length ?? 0)) * 2;
+  }
+  const keys = LARGE_KEYS
+    .map(key => ({ key, bytes: estimateBytes(getLargeItem(key)) }))
+    .filter(entry => entry.bytes > 0)
+    .sort((a, b) => b.bytes - a.bytes);
+  let usage: number | null = null;
+  let quota: number | null = null;
+  try {
+    const estimate = await navigator.storage?.estimate();
+    usage = estimate?.usage ?? null;
+    quota = estimate?.quota ?? null;
+  } catch {
+    // Sem a API de estimativa, o painel mostra só os tamanhos calculados.
+  }
+  return { indexedDbActive: db !== null, localStorageBytes, keys, usage, quota };
+};
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Account, CostBasisMethod, Transaction } from '../types';
+import { appendToLedger, buildLedger, calculateTransferCosts, getFinalPositions, type Ledger } from './ledgerService';
+import { resolveTransfers } from './transferService';
+
+// Quantidades e valores como números, para comparar livros-razão montados por caminhos diferentes.
+const snapshot = (ledger: Ledger) => ({
+  events: ledger.events.map(event => ({
+    id: event.tx.id, asset: event.tx.asset, quantityIn: Number(event.quantityIn), costIn: Number(event.costIn),
+    quantityOut: Number(event.quantityOut), costOut: Number(event.costOut), proceeds: Number(event.proceeds),
+  })),
+  states: ledger.states.map(state => ({
+    date: state.date,
+    positions: Array.from(state.positions, ([asset, position]) => ({
+      asset, quantity: Number(position.quantity), cost: Number(position.cost), realizedProfit: Number(position.realizedProfit),
+    })),
+  })),
+});
+
+const position = (ledger: Ledger, asset: string) => {
+  const { quantity, cost, realizedProfit } = getFinalPositions(ledger).get(asset)!;
+  return { quantity: Number(quantity), cost: Number(cost), realizedProfit: Number(realizedProfit) };
+};
+
+const assertClose = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-6, `${actual} ≠ ${expected}`);
+
+test('acrescentar uma transação por vez chega ao mesmo livro-razão que remontá-lo do zero', () => {
+  const transactions: Transaction[] = [
+    { id: 1, type: 'buy', date: '2024-01-10', asset: 'BTC', quantity: 1, value: 100000, fee: 50 },
+    { id: 2, type: 'swap', date: '2024-02-10', asset: 'BTC', quantity: 0.25, value: 120000, toAsset: 'ETH', toQuantity: 2 },
+    { id: 3, type: 'transfer', date: '2024-03-01', asset: 'ETH', quantity: 1, value: 0, toAccountId: 2, transferId: 't1' },
+    { id: -1, type: 'transfer_in', date: '2024-03-01', asset: 'ETH', quantity: 1, value: 15000, fromAccountId: 1, transferId: 't1' },
+    { id: 4, type: 'sell', date: '2024-04-05', asset: 'ETH', quantity: 0.5, value: 20000 },
+    // Anterior ao último evento: o histórico muda e o livro-razão é remontado.
+    { id: 5, type: 'buy', date: '2024-01-20', asset: 'BTC', quantity: 0.5, value: 110000 },
+  ];
+
+  let ledger = buildLedger([]);
+  for (const [index, tx] of transactions.entries()) {
+    const previous = ledger;
+    ledger = appendToLedger(ledger, tx);
+    assert.deepEqual(snapshot(ledger), snapshot(buildLedger(transactions.slice(0, index + 1))));
+    // Em ordem, os estados anteriores são reaproveitados em vez de recalculados.
+    if (index > 0 && index < transactions.length - 1) assert.equal(ledger.states[0], previous.states[0]);
+  }
+});
+
+test('a permuta vende o ativo entregue e compra o recebido pelo mesmo valor em reais', () => {
+  const ledger = buildLedger([
+    { id: 1, type: 'buy', date: '2024-01-10', asset: 'BTC', quantity: 1, value: 100000 },
+    { id: 2, type: 'swap', date: '2024-02-10', asset: 'BTC', quantity: 0.5, value: 300000, toAsset: 'ETH', toQuantity: 10, fee: 300 },
+  ]);
+
+  // A taxa em reais reduz o valor recebido pela venda do BTC, não o custo do ETH.
+  assert.deepEqual(position(ledger, 'BTC'), { quantity: 0.5, cost: 50000, realizedProfit: 99700 });
+  assert.deepEqual(position(ledger, 'ETH'), { quantity: 10, cost: 150000, realizedProfit: 0 });
+  assert.deepEqual(ledger.events.map(event => event.tx.id), [1, 2, 2]);
+});
+
+test('cada método de custo escolhe os lotes vendidos', () => {
+  const transactions: Transaction[] = [
+    { id: 1, type: 'buy', date: '2024-01-10', asset: 'BTC', quantity: 1, value: 100 },
+    { id: 2, type: 'buy', date: '2024-02-10', asset: 'BTC', quantity: 1, value: 300 },
+    { id: 3, type: 'buy', date: '2024-03-10', asset: 'BTC', quantity: 1, value: 200 },
+    { id: 4, type: 'sell', date: '2024-04-10', asset: 'BTC', quantity: 1.5, value: 500 },
+  ];
+  const expected: Record<CostBasisMethod, { cost: number; realizedProfit: number }> = {
+    fifo: { cost: 350, realizedProfit: 500 }, // vende 1 a 100 e 0,5 a 300
+    lifo: { cost: 250, realizedProfit: 400 }, // vende 1 a 200 e 0,5 a 300
+    hifo: { cost: 200, realizedProfit: 350 }, // vende 1 a 300 e 0,5 a 200
+    average: { cost: 300, realizedProfit: 450 }, // vende 1,5 a 200
+  };
+
+  for (const [method, { cost, realizedProfit }] of Object.entries(expected)) {
+    const result = position(buildLedger(transactions, method as CostBasisMethod), 'BTC');
+    assertClose(result.quantity, 1.5);
+    assertClose(result.cost, cost);
+    assertClose(result.realizedProfit, realizedProfit);
+  }
+});
+
+test('a transferência leva os lotes da origem, com data e custo, pelo método da conta de origem', () => {
+  const accounts: Account[] = [
+    {
+      id: 1, name: 'Corretora', costBasisMethod: 'fifo', transactions: [
+        { id: 1, type: 'buy', date: '2024-01-10', asset: 'BTC', quantity: 1, value: 100 },
+        { id: 2, type: 'buy', date: '2024-02-10', asset: 'BTC', quantity: 1, value: 300 },
+        { id: 3, type: 'transfer', date: '2024-03-01', asset: 'BTC', quantity: 1, value: 0, fee: 0.01, feeCurrency: 'asset', toAccountId: 2, transferId: 't1' },
+      ],
+    },
+    {
+      id: 2, name: 'Carteira', transactions: [
+        { id: 4, type: 'sell', date: '2024-04-10', asset: 'BTC', quantity: 0.99, value: 500 },
+      ],
+    },
+  ];
+
+  assertClose(Number(calculateTransferCosts(accounts, 'average').get('t1')), 100);
+
+  // Só a carteira: a entrada derivada traz a quantidade recebida e o custo do lote mais antigo da origem.
+  const wallet = position(buildLedger(resolveTransfers(accounts, [2], 'average')), 'BTC');
+  assertClose(wallet.quantity, 0);
+  assertClose(wallet.realizedProfit, 0.99 * 500 - 100);
+
+  // Visão consolidada: transferir não realiza lucro e os lotes mantêm a data de compra.
+  const consolidated = buildLedger(resolveTransfers(accounts, [1, 2], 'average'), 'fifo');
+  const { lots } = getFinalPositions(consolidated).get('BTC')!;
+  assert.deepEqual(lots.map(lot => lot.date), ['2024-02-10']);
+  assertClose(position(consolidated, 'BTC').realizedProfit, 0.99 * 500 - 100);
+  const afterTransfer = consolidated.states.find(state => state.date === '2024-03-01' && state.positions.get('BTC')!.lots.length === 2)!;
+  assert.deepEqual(afterTransfer.positions.get('BTC')!.lots.map(lot => lot.date), ['2024-02-10', '2024-01-10']);
+});
@@ -0,0 +1,290 @@
+import type { Account, Transaction, CostBasisMethod } from '../types';
+import { isAcquisition } from './transactionTypes';
+import { DEFAULT_COST_BASIS_METHOD, getLotsCost, getLotsQuantity, removeFromLots, type Lot } from './costBasisService';
+import { Decimal, ZERO, maxDecimal, roundAmount, roundQuantity, toDecimal } from './decimal';
+
+// Position of one asset after a ledger event. Totals are cumulative since the first transaction.
+export interface LedgerPosition {
+    readonly lots: readonly Lot[];
+    readonly quantity: Decimal;
+    readonly cost: Decimal;
+    readonly totalBought: Decimal;
+    readonly totalCostBought: Decimal;
+    readonly totalSold: Decimal;
+    readonly realizedProfit: Decimal;
+}
+
+// One replayed movement. Swaps produce two events (the sell leg and the buy leg) sharing the transaction id.
+export interface LedgerEvent {
+    readonly tx: Transaction;
+    readonly quantityIn: Decimal;
+    readonly costIn: Decimal;
+    readonly quantityOut: Decimal; // Quantity requested, even if the position was smaller
+    readonly costOut: Decimal;
+    readonly proceeds: Decimal; // Sells only, net of BRL fees
+    readonly saleValue: Decimal; // Sells only, gross amount used for the monthly exemption threshold
+}
+
+// Portfolio right after an event. Positions that did not change are shared with the previous state.
+export interface LedgerState {
+    readonly date: string;
+    readonly positions: ReadonlyMap<string, LedgerPosition>;
+}
+
+export interface Ledger {
+    readonly method: CostBasisMethod;
+    readonly transactions: readonly Transaction[]; // Input, in the order received
+    readonly events: readonly LedgerEvent[]; // Chronological; events[i] produced states[i]
+    readonly states: readonly LedgerState[];
+    readonly carriedLots: ReadonlyMap<string, readonly Lot[]>; // Lots in transit, keyed by transferId
+}
+
+// A transaction as replayed. The gross BRL amount is kept exact even for the buy leg of a swap,
+// whose per-unit value would otherwise have to be rounded into the synthesized transaction.
+interface Leg {
+    readonly tx: Transaction;
+    readonly grossAmount: Decimal;
+}
+
+const EMPTY_POSITION: LedgerPosition = Object.freeze({
+    lots: [], quantity: ZERO, cost: ZERO, totalBought: ZERO, totalCostBought: ZERO, totalSold: ZERO, realizedProfit: ZERO,
+});
+
+const getGrossAmount = (tx: Transaction): Decimal => toDecimal(tx.quantity).times(toDecimal(tx.value));
+
+// Splits swaps into a disposal of the asset given and an acquisition of the asset received,
+// both valued at the single BRL valuation of the trade. Other transactions pass through unchanged.
+const expandSwaps = (transactions: readonly Transaction[]): Leg[] => transactions.flatMap(tx => {
+    const grossAmount = getGrossAmount(tx);
+    if (tx.type !== 'swap') return [{ tx, grossAmount }];
+
+    const disposal: Transaction = {
+        id: tx.id, type: 'sell', date: tx.date, asset: tx.asset, quantity: tx.quantity, value: tx.value,
+        fee: tx.fee, feeCurrency: tx.feeCurrency,
+    };
+    const toQuantity = tx.toQuantity || 0;
+    if (!tx.toAsset || toQuantity <= 0) return [{ tx: disposal, grossAmount }];
+
+    const acquisition: Transaction = {
+        id: tx.id, type: 'buy', date: tx.date, asset: tx.toAsset, quantity: toQuantity,
+        value: grossAmount.div(toDecimal(toQuantity)).toNumber(),
+    };
+    return [{ tx: disposal, grossAmount }, { tx: acquisition, grossAmount }];
+});
+
+// Stable chronological order on a copy; transactions of the same day keep their input order,
+// so outgoing transfers stay ahead of the incoming entries derived from them.
+const sortLegs = (transactions: readonly Transaction[]): Leg[] =>
+    expandSwaps(transactions).sort((a, b) => a.tx.date.localeCompare(b.tx.date));
+
+const getFees = (tx: Transaction): { assetFee: Decimal; brlFee: Decimal } => {
+    const fee = tx.fee && tx.fee > 0 ? toDecimal(tx.fee) : ZERO;
+    return tx.feeCurrency === 'asset' ? { assetFee: fee, brlFee: ZERO } : { assetFee: ZERO, brlFee: fee };
+};
+
+// Net effect of a trade on the position, including fees.
+// Acquisitions (buys and income received at fair value): an asset fee reduces the quantity received and a BRL fee increases the cost.
+// Sells: an asset fee leaves the position on top of the sold quantity and a BRL fee reduces the proceeds.
+const getNetTradeAmounts = ({ tx, grossAmount }: Leg): { quantity: Decimal; amountBRL: Decimal } => {
+    const { assetFee, brlFee } = getFees(tx);
+    const quantity = toDecimal(tx.quantity);
+
+    if (isAcquisition(tx)) {
+        return { quantity: maxDecimal(quantity.minus(assetFee), ZERO), amountBRL: grossAmount.plus(brlFee) };
+    }
+    return { quantity: quantity.plus(assetFee), amountBRL: grossAmount.minus(brlFee) };
+};
+
+// Quantity that reaches the destination account: the amount debited minus a network fee paid in the asset.
+export const getTransferReceivedQuantity = (tx: Transaction): Decimal =>
+    maxDecimal(toDecimal(tx.quantity).minus(getFees(tx).assetFee), ZERO);
+
+// Lots that arrive at the destination of a transfer: the lots removed from the source, keeping their dates.
+// An asset network fee shrinks every lot proportionally without changing its total cost, and a BRL fee is
+// spread over the lots in proportion to their cost (or quantity, when they carry no cost).
+const toTransferredLots = (tx: Transaction, removed: readonly Lot[]): Lot[] => {
+    const removedQuantity = getLotsQuantity(removed);
+    if (removedQuantity.lte(0)) return [];
+    const receivedQuantity = getTransferReceivedQuantity(tx);
+    const received = receivedQuantity.lt(removedQuantity) ? receivedQuantity : removedQuantity;
+    const { brlFee } = getFees(tx);
+    const removedCost = getLotsCost(removed);
+
+    // The last lot takes what the divisions left over, so the lots add up to exactly what was received.
+    let quantityLeft = received;
+    let feeLeft = brlFee;
+    return removed
+        .map((lot, index) => {
+            const isLast = index === removed.length - 1;
+            const quantity = isLast ? quantityLeft : roundQuantity(lot.quantity.times(received).div(removedQuantity));
+            const fee = isLast ? feeLeft : roundAmount(removedCost.gt(0)
+                ? brlFee.times(lot.cost).div(removedCost)
+                : brlFee.times(lot.quantity).div(removedQuantity));
+            quantityLeft = quantityLeft.minus(quantity);
+            feeLeft = feeLeft.minus(fee);
+            return { date: lot.date, quantity, cost: lot.cost.plus(fee) };
+        })
+        .filter(lot => lot.quantity.gt(0));
+};
+
+// Effect of one (swap-expanded) transaction on the open lots of its asset.
+// Transfers move lots between accounts without realizing profit: the outgoing leg hands the lots it removes
+// over under its transferId so the incoming leg can carry them. When the source account is not in view the
+// incoming leg has nothing to pick up and becomes a single lot at the per-unit cost resolved by transferService.
+const applyToLots = (
+    lots: readonly Lot[],
+    leg: Leg,
+    method: CostBasisMethod,
+    carriedLots: ReadonlyMap<string, readonly Lot[]>
+): { lots: readonly Lot[]; event: LedgerEvent; carried?: readonly Lot[] } => {
+    const { tx } = leg;
+    let nextLots = lots;
+    let carried: readonly Lot[] | undefined;
+    const event = { tx, quantityIn: ZERO, costIn: ZERO, quantityOut: ZERO, costOut: ZERO, proceeds: ZERO, saleValue: ZERO };
+
+    if (tx.type === 'transfer') {
+        const quantity = toDecimal(tx.quantity);
+        const { remaining, removed } = removeFromLots(lots, quantity, method);
+        carried = toTransferredLots(tx, removed);
+        nextLots = remaining;
+        event.quantityOut = quantity;
+        event.costOut = getLotsCost(removed);
+    } else if (tx.type === 'transfer_in') {
+        // The per-unit value of a derived entry is a rounded division, so its total is rounded back to BRL precision.
+        const incoming = (tx.transferId && carriedLots.get(tx.transferId))
+            || [{ date: tx.date, quantity: toDecimal(tx.quantity), cost: roundAmount(leg.grossAmount) }];
+        nextLots = [...lots, ...incoming];
+        event.quantityIn = getLotsQuantity(incoming);
+        event.costIn = getLotsCost(incoming);
+    } else if (isAcquisition(tx)) {
+        const { quantity, amountBRL } = getNetTradeAmounts(leg);
+        if (quantity.gt(0)) {
+            nextLots = [...lots, { date: tx.date, quantity, cost: amountBRL }];
+            event.quantityIn = quantity;
+            event.costIn = amountBRL;
+        }
+    } else { // sell
+        const { quantity, amountBRL } = getNetTradeAmounts(leg);
+        const { remaining, removed } = removeFromLots(lots, quantity, method);
+        nextLots = remaining;
+        event.quantityOut = quantity;
+        event.costOut = getLotsCost(removed);
+        event.proceeds = amountBRL;
+        event.saleValue = leg.grossAmount;
+    }
+
+    return { lots: nextLots, event, carried };
+};
+
+// Cumulative totals of a position after an event.
+const updatePosition = (position: LedgerPosition, lots: readonly Lot[], event: LedgerEvent): LedgerPosition => {
+    let { totalBought, totalCostBought, totalSold, realizedProfit } = position;
+    if (event.tx.type === 'transfer') {
+        // Leaving the account is not a sale: the quantity and its cost come off the bought side.
+        totalBought = maxDecimal(totalBought.minus(event.quantityOut), totalSold);
+        totalCostBought = maxDecimal(totalCostBought.minus(event.costOut), ZERO);
+    } else if (event.quantityOut.gt(0)) { // sell
+        totalSold = totalSold.plus(event.quantityOut);
+        realizedProfit = realizedProfit.plus(event.proceeds.minus(event.costOut));
+    } else {
+        totalBought = totalBought.plus(event.quantityIn);
+        totalCostBought = totalCostBought.plus(event.costIn);
+    }
+    return Object.freeze({ lots, quantity: getLotsQuantity(lots), cost: getLotsCost(lots), totalBought, totalCostBought, totalSold, realizedProfit });
+};
+
+// Replays legs on top of an existing ledger. Used both for a full build (from an empty ledger) and to append.
+const replay = (ledger: Ledger, legs: Leg[], transactions: readonly Transaction[]): Ledger => {
+    const events = [...ledger.events];
+    const states = [...ledger.states];
+    let carriedLots = ledger.carriedLots;
+    let positions = states.length > 0 ? states[states.length - 1].positions : new Map<string, LedgerPosition>();
+
+    for (const leg of legs) {
+        const { tx } = leg;
+        const position = positions.get(tx.asset) ?? EMPTY_POSITION;
+        const result = applyToLots(position.lots, leg, ledger.method, carriedLots);
+        if (result.carried && tx.transferId) {
+            carriedLots = new Map(carriedLots).set(tx.transferId, result.carried);
+        }
+        positions = new Map(positions).set(tx.asset, updatePosition(position, result.lots, result.event));
+        events.push(Object.freeze(result.event));
+        states.push(Object.freeze({ date: tx.date, positions }));
+    }
+
+    return Object.freeze({ method: ledger.method, transactions, events, states, carriedLots });
+};
+
+/**
+ * Replays the transactions once, in chronological order, into an immutable timeline of portfolio states.
+ * Every report derives from this timeline, so they always agree on quantities and cost basis.
+ */
+export const buildLedger = (transactions: readonly Transaction[], method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD): Ledger => {
+    const empty: Ledger = { method, transactions: [], events: [], states: [], carriedLots: new Map() };
+    return replay(empty, sortLegs(transactions), transactions);
+};
+
+/**
+ * Adds one transaction to an existing ledger. When it is not earlier than the last replayed event only the
+ * new legs are replayed; otherwise the history behind it changes and the ledger is rebuilt.
+ * `transactions` is the caller's full list after the addition, when it keeps its own order.
+ */
+export const appendToLedger = (ledger: Ledger, tx: Transaction, transactions: readonly Transaction[] = [...ledger.transactions, tx]): Ledger => {
+    const lastDate = ledger.states.length > 0 ? ledger.states[ledger.states.length - 1].date : '';
+    if (tx.date < lastDate) return buildLedger(transactions, ledger.method);
+    return replay(ledger, sortLegs([tx]), transactions);
+};
+
+/**
+ * Latest state on or before the given date (YYYY-MM-DD), or null before the first transaction.
+ */
+export const getLedgerStateAt = (ledger: Ledger, date: string): LedgerState | null => {
+    let low = 0;
+    let high = ledger.states.length - 1;
+    let found: LedgerState | null = null;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (ledger.states[mid].date <= date) {
+            found = ledger.states[mid];
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return found;
+};
+
+export const getFinalPositions = (ledger: Ledger): ReadonlyMap<string, LedgerPosition> =>
+    ledger.states.length > 0 ? ledger.states[ledger.states.length - 1].positions : new Map();
+
+/**
+ * Cost carried by every transfer, keyed by transferId. Each account is replayed with its own cost-basis method
+ * and the incoming lots are credited to the destination as soon as the outgoing leg is processed.
+ */
+export const calculateTransferCosts = (accounts: Account[], appMethod: CostBasisMethod = DEFAULT_COST_BASIS_METHOD): Map<string, Decimal> => {
+    const carriedLots = new Map<string, readonly Lot[]>();
+    const positions = new Map<string, readonly Lot[]>(); // key: `${accountId}:${asset}`
+    const accountIds = new Set(accounts.map(acc => acc.id));
+
+    const entries = accounts
+        .flatMap(acc => sortLegs(acc.transactions).map(leg => ({ account: acc, leg })))
+        .sort((a, b) => a.leg.tx.date.localeCompare(b.leg.tx.date));
+
+    for (const { account, leg } of entries) {
+        const { tx } = leg;
+        if (tx.type === 'transfer_in') continue;
+        const key = `${account.id}:${tx.asset}`;
+        const result = applyToLots(positions.get(key) || [], leg, account.costBasisMethod ?? appMethod, carriedLots);
+        positions.set(key, result.lots);
+
+        if (result.carried && tx.transferId) {
+            carriedLots.set(tx.transferId, result.carried);
+            if (tx.toAccountId !== undefined && accountIds.has(tx.toAccountId)) {
+                const destinationKey = `${tx.toAccountId}:${tx.asset}`;
+                positions.set(destinationKey, [...(positions.get(destinationKey) || []), ...result.carried]);
+            }
+        }
+    }
+
+    return new Map(Array.from(carriedLots.entries()).map(([transferId, lots]) => [transferId, getLotsCost(lots)]));
+};
@@ -0,0 +1,16 @@
+/**
+ * Instantâneo das chaves gravadas, já convertidas de JSON. Chave ausente ou `undefined` significa dado não gravado
+ * (ou apagado, quando é a migração que a remove).
+ */
+export type StoredState = Record<string, unknown>;
+
+export interface StorageMigration {
+  version: number; // Versão do formato que a migração produz
+  description: string;
+  keys: string[]; // Chaves lidas e gravadas pela migração
+  /** Função pura: recebe o instantâneo e devolve um novo, sem tocar no armazenamento. */
+  migrate: (state: StoredState) => StoredState;
+}
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,26 @@
+import type { Account, Transaction } from '../../types';
+import { normalizeStoredAmount } from '../decimal';
+import type { StorageMigration } from './common';
+
+const normalizeTransaction = (tx: Transaction): Transaction => ({
+  ...tx,
+  quantity: normalizeStoredAmount(tx.quantity),
+  value: normalizeStoredAmount(tx.value),
+  ...(tx.fee !== undefined ? { fee: normalizeStoredAmount(tx.fee) } : {}),
+  ...(tx.toQuantity !== undefined ? { toQuantity: normalizeStoredAmount(tx.toQuantity) } : {}),
+});
+
+/**
+ * Limpa o resíduo de ponto flutuante das quantidades e valores gravados antes dos cálculos decimais,
+ * para que entrem nas contas exatamente como foram digitados.
+ */
+export const decimalAmountsMigration: StorageMigration = {
+  version: 1,
+  description: 'Valores das transações sem resíduo de ponto flutuante',
+  keys: ['accounts'],
+  migrate: (state) => {
+    if (!Array.isArray(state.accounts)) return state;
+    const accounts = state.accounts as Account[];
+    return { ...state, accounts: accounts.map(acc => ({ ...acc, transactions: acc.transactions.map(normalizeTransaction) })) };
+  },
+};
@@ -0,0 +1,73 @@
+import { appStorage } from '../secureStorage';
+import type { StorageMigration, StoredState } from './common';
+import { decimalAmountsMigration } from './decimalAmounts';
+import { recordDefaultsMigration } from './recordDefaults';
+import { settingsCleanupMigration } from './settingsCleanup';
+import { targetAllocationsMigration } from './targetAllocations';
+
+export type { StorageMigration, StoredState } from './common';
+
+/**
+ * Migrações do formato dos dados gravados, em ordem de versão. Ao mudar o formato de uma chave,
+ * acrescente uma migração aqui em vez de renomear a chave e descartar os dados antigos, com um par de
+ * instantâneos em `fixtures/` registrado em `migrations.test.ts` (`npm run check:migrations`).
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  decimalAmountsMigration,
+  recordDefaultsMigration,
+  settingsCleanupMigration,
+  targetAllocationsMigration,
+];
+
+export const STORAGE_SCHEMA_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+const SCHEMA_VERSION_KEY = 'storageSchemaVersion';
+// Marca da migração de valores decimais, gravada antes de existir o controle de versão.
+const LEGACY_DECIMAL_FLAG = 'decimalAmountsMigrated';
+
+/**
+ * Aplica, em ordem, as migrações posteriores a `fromVersion`. Função pura, sem acesso ao armazenamento.
+ */
+export const runStorageMigrations = (state: StoredState, fromVersion: number): StoredState =>
+  STORAGE_MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((current, migration) => migration.migrate(current), state);
+
+const readStoredVersion = (): number => {
+  const item = window.localStorage.getItem(SCHEMA_VERSION_KEY);
+  if (item !== null) return Number(item) || 0;
+  return window.localStorage.getItem(LEGACY_DECIMAL_FLAG) ? decimalAmountsMigration.version : 0;
+};
+
+const readKey = (key: string): unknown => {
+  const item = appStorage.getItem(key);
+  if (item === null) return undefined;
+  try {
+    return JSON.parse(item);
+  } catch {
+    return item;
+  }
+};
+
+/**
+ * Atualiza os dados gravados para o formato atual. Deve rodar depois do desbloqueio da criptografia e antes de o
+ * App ler o estado. Se uma migração falhar, nada é gravado e ela é tentada de novo na próxima abertura.
+ */
+export const migrateStoredState = (): void => {
+  const fromVersion = readStoredVersion();
+  if (fromVersion >= STORAGE_SCHEMA_VERSION) return;
+  const pending = STORAGE_MIGRATIONS.filter(migration => migration.version > fromVersion);
+  const keys = Array.from(new Set(pending.flatMap(migration => migration.keys)));
+  const before: StoredState = Object.fromEntries(keys.map(key => [key, readKey(key)]));
+  try {
+    const after = runStorageMigrations(before, fromVersion);
+    keys.forEach(key => {
+      if (after[key] === before[key]) return;
+      if (after[key] === undefined) appStorage.removeItem(key);
+      else appStorage.setItem(key, JSON.stringify(after[key]));
+    });
+    window.localStorage.setItem(SCHEMA_VERSION_KEY, String(STORAGE_SCHEMA_VERSION));
+  } catch (error) {
+    console.error('Falha ao migrar os dados gravados:', error);
+  }
+};
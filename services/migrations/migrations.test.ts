@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'node:fs';
+import type { StorageMigration, StoredState } from './common';
+import { decimalAmountsMigration } from './decimalAmounts';
+import { recordDefaultsMigration } from './recordDefaults';
+import { settingsCleanupMigration } from './settingsCleanup';
+import { targetAllocationsMigration } from './targetAllocations';
+
+// Cada par `<nome>.before.json` / `<nome>.after.json` de `fixtures/` é o instantâneo antes e depois da migração.
+const MIGRATIONS_BY_FIXTURE: Record<string, StorageMigration> = {
+  'decimal-amounts': decimalAmountsMigration,
+  'record-defaults': recordDefaultsMigration,
+  'settings-cleanup': settingsCleanupMigration,
+  'target-allocations': targetAllocationsMigration,
+};
+
+const fixturesDir = new URL('./fixtures/', import.meta.url);
+const readFixture = (file: string): StoredState => JSON.parse(readFileSync(new URL(file, fixturesDir), 'utf8'));
+// Chaves apagadas pela migração ficam `undefined`, que o JSON dos instantâneos não representa.
+const toJson = (state: StoredState): StoredState => JSON.parse(JSON.stringify(state));
+
+const fixtureNames = Array.from(new Set(readdirSync(fixturesDir).map(file => file.replace(/\.(before|after)\.json$/, ''))));
+
+test('todo instantâneo tem a sua migração', () => {
+  assert.deepEqual(fixtureNames.filter(name => !MIGRATIONS_BY_FIXTURE[name]), []);
+});
+
+for (const name of fixtureNames) {
+  const migration = MIGRATIONS_BY_FIXTURE[name];
+  if (!migration) continue;
+
+  test(`v${migration.version} (${migration.description}) converte ${name}.before.json em ${name}.after.json`, () => {
+    const expected = readFixture(`${name}.after.json`);
+    assert.deepEqual(toJson(migration.migrate(readFixture(`${name}.before.json`))), expected);
+    // Rodar de novo não muda nada: backups sem versão passam por todas as migrações.
+    assert.deepEqual(toJson(migration.migrate(expected)), expected);
+  });
+}
@@ -0,0 +1,54 @@
+import type { Account, PriceAlert, Transaction } from '../../types';
+import { COST_BASIS_METHOD_LABELS } from '../costBasisService';
+import { TAX_REGIME_LABELS } from '../taxRegimeService';
+import { isObject, type StorageMigration } from './common';
+
+const normalizeTransaction = (tx: Transaction): Transaction => {
+  const { feeCurrency, ...rest } = tx;
+  return {
+    ...rest,
+    // Sem taxa, a moeda da taxa não significa nada.
+    ...(tx.fee && feeCurrency ? { feeCurrency } : {}),
+  };
+};
+
+const normalizeAccount = (account: Account): Account => {
+  const { costBasisMethod, taxRegime, ...rest } = account;
+  return {
+    ...rest,
+    transactions: account.transactions.map(normalizeTransaction),
+    ...(costBasisMethod && costBasisMethod in COST_BASIS_METHOD_LABELS ? { costBasisMethod } : {}),
+    ...(taxRegime && taxRegime in TAX_REGIME_LABELS ? { taxRegime } : {}),
+  };
+};
+
+// Alertas das primeiras versões guardavam o preço-alvo em `targetPrice` e não tinham tipo, recorrência nem estado de disparo.
+type LegacyAlert = Partial<PriceAlert> & { targetPrice?: number };
+
+const normalizeAlert = ({ targetPrice, ...alert }: LegacyAlert, index: number): PriceAlert => ({
+  ...alert,
+  id: alert.id ?? `legacy-${index}`,
+  asset: alert.asset ?? '',
+  type: alert.type ?? 'price',
+  condition: alert.condition ?? 'above',
+  targetValue: alert.targetValue ?? targetPrice ?? 0,
+  recurring: alert.recurring ?? false,
+  triggered: alert.triggered ?? false,
+});
+
+/**
+ * Completa com os valores padrão os campos que contas, transações e alertas antigos não tinham e descarta
+ * métodos de custo e regimes tributários que não existem mais.
+ */
+export const recordDefaultsMigration: StorageMigration = {
+  version: 2,
+  description: 'Campos padrão em contas, transações e alertas antigos',
+  keys: ['accounts', 'priceAlerts'],
+  migrate: (state) => ({
+    ...state,
+    ...(Array.isArray(state.accounts) ? { accounts: (state.accounts as Account[]).map(normalizeAccount) } : {}),
+    ...(Array.isArray(state.priceAlerts)
+      ? { priceAlerts: state.priceAlerts.filter(alert => isObject(alert) && typeof alert.asset === 'string').map((alert, index) => normalizeAlert(alert as LegacyAlert, index)) }
+      : {}),
+  }),
+};
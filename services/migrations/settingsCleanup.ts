@@ -0,0 +1,41 @@
+import type { TaxRules } from '../../types';
+import { COST_BASIS_METHOD_LABELS } from '../costBasisService';
+import { PROXIES } from '../proxyService';
+import { validateTaxRules } from '../taxRules';
+import { isObject, type StorageMigration } from './common';
+
+// Chaves substituídas por versões novas (como `cryptoMap` por `cryptoMap_v2`) ou pelo controle de versão do formato.
+const OBSOLETE_KEYS = ['cryptoMap', 'cryptoMapTimestamp', 'decimalAmountsMigrated'];
+
+const isValidTaxRules = (value: unknown): boolean => {
+  if (!isObject(value) || !Array.isArray(value.brackets)) return false;
+  try {
+    return validateTaxRules(value as unknown as TaxRules) === null;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Apaga chaves obsoletas e configurações que o app não reconhece mais, para que voltem ao valor padrão
+ * em vez de quebrar a leitura.
+ */
+export const settingsCleanupMigration: StorageMigration = {
+  version: 3,
+  description: 'Remoção de chaves obsoletas e configurações inválidas',
+  keys: [...OBSOLETE_KEYS, 'selectedProxy', 'costBasisMethod', 'taxRules'],
+  migrate: (state) => {
+    const next: Record<string, unknown> = { ...state };
+    OBSOLETE_KEYS.forEach(key => { next[key] = undefined; });
+    if (next.selectedProxy !== undefined && !(typeof next.selectedProxy === 'string' && next.selectedProxy in PROXIES)) {
+      next.selectedProxy = undefined;
+    }
+    if (next.costBasisMethod !== undefined && !(typeof next.costBasisMethod === 'string' && next.costBasisMethod in COST_BASIS_METHOD_LABELS)) {
+      next.costBasisMethod = undefined;
+    }
+    if (next.taxRules !== undefined && !isValidTaxRules(next.taxRules)) {
+      next.taxRules = undefined;
+    }
+    return next;
+  },
+};
@@ -0,0 +1,17 @@
+import { isObject, type StorageMigration } from './common';
+
+/**
+ * O plano de rebalanceamento era gravado inteiro, com a análise da IA e o estado da tela. Só as alocações-alvo
+ * continuam salvas, na chave própria; o resto volta a viver apenas na sessão.
+ */
+export const targetAllocationsMigration: StorageMigration = {
+  version: 4,
+  description: 'Alocações-alvo separadas do plano de rebalanceamento',
+  keys: ['rebalancePlan', 'targetAllocations'],
+  migrate: (state) => {
+    if (state.rebalancePlan === undefined) return state;
+    const plan = state.rebalancePlan;
+    const targetAllocations = isObject(plan) && isObject(plan.targetAllocations) ? plan.targetAllocations : undefined;
+    return { ...state, rebalancePlan: undefined, targetAllocations: state.targetAllocations ?? targetAllocations };
+  },
+};
@@ -0,0 +1,221 @@
+import type { EncryptedPayload } from '../types';
+import { deriveKey, decryptWithPassphrase, encryptText, isEncryptedPayload, type DerivedKey } from './cryptoService';
+import { applyRemoteLargeItem, getLargeItem, isLargeKey, reloadLargeItem, removeLargeItem, setLargeItem, flushLargeStorage } from './largeStorage';
+import { publishWrite, setRemoteWriteHandler } from './storageSync';
+
+/**
+ * Chaves do localStorage guardadas no cofre criptografado quando a criptografia está ativa:
+ * as chaves de API e tudo que revela o histórico financeiro.
+ */
+export const PROTECTED_KEYS = ['accounts', 'chatHistory', 'darfPayments', 'geminiApiKey', 'cmcApiKey', 'cryptoCompareApiKey'];
+
+const VAULT_KEY = 'encryptedVault';
+
+// Conteúdo decifrado das chaves protegidas e a chave usada para regravá-lo; só existem depois do desbloqueio.
+let unlockedValues: Map<string, string> | null = null;
+let vaultKey: DerivedKey | null = null;
+let writeQueued = false;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+const isProtected = (key: string) => PROTECTED_KEYS.includes(key);
+
+// Armazenamento sem criptografia: chaves grandes no IndexedDB e as demais no localStorage.
+const plainStorage: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> = {
+  getItem: (key) => {
+    if (!isLargeKey(key)) return window.localStorage.getItem(key);
+    const value = getLargeItem(key);
+    return value === undefined ? null : JSON.stringify(value);
+  },
+  setItem: (key, value) => {
+    if (isLargeKey(key)) setLargeItem(key, JSON.parse(value));
+    else window.localStorage.setItem(key, value);
+  },
+  removeItem: (key) => {
+    if (isLargeKey(key)) removeLargeItem(key);
+    else window.localStorage.removeItem(key);
+  },
+};
+
+const readVault = (): EncryptedPayload | null => {
+  const vault = getLargeItem<unknown>(VAULT_KEY);
+  return isEncryptedPayload(vault) ? vault : null;
+};
+
+const writeVault = async () => {
+  if (!unlockedValues || !vaultKey) return;
+  const payload = await encryptText(JSON.stringify(Object.fromEntries(unlockedValues)), vaultKey);
+  setLargeItem(VAULT_KEY, payload);
+};
+
+// Gravações em sequência, agrupando as alterações feitas enquanto uma cifragem anterior ainda roda.
+const schedulePersist = () => {
+  if (writeQueued) return;
+  writeQueued = true;
+  pendingWrite = pendingWrite
+    .then(() => {
+      writeQueued = false;
+      return writeVault();
+    })
+    .catch(error => console.error('Falha ao gravar o cofre criptografado:', error));
+};
+
+export const isEncryptionEnabled = (): boolean => readVault() !== null;
+
+export const isUnlocked = (): boolean => unlockedValues !== null;
+
+/**
+ * Armazenamento usado pelo app no lugar do localStorage: as chaves protegidas passam pelo cofre
+ * quando a criptografia está ativa, as chaves grandes vão para o IndexedDB e as demais para o localStorage.
+ */
+const parseForSync = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+export const appStorage: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> = {
+  getItem: (key) => {
+    if (isProtected(key) && isEncryptionEnabled()) return unlockedValues?.get(key) ?? null;
+    return plainStorage.getItem(key);
+  },
+  setItem: (key, value) => {
+    if (isProtected(key) && unlockedValues) {
+      unlockedValues.set(key, value);
+      schedulePersist();
+    } else {
+      plainStorage.setItem(key, value);
+    }
+    publishWrite(key, parseForSync(value));
+  },
+  removeItem: (key) => {
+    if (isProtected(key) && unlockedValues) {
+      unlockedValues.delete(key);
+      schedulePersist();
+    } else {
+      plainStorage.removeItem(key);
+    }
+    publishWrite(key, undefined);
+  },
+};
+
+// Valores gravados por outras abas. O cofre é regravado inteiro mesmo quando a outra aba já o gravou,
+// pois a gravação dela pode não conter as alterações feitas nesta.
+setRemoteWriteHandler((key, value, persist) => {
+  if (isProtected(key) && isEncryptionEnabled()) {
+    if (!unlockedValues) return;
+    if (value === undefined) unlockedValues.delete(key);
+    else unlockedValues.set(key, JSON.stringify(value));
+    schedulePersist();
+  } else if (isLargeKey(key)) {
+    if (!persist) applyRemoteLargeItem(key, value);
+    else if (value === undefined) removeLargeItem(key);
+    else setLargeItem(key, value);
+  } else if (persist) {
+    if (value === undefined) window.localStorage.removeItem(key);
+    else window.localStorage.setItem(key, JSON.stringify(value));
+  }
+});
+
+/**
+ * Lê uma chave grande já como objeto, sem passar por JSON quando ela não está no cofre.
+ */
+export const getStoredValue = <T>(key: string): T | undefined => {
+  if (isProtected(key) && isEncryptionEnabled()) {
+    const item = unlockedValues?.get(key);
+    return item === undefined ? undefined : (JSON.parse(item) as T);
+  }
+  return getLargeItem<T>(key);
+};
+
+export const setStoredValue = <T>(key: string, value: T): void => {
+  if (isProtected(key) && unlockedValues) {
+    appStorage.setItem(key, JSON.stringify(value));
+    return;
+  }
+  setLargeItem(key, value);
+  publishWrite(key, value);
+};
+
+/**
+ * Aguarda a gravação das últimas alterações no cofre e no IndexedDB. Chame antes de recarregar a página.
+ */
+export const flushSecureStorage = (): Promise<void> => pendingWrite.then(flushLargeStorage);
+
+/**
+ * Decifra o cofre com a senha. Retorna false se a senha estiver errada.
+ */
+export const unlock = async (passphrase: string): Promise<boolean> => {
+  // Outra aba pode ter regravado o cofre desde que esta o carregou.
+  await reloadLargeItem(VAULT_KEY);
+  const vault = readVault();
+  if (!vault) return false;
+  const result = await decryptWithPassphrase(vault, passphrase);
+  if (!result) return false;
+  unlockedValues = new Map(Object.entries(JSON.parse(result.plaintext) as Record<string, string>));
+  vaultKey = result.derived;
+  return true;
+};
+
+/**
+ * Move as chaves protegidas do localStorage para um cofre cifrado com a senha.
+ */
+export const enableEncryption = async (passphrase: string): Promise<void> => {
+  if (isEncryptionEnabled()) throw new Error('A criptografia já está ativa.');
+  const values = new Map<string, string>();
+  PROTECTED_KEYS.forEach(key => {
+    const item = plainStorage.getItem(key);
+    if (item !== null) values.set(key, item);
+  });
+  unlockedValues = values;
+  vaultKey = await deriveKey(passphrase);
+  await writeVault();
+  PROTECTED_KEYS.forEach(key => plainStorage.removeItem(key));
+};
+
+const verifyPassphrase = async (passphrase: string): Promise<boolean> => {
+  const vault = readVault();
+  return !!vault && (await decryptWithPassphrase(vault, passphrase)) !== null;
+};
+
+/**
+ * Recifra o cofre com uma nova senha (e um novo sal). Retorna false se a senha atual estiver errada.
+ */
+export const changePassphrase = async (currentPassphrase: string, newPassphrase: string): Promise<boolean> => {
+  if (!unlockedValues || !(await verifyPassphrase(currentPassphrase))) return false;
+  await pendingWrite;
+  vaultKey = await deriveKey(newPassphrase);
+  await writeVault();
+  return true;
+};
+
+/**
+ * Devolve as chaves protegidas ao localStorage em texto puro e apaga o cofre. Retorna false se a senha estiver errada.
+ */
+export const disableEncryption = async (passphrase: string): Promise<boolean> => {
+  if (!unlockedValues || !(await verifyPassphrase(passphrase))) return false;
+  await pendingWrite;
+  unlockedValues.forEach((value, key) => plainStorage.setItem(key, value));
+  removeLargeItem(VAULT_KEY);
+  unlockedValues = null;
+  vaultKey = null;
+  return true;
+};
+
+/**
+ * Cifra um conteúdo com a chave do cofre, para exportá-lo protegido pela mesma senha.
+ * Retorna null se a criptografia não estiver ativa.
+ */
+export const encryptWithVaultKey = async (plaintext: string): Promise<EncryptedPayload | null> => (
+  vaultKey ? encryptText(plaintext, vaultKey) : null
+);
+
+/**
+ * Apaga o cofre sem decifrá-lo, para quem esqueceu a senha. Os dados protegidos são perdidos.
+ */
+export const discardVault = (): void => {
+  removeLargeItem(VAULT_KEY);
+  unlockedValues = null;
+  vaultKey = null;
+};
@@ -0,0 +1,20 @@
+import type { SelicRateTable } from '../types';
+
+/**
+ * Taxa Selic mensal (% ao mês) publicada pela Receita Federal para o cálculo dos juros de mora.
+ * Os meses seguintes podem ser informados pelo usuário na tela de DARF e têm prioridade sobre esta tabela.
+ */
+export const BUNDLED_SELIC_RATES: SelicRateTable = {
+  '2020-01': 0.38, '2020-02': 0.29, '2020-03': 0.34, '2020-04': 0.28, '2020-05': 0.24, '2020-06': 0.21,
+  '2020-07': 0.19, '2020-08': 0.16, '2020-09': 0.16, '2020-10': 0.16, '2020-11': 0.15, '2020-12': 0.16,
+  '2021-01': 0.15, '2021-02': 0.13, '2021-03': 0.20, '2021-04': 0.21, '2021-05': 0.27, '2021-06': 0.31,
+  '2021-07': 0.36, '2021-08': 0.43, '2021-09': 0.44, '2021-10': 0.49, '2021-11': 0.59, '2021-12': 0.77,
+  '2022-01': 0.73, '2022-02': 0.76, '2022-03': 0.93, '2022-04': 0.83, '2022-05': 1.03, '2022-06': 1.02,
+  '2022-07': 1.03, '2022-08': 1.17, '2022-09': 1.07, '2022-10': 1.02, '2022-11': 1.02, '2022-12': 1.12,
+  '2023-01': 1.12, '2023-02': 0.92, '2023-03': 1.17, '2023-04': 0.92, '2023-05': 1.12, '2023-06': 1.07,
+  '2023-07': 1.07, '2023-08': 1.14, '2023-09': 0.97, '2023-10': 1.00, '2023-11': 0.92, '2023-12': 0.89,
+  '2024-01': 0.97, '2024-02': 0.80, '2024-03': 0.83, '2024-04': 0.89, '2024-05': 0.83, '2024-06': 0.79,
+  '2024-07': 0.91, '2024-08': 0.87, '2024-09': 0.84, '2024-10': 0.93, '2024-11': 0.79, '2024-12': 0.93,
+  '2025-01': 1.01, '2025-02': 0.99, '2025-03': 0.96, '2025-04': 1.06, '2025-05': 1.14, '2025-06': 1.10,
+  '2025-07': 1.28, '2025-08': 1.16, '2025-09': 1.22,
+};
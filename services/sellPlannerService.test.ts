@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Transaction } from '../types';
+import { buildLedger } from './ledgerService';
+import { planExemptSales } from './sellPlannerService';
+import { DEFAULT_TAX_RULES } from './taxRules';
+
+const transactions: Transaction[] = [
+  { id: 1, type: 'buy', date: '2024-01-10', asset: 'BTC', quantity: 1, value: 100000 },
+  { id: 2, type: 'buy', date: '2024-01-10', asset: 'ETH', quantity: 10, value: 19000 },
+  // Venda isenta já feita em março: a folga do mês é 34.300 - 20.000 = 14.300
+  { id: 3, type: 'sell', date: '2025-03-05', asset: 'BTC', quantity: 0.1, value: 200000 },
+];
+const cryptoData = {
+  BTC: { price: 286000, percent_change_24h: 0 },
+  ETH: { price: 20000, percent_change_24h: 0 },
+};
+
+test('a parte tributável vai sozinha para um mês, sem levar junto as vendas isentas da folga', () => {
+  // A folga de março e abril (14.300 + 34.300) não basta para 60.000, então um dos meses passa do limite.
+  const plan = planExemptSales(
+    buildLedger(transactions),
+    { targetAmount: 60000, deadline: '2025-04', assets: ['BTC', 'ETH'], safetyMargin: 2 },
+    cryptoData,
+    DEFAULT_TAX_RULES,
+    '2025-03-10'
+  );
+
+  const [march, april] = plan.months;
+  // Março mantém a isenção (inclusive a da venda já feita) usando só a sua folga, com o ativo de maior lucro.
+  assert.equal(march.isExempt, true);
+  assert.deepEqual(march.sales.map(sale => sale.asset), ['BTC']);
+  assert.ok(Math.abs(march.plannedSales - 14300) < 1);
+  // Abril recebe todo o restante como tributável, do ativo de menor lucro (5% do valor de venda).
+  assert.equal(april.isExempt, false);
+  assert.deepEqual(april.sales.map(sale => sale.asset), ['ETH']);
+  assert.ok(Math.abs(april.plannedSales - 45700) < 1);
+  assert.ok(Math.abs(plan.estimatedTax - 45700 * 0.05 * 0.15) < 1);
+  assert.ok(Math.abs(plan.totalPlanned - 60000) < 1);
+});
+
+test('sem parte tributável, todas as vendas ficam na folga de isenção', () => {
+  const plan = planExemptSales(
+    buildLedger(transactions),
+    { targetAmount: 40000, deadline: '2025-04', assets: ['BTC', 'ETH'], safetyMargin: 2 },
+    cryptoData,
+    DEFAULT_TAX_RULES,
+    '2025-03-10'
+  );
+
+  assert.ok(plan.months.every(month => month.isExempt));
+  assert.equal(plan.estimatedTax, 0);
+  assert.ok(Math.abs(plan.totalPlanned - 40000) < 1);
+});
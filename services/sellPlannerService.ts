@@ -0,0 +1,203 @@
+import type { CryptoData, PlannedSale, SellPlan, SellPlanMonth, SellPlanRequest, TaxRules, Transaction } from '../types';
+import { appendToLedger, getFinalPositions, type Ledger } from './ledgerService';
+import { calculateTaxReport } from './calculationService';
+import { Decimal, ZERO, maxDecimal, minDecimal, sumDecimals, toDecimal } from './decimal';
+
+/**
+ * Margem padrão (%) deixada abaixo do limite de isenção, para absorver a oscilação de preço até a venda.
+ */
+export const DEFAULT_SELL_PLAN_SAFETY_MARGIN = 2;
+
+interface PlanMonth {
+  year: number;
+  month: number;
+  date: string;
+  existingSales: Decimal;
+  headroom: Decimal; // Vendas que ainda cabem na isenção
+}
+
+interface Stock {
+  symbol: string;
+  quantity: Decimal;
+  price: Decimal;
+  gainRatio: Decimal; // Parcela do valor de venda que é lucro, pelo custo médio atual
+}
+
+interface Draft {
+  asset: string;
+  quantity: Decimal;
+  price: Decimal;
+}
+
+const toMonthKey = (year: number, month: number) => `${year}-${String(month).padStart(2, '0')}`;
+
+/**
+ * Meses do mês atual até o prazo, inclusive. As vendas do mês atual são simuladas hoje; as dos demais, no dia 1º.
+ */
+const listPlanMonths = (today: string, deadline: string): { year: number; month: number; date: string }[] => {
+  const months = [];
+  let year = Number(today.slice(0, 4));
+  let month = Number(today.slice(5, 7));
+  while (toMonthKey(year, month) <= deadline) {
+    const key = toMonthKey(year, month);
+    months.push({ year, month, date: key === today.slice(0, 7) ? today : `${key}-01` });
+    if (++month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+};
+
+/**
+ * Retira do estoque o equivalente a `amount` em reais, na ordem dada, e devolve as vendas correspondentes.
+ * As quantidades são arredondadas para baixo em 8 casas, então o total pode ficar alguns centavos abaixo do pedido.
+ */
+const takeFromStock = (stock: Stock[], amount: Decimal): Draft[] => {
+  const drafts: Draft[] = [];
+  let left = amount;
+  for (const item of stock) {
+    if (left.lte(0)) break;
+    if (item.quantity.lte(0)) continue;
+    const quantity = minDecimal(left.div(item.price), item.quantity).toDecimalPlaces(8, Decimal.ROUND_DOWN);
+    if (quantity.lte(0)) continue;
+    item.quantity = item.quantity.minus(quantity);
+    left = left.minus(quantity.times(item.price));
+    drafts.push({ asset: item.symbol, quantity, price: item.price });
+  }
+  return drafts;
+};
+
+const sumDrafts = (drafts: Draft[]): Decimal => sumDecimals(drafts.map(draft => draft.quantity.times(draft.price)));
+
+/**
+ * Aplica as vendas planejadas ao ledger, em ordem cronológica, sem alterar as transações salvas.
+ */
+const simulatePlan = (ledger: Ledger, months: PlanMonth[], draftsByMonth: Draft[][]): { ledger: Ledger; txs: Transaction[][] } => {
+  let simulated = ledger;
+  let nextId = Number.MIN_SAFE_INTEGER; // Nunca colide com ids salvos ou derivados
+  const txs = months.map((month, index) => draftsByMonth[index].map((draft): Transaction => {
+    const tx: Transaction = {
+      id: nextId++,
+      type: 'sell',
+      date: month.date,
+      asset: draft.asset,
+      quantity: draft.quantity.toNumber(),
+      value: draft.price.toNumber(),
+    };
+    simulated = appendToLedger(simulated, tx);
+    return tx;
+  }));
+  return { ledger: simulated, txs };
+};
+
+const getTotalTax = (ledger: Ledger, years: number[], rules: TaxRules): Decimal =>
+  sumDecimals(years.map(year => toDecimal(calculateTaxReport(ledger, year, rules).totalTaxDue)));
+
+/**
+ * Monta um cronograma mensal de vendas para levantar o valor pedido até o prazo, aos preços atuais.
+ *
+ * Primeiro usa a folga de isenção de cada mês (limite menos a margem de segurança e o que já foi vendido no mês),
+ * vendendo antes os ativos com maior proporção de lucro, que ficam isentos. Se a folga não bastar, o restante sai
+ * dos ativos com menor proporção de lucro e vai para um único mês, que deixa de usar a própria folga. O mês escolhido
+ * é o que gera menos imposto, de acordo com a apuração completa de `calculateTaxReport` (incluindo compensação de prejuízos).
+ */
+export const planExemptSales = (
+  ledger: Ledger,
+  request: SellPlanRequest,
+  cryptoData: CryptoData,
+  rules: TaxRules,
+  today: string = new Date().toISOString().split('T')[0]
+): SellPlan => {
+  const planMonths = listPlanMonths(today, request.deadline);
+  if (planMonths.length === 0) {
+    return { months: [], totalPlanned: 0, shortfall: request.targetAmount, estimatedTax: 0 };
+  }
+  const years = Array.from(new Set(planMonths.map(month => month.year)));
+  const reports = new Map(years.map(year => [year, calculateTaxReport(ledger, year, rules)]));
+
+  const exemptionLimit = toDecimal(rules.exemptionLimit);
+  const plannedLimit = exemptionLimit.times(toDecimal(100 - request.safetyMargin)).div(100);
+  const months: PlanMonth[] = planMonths.map(({ year, month, date }) => {
+    const existingSales = toDecimal(reports.get(year)!.monthlyReports[month - 1].totalSales);
+    // Mês que já passou do limite não tem isenção a preservar.
+    const headroom = existingSales.lte(exemptionLimit) ? maxDecimal(plannedLimit.minus(existingSales), ZERO) : ZERO;
+    return { year, month, date, existingSales, headroom };
+  });
+
+  const positions = getFinalPositions(ledger);
+  const stock: Stock[] = request.assets.flatMap(symbol => {
+    const position = positions.get(symbol);
+    const price = toDecimal(cryptoData[symbol]?.price);
+    if (!position || position.quantity.lte(0) || price.lte(0)) return [];
+    const marketValue = position.quantity.times(price);
+    return [{ symbol, quantity: position.quantity, price, gainRatio: marketValue.minus(position.cost).div(marketValue) }];
+  });
+
+  const available = sumDecimals(stock.map(item => item.quantity.times(item.price)));
+  const target = minDecimal(toDecimal(request.targetAmount), available);
+  const totalHeadroom = sumDecimals(months.map(month => month.headroom));
+
+  // Vendas de cada mês com a parte tributável em `taxableIndex` (-1: tudo cabe na isenção). O mês que a recebe passa
+  // do limite e perde a isenção inteira, então a sua folga não é usada: o que faltar vai todo para ele, como tributável.
+  const allocate = (taxableIndex: number): Draft[][] => {
+    const pool = stock.map(item => ({ ...item }));
+    const exemptCapacity = sumDecimals(months.map((month, index) => (index === taxableIndex ? ZERO : month.headroom)));
+    const remainder = taxableIndex < 0 ? ZERO : maxDecimal(target.minus(exemptCapacity), ZERO);
+
+    // A parte tributável é reservada primeiro, dos ativos com menor lucro, para que os de maior lucro fiquem nos meses isentos.
+    const reserved = takeFromStock([...pool].sort((a, b) => a.gainRatio.comparedTo(b.gainRatio)), remainder);
+    const byGainDesc = [...pool].sort((a, b) => b.gainRatio.comparedTo(a.gainRatio));
+    let exemptLeft = target.minus(sumDrafts(reserved));
+    return months.map((month, index) => {
+      if (index === taxableIndex) return reserved;
+      const drafts = takeFromStock(byGainDesc, minDecimal(month.headroom, exemptLeft));
+      exemptLeft = exemptLeft.minus(sumDrafts(drafts));
+      return drafts;
+    });
+  };
+
+  const baseTax = getTotalTax(ledger, years, rules);
+  let best: { ledger: Ledger; txs: Transaction[][]; tax: Decimal } | null = null;
+  const candidates = target.gt(totalHeadroom) ? months.map((_, index) => index) : [-1];
+  for (const candidate of candidates) {
+    const simulation = simulatePlan(ledger, months, allocate(candidate));
+    const tax = getTotalTax(simulation.ledger, years, rules).minus(baseTax);
+    if (!best || tax.lt(best.tax)) best = { ...simulation, tax };
+  }
+
+  const simulatedReports = new Map(years.map(year => [year, calculateTaxReport(best!.ledger, year, rules)]));
+  const eventsByTx = new Map(best!.ledger.events.map(event => [event.tx, event]));
+
+  const resultMonths: SellPlanMonth[] = months.map((month, index) => {
+    const sales: PlannedSale[] = best!.txs[index].map(tx => {
+      const event = eventsByTx.get(tx)!;
+      return {
+        asset: tx.asset,
+        quantity: tx.quantity,
+        price: tx.value,
+        value: event.saleValue.toNumber(),
+        estimatedProfit: event.proceeds.minus(event.costOut).toNumber(),
+      };
+    });
+    const before = reports.get(month.year)!.monthlyReports[month.month - 1];
+    const after = simulatedReports.get(month.year)!.monthlyReports[month.month - 1];
+    return {
+      year: month.year,
+      month: month.month,
+      date: month.date,
+      existingSales: month.existingSales.toNumber(),
+      plannedSales: sumDecimals(best!.txs[index].map(tx => eventsByTx.get(tx)!.saleValue)).toNumber(),
+      sales,
+      isExempt: after.isExempt,
+      taxDue: toDecimal(after.taxDue).minus(toDecimal(before.taxDue)).toNumber(),
+    };
+  });
+
+  return {
+    months: resultMonths,
+    totalPlanned: sumDecimals(resultMonths.map(month => toDecimal(month.plannedSales))).toNumber(),
+    shortfall: maxDecimal(toDecimal(request.targetAmount).minus(available), ZERO).toNumber(),
+    estimatedTax: best!.tax.toNumber(),
+  };
+};
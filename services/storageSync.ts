@@ -0,0 +1,144 @@
+import { resolveConcurrentWrites } from './syncMerge';
+
+const CHANNEL_NAME = 'criptofolio-storage';
+
+interface WriteMessage {
+  type: 'write';
+  key: string;
+  value: unknown; // undefined quando a chave foi apagada
+  revision: number;
+  baseRevision: number; // Revisão sobre a qual a gravação foi feita
+  timestamp: number;
+  tabId: string;
+}
+
+// Uma aba recém-aberta pede as revisões atuais, para que sua primeira gravação não pareça concorrente.
+type SyncMessage =
+  | WriteMessage
+  | { type: 'hello'; tabId: string }
+  | { type: 'revisions'; to: string; revisions: Record<string, number> };
+
+interface KnownValue {
+  revision: number;
+  value: unknown;
+  timestamp: number;
+  tabId: string;
+}
+
+type RemoteWriteHandler = (key: string, value: unknown, persist: boolean) => void;
+type KeyListener = (value: unknown) => void;
+
+const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+// Última versão conhecida de cada chave e a versão de que a última gravação desta aba partiu (base da mesclagem).
+const known = new Map<string, KnownValue>();
+const bases = new Map<string, KnownValue>();
+const listeners = new Map<string, Set<KeyListener>>();
+// Revisões informadas pelas outras abas para chaves que esta ainda não leu.
+const adoptedRevisions = new Map<string, number>();
+let remoteWriteHandler: RemoteWriteHandler = () => {};
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const notifyListeners = (key: string, value: unknown) => {
+  listeners.get(key)?.forEach(listener => listener(value));
+};
+
+// Ordem total entre duas gravações, igual em todas as abas.
+const isNewer = (a: KnownValue, b: KnownValue) => a.timestamp > b.timestamp || (a.timestamp === b.timestamp && a.tabId > b.tabId);
+
+const broadcast = (key: string, value: unknown, baseRevision: number) => {
+  const entry: KnownValue = { revision: baseRevision + 1, value, timestamp: Date.now(), tabId };
+  known.set(key, entry);
+  if (!channel) return;
+  const message: WriteMessage = { type: 'write', key, value, revision: entry.revision, baseRevision, timestamp: entry.timestamp, tabId };
+  try {
+    channel.postMessage(message);
+  } catch (error) {
+    console.error(`Falha ao sincronizar "${key}" com as outras abas:`, error);
+  }
+};
+
+/**
+ * Avisa as outras abas de uma gravação feita nesta. Chamada pelo armazenamento do app a cada gravação.
+ */
+export const publishWrite = (key: string, value: unknown): void => {
+  const current = known.get(key) ?? { revision: adoptedRevisions.get(key) ?? 0, value: undefined, timestamp: 0, tabId };
+  bases.set(key, current);
+  broadcast(key, value, current.revision);
+};
+
+const handleWrite = ({ key, value, revision, baseRevision, timestamp, tabId: sender }: WriteMessage) => {
+  const remote: KnownValue = { revision, value, timestamp, tabId: sender };
+  const local = known.get(key);
+
+  if (!local || baseRevision >= local.revision) {
+    known.set(key, remote);
+    remoteWriteHandler(key, value, false);
+    notifyListeners(key, value);
+    return;
+  }
+  if (isEqual(local.value, value)) {
+    known.set(key, { ...local, revision: Math.max(local.revision, revision) });
+    return;
+  }
+
+  // Gravação concorrente: a outra aba gravou sem ter visto a última gravação desta.
+  const base = bases.get(key);
+  const [older, newer] = isNewer(remote, local) ? [local, remote] : [remote, local];
+  const merged = resolveConcurrentWrites(key, base?.revision === baseRevision ? base.value : undefined, older.value, newer.value);
+  const mergedRevision = Math.max(local.revision, revision);
+  remoteWriteHandler(key, merged, true);
+  notifyListeners(key, merged);
+  if (isEqual(merged, value)) {
+    known.set(key, { ...remote, revision: mergedRevision });
+  } else {
+    bases.set(key, { ...local, revision: mergedRevision });
+    broadcast(key, merged, mergedRevision);
+  }
+};
+
+// Vale só para as chaves que esta aba leu do armazenamento e ainda não gravou: o valor lido já é o da revisão informada.
+const adoptRevisions = (revisions: Record<string, number>) => {
+  Object.entries(revisions).forEach(([key, revision]) => {
+    const local = known.get(key);
+    if (!local) adoptedRevisions.set(key, Math.max(adoptedRevisions.get(key) ?? 0, revision));
+    else if (local.timestamp === 0 && local.revision < revision) known.set(key, { ...local, revision });
+  });
+};
+
+const handleMessage = (message: SyncMessage) => {
+  if (message.type === 'write') handleWrite(message);
+  else if (message.type === 'hello') {
+    const revisions = Object.fromEntries(Array.from(known, ([key, entry]) => [key, entry.revision]));
+    channel?.postMessage({ type: 'revisions', to: message.tabId, revisions } satisfies SyncMessage);
+  } else if (message.to === tabId) {
+    adoptRevisions(message.revisions);
+  }
+};
+
+channel?.addEventListener('message', (event: MessageEvent<SyncMessage>) => handleMessage(event.data));
+channel?.postMessage({ type: 'hello', tabId } satisfies SyncMessage);
+
+/**
+ * Define como aplicar ao armazenamento desta aba um valor vindo de outra. `persist` indica que o valor é resultado
+ * de uma mesclagem e precisa ser gravado; senão a aba de origem já o gravou.
+ */
+export const setRemoteWriteHandler = (handler: RemoteWriteHandler): void => {
+  remoteWriteHandler = handler;
+};
+
+/**
+ * Avisa quando outra aba altera a chave. `currentValue` é o valor que a aba tem agora, base das mesclagens
+ * enquanto ela ainda não gravou nem recebeu a chave.
+ */
+export const subscribeToKey = (key: string, currentValue: unknown, listener: KeyListener): (() => void) => {
+  if (!known.has(key)) known.set(key, { revision: adoptedRevisions.get(key) ?? 0, value: currentValue, timestamp: 0, tabId });
+  const keyListeners = listeners.get(key) ?? new Set<KeyListener>();
+  keyListeners.add(listener);
+  listeners.set(key, keyListeners);
+  return () => {
+    keyListeners.delete(listener);
+  };
+};
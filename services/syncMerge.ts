@@ -0,0 +1,92 @@
+import type { Account, ImportColumnMapping } from '../types';
+
+/**
+ * Combina duas gravações concorrentes da mesma chave. `base` é o valor de que as duas partiram (undefined se
+ * desconhecido) e `newer` é a gravação mais recente. Deve ser determinística: todas as abas chegam ao mesmo resultado.
+ */
+export type SyncResolver = (base: unknown, older: unknown, newer: unknown) => unknown;
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Combina campo a campo: vale a alteração mais recente, mas um campo mudado só pela gravação mais antiga é mantido.
+ */
+const mergeFields = <T extends object>(base: T | undefined, older: T, newer: T): T => {
+  const baseRecord = base as Record<string, unknown> | undefined;
+  const olderRecord = older as Record<string, unknown>;
+  const newerRecord = newer as Record<string, unknown>;
+  const result: Record<string, unknown> = { ...olderRecord, ...newerRecord };
+  Object.keys(result).forEach(key => {
+    if (baseRecord && isEqual(newerRecord[key], baseRecord[key]) && !isEqual(olderRecord[key], baseRecord[key])) {
+      result[key] = olderRecord[key];
+    }
+    if (result[key] === undefined) delete result[key];
+  });
+  return result as unknown as T;
+};
+
+/**
+ * Mesclagem de três vias de listas identificadas por `getId`: inclusões e remoções das duas gravações são mantidas.
+ * Um item removido de um lado e alterado do outro é mantido, para não perder a alteração.
+ */
+const mergeById = <T>(
+  base: T[] | undefined,
+  older: T[],
+  newer: T[],
+  getId: (item: T) => string | number,
+  mergeItem: (base: T | undefined, older: T, newer: T) => T = (_base, _older, item) => item
+): T[] => {
+  const baseMap = new Map((base ?? []).map(item => [getId(item), item]));
+  const olderMap = new Map(older.map(item => [getId(item), item]));
+  const newerMap = new Map(newer.map(item => [getId(item), item]));
+  const ids = [...newer.map(getId), ...older.map(getId).filter(id => !newerMap.has(id))];
+
+  return ids.flatMap(id => {
+    const baseItem = baseMap.get(id);
+    const olderItem = olderMap.get(id);
+    const newerItem = newerMap.get(id);
+    if (olderItem !== undefined && newerItem !== undefined) {
+      if (baseItem !== undefined && isEqual(olderItem, baseItem)) return [newerItem];
+      if (baseItem !== undefined && isEqual(newerItem, baseItem)) return [olderItem];
+      return [mergeItem(baseItem, olderItem, newerItem)];
+    }
+    const present = (olderItem ?? newerItem) as T;
+    // Existia antes e um lado o removeu: a remoção vale se o outro lado não o alterou.
+    if (baseItem !== undefined && isEqual(present, baseItem)) return [];
+    return [present];
+  });
+};
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+const optionalArray = <T>(value: unknown): T[] | undefined => (Array.isArray(value) ? (value as T[]) : undefined);
+
+const mergeAccount = (base: Account | undefined, older: Account, newer: Account): Account => ({
+  ...mergeFields(base, older, newer),
+  transactions: mergeById(base?.transactions, older.transactions, newer.transactions, tx => tx.id, mergeFields),
+});
+
+const byId = (base: unknown, older: unknown, newer: unknown) =>
+  mergeById(optionalArray<{ id: string }>(base), asArray<{ id: string }>(older), asArray<{ id: string }>(newer), item => item.id, mergeFields);
+
+const byValue = (base: unknown, older: unknown, newer: unknown) =>
+  mergeById(optionalArray<string | number>(base), asArray<string | number>(older), asArray<string | number>(newer), item => item);
+
+/**
+ * Chaves cujas gravações concorrentes são mescladas. As demais (configurações) ficam com a gravação mais recente.
+ */
+export const SYNC_RESOLVERS: Record<string, SyncResolver> = {
+  accounts: (base, older, newer) =>
+    mergeById(optionalArray<Account>(base), asArray<Account>(older), asArray<Account>(newer), acc => acc.id, mergeAccount),
+  priceAlerts: byId,
+  darfPayments: byId,
+  watchlist: byValue,
+  activeAccountIds: byValue,
+  importMappings: (base, older, newer) =>
+    mergeById(optionalArray<ImportColumnMapping>(base), asArray<ImportColumnMapping>(older), asArray<ImportColumnMapping>(newer), mapping => mapping.name),
+};
+
+export const resolveConcurrentWrites = (key: string, base: unknown, older: unknown, newer: unknown): unknown => {
+  if (older === undefined || newer === undefined) return newer;
+  const resolver = SYNC_RESOLVERS[key];
+  return resolver ? resolver(base, older, newer) : newer;
+};
@@ -0,0 +1,79 @@
+import type { CryptoData } from '../types';
+
+const LOCK_NAME = 'criptofolio-leader';
+const CHANNEL_NAME = 'criptofolio-tabs';
+
+/**
+ * Mensagens trocadas entre as abas. A aba líder busca os preços e roda as tarefas em segundo plano;
+ * as demais recebem os resultados e informam à líder os ativos que precisam.
+ */
+export type TabMessage =
+  | { type: 'leader'; tabId: string } // Nova líder: as demais reenviam seus ativos
+  | { type: 'symbols'; tabId: string; symbols: string[] }
+  | { type: 'bye'; tabId: string } // Aba fechando
+  | { type: 'refresh' } // Atualização manual pedida por uma aba seguidora
+  | { type: 'prices'; cryptoData: CryptoData; lastUpdated: number }
+  | { type: 'alert'; message: string }; // Alerta disparado, para aparecer também nas outras abas
+
+type LeadershipListener = (isLeader: boolean) => void;
+type MessageListener = (message: TabMessage) => void;
+
+export const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+const leadershipListeners = new Set<LeadershipListener>();
+let isLeaderTab = false;
+let electionStarted = false;
+
+const becomeLeader = () => {
+  isLeaderTab = true;
+  leadershipListeners.forEach(listener => listener(true));
+  postTabMessage({ type: 'leader', tabId });
+};
+
+/**
+ * Entra na eleição de líder. A liderança é uma trava da Web Locks API mantida enquanto a aba existir: quando a
+ * líder fecha, o navegador libera a trava e a próxima aba da fila assume. Sem a API (ou sem BroadcastChannel para
+ * compartilhar os resultados), cada aba age como líder de si mesma, como antes: todas buscam preços e rodam as
+ * tarefas em segundo plano, e a busca fica duplicada. A Web Locks API existe em todos os navegadores atuais.
+ */
+export const startLeaderElection = (): void => {
+  if (electionStarted) return;
+  electionStarted = true;
+  window.addEventListener('pagehide', () => postTabMessage({ type: 'bye', tabId }));
+  if (!channel || !navigator.locks) {
+    becomeLeader();
+    return;
+  }
+  navigator.locks
+    .request(LOCK_NAME, () => {
+      becomeLeader();
+      return new Promise<void>(() => {});
+    })
+    .catch(error => {
+      console.error('Falha na eleição da aba líder:', error);
+      becomeLeader();
+    });
+};
+
+export const subscribeToLeadership = (listener: LeadershipListener): (() => void) => {
+  leadershipListeners.add(listener);
+  listener(isLeaderTab);
+  return () => {
+    leadershipListeners.delete(listener);
+  };
+};
+
+export const postTabMessage = (message: TabMessage): void => {
+  try {
+    channel?.postMessage(message);
+  } catch (error) {
+    console.error('Falha ao enviar mensagem às outras abas:', error);
+  }
+};
+
+export const subscribeToTabMessages = (listener: MessageListener): (() => void) => {
+  const handler = (event: MessageEvent<TabMessage>) => listener(event.data);
+  channel?.addEventListener('message', handler);
+  return () => channel?.removeEventListener('message', handler);
+};
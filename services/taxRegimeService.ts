@@ -0,0 +1,33 @@
+import type { Account, CostBasisMethod, TaxRegime } from '../types';
+import { buildLedger, type Ledger } from './ledgerService';
+import { resolveTransfers } from './transferService';
+import { resolveCostBasisMethod } from './costBasisService';
+
+export const TAX_REGIME_LABELS: Record<TaxRegime, string> = {
+  domestic: 'Nacional (apuração mensal)',
+  foreign: 'Exterior (Lei 14.754/2023, apuração anual)',
+};
+
+export const getAccountTaxRegime = (account: Account): TaxRegime => account.taxRegime ?? 'domestic';
+
+/**
+ * Ledgers separados por regime de tributação para as contas ativas, ou null quando todas são nacionais
+ * (nesse caso vale o ledger consolidado).
+ *
+ * Cada regime recebe apenas as transações das suas contas. Transferências entre contas de regimes diferentes
+ * saem de um ledger e entram no outro com o custo dos lotes retirados, sem configurar alienação.
+ */
+export const buildTaxLedgers = (accounts: Account[], activeAccountIds: number[], appMethod: CostBasisMethod): Record<TaxRegime, Ledger> | null => {
+  const activeAccounts = accounts.filter(acc => activeAccountIds.includes(acc.id));
+  if (activeAccounts.every(acc => getAccountTaxRegime(acc) === 'domestic')) return null;
+
+  const buildRegimeLedger = (regime: TaxRegime): Ledger => {
+    const regimeAccounts = activeAccounts.filter(acc => getAccountTaxRegime(acc) === regime);
+    return buildLedger(
+      resolveTransfers(accounts, regimeAccounts.map(acc => acc.id), appMethod),
+      resolveCostBasisMethod(regimeAccounts, appMethod)
+    );
+  };
+
+  return { domestic: buildRegimeLedger('domestic'), foreign: buildRegimeLedger('foreign') };
+};
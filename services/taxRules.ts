@@ -0,0 +1,70 @@
+import type { TaxBracket, TaxRules } from '../types';
+import { Decimal, ZERO, minDecimal, toDecimal } from './decimal';
+
+/**
+ * Regras atuais do ganho de capital (Lei 13.259/2016): isenção para vendas mensais de até R$ 35.000,00 e
+ * alíquotas progressivas por faixa de ganho.
+ */
+export const DEFAULT_TAX_RULES: TaxRules = {
+  exemptionLimit: 35000,
+  brackets: [
+    { upTo: 5000000, rate: 15 },
+    { upTo: 10000000, rate: 17.5 },
+    { upTo: 30000000, rate: 20 },
+    { upTo: null, rate: 22.5 },
+  ],
+};
+
+/**
+ * Alíquota anual única (%) sobre o ganho em contas no exterior (Lei 14.754/2023), sem isenção mensal.
+ */
+export const FOREIGN_ANNUAL_TAX_RATE = 15;
+
+/**
+ * Imposto sobre o ganho pelas faixas progressivas: cada alíquota incide apenas sobre a parte do ganho dentro da sua faixa.
+ * A alíquota marginal é a da última faixa alcançada.
+ */
+export const calculateProgressiveTax = (gain: Decimal, brackets: TaxBracket[]): { tax: Decimal; marginalRate: number } => {
+  let tax = ZERO;
+  let marginalRate = 0;
+  let lowerBound = ZERO;
+  for (const bracket of brackets) {
+    if (gain.lte(lowerBound)) break;
+    const upperBound = bracket.upTo === null ? gain : minDecimal(gain, toDecimal(bracket.upTo));
+    tax = tax.plus(upperBound.minus(lowerBound).times(toDecimal(bracket.rate)).div(100));
+    marginalRate = bracket.rate;
+    if (bracket.upTo === null) break;
+    lowerBound = toDecimal(bracket.upTo);
+  }
+  return { tax, marginalRate };
+};
+
+/**
+ * Valida regras editadas pelo usuário. Retorna a mensagem do primeiro problema encontrado, ou null.
+ */
+export const validateTaxRules = (rules: TaxRules): string | null => {
+  if (!Number.isFinite(rules.exemptionLimit) || rules.exemptionLimit < 0) {
+    return 'O limite de isenção deve ser um valor maior ou igual a zero.';
+  }
+  if (rules.brackets.length === 0) {
+    return 'Informe ao menos uma faixa de alíquota.';
+  }
+  for (let i = 0; i < rules.brackets.length; i++) {
+    const { upTo, rate } = rules.brackets[i];
+    const isLast = i === rules.brackets.length - 1;
+    if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+      return `Faixa ${i + 1}: a alíquota deve estar entre 0% e 100%.`;
+    }
+    if (isLast && upTo !== null) {
+      return 'A última faixa não deve ter limite superior.';
+    }
+    if (!isLast && (upTo === null || !Number.isFinite(upTo) || upTo <= 0)) {
+      return `Faixa ${i + 1}: informe o limite superior.`;
+    }
+    const previous = rules.brackets[i - 1];
+    if (!isLast && previous && upTo! <= previous.upTo!) {
+      return `Faixa ${i + 1}: o limite deve ser maior que o da faixa anterior.`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,50 @@
+import type { Transaction, TransactionType, IncomeTransactionType } from '../types';
+
+export const INCOME_TRANSACTION_TYPES: IncomeTransactionType[] = ['staking', 'airdrop', 'interest', 'gift'];
+
+/**
+ * Rótulos exibidos na interface e usados nas colunas "Operação" da importação/exportação do Excel.
+ */
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  buy: 'Compra',
+  sell: 'Venda',
+  swap: 'Permuta',
+  transfer: 'Transferência',
+  transfer_in: 'Transferência Recebida',
+  staking: 'Staking',
+  airdrop: 'Airdrop',
+  interest: 'Juros',
+  gift: 'Doação',
+};
+
+export const isIncomeType = (type: TransactionType): type is IncomeTransactionType =>
+  (INCOME_TRANSACTION_TYPES as TransactionType[]).includes(type);
+
+/**
+ * Tipos que o usuário pode registrar. Transferências recebidas são derivadas da conta de origem.
+ */
+export const EDITABLE_TRANSACTION_TYPES = (Object.keys(TRANSACTION_TYPE_LABELS) as TransactionType[])
+  .filter(type => type !== 'transfer_in');
+
+export const isTransferType = (type: TransactionType): boolean => type === 'transfer' || type === 'transfer_in';
+
+/**
+ * Indica se a transação adiciona o ativo à carteira (compras e rendimentos recebidos).
+ */
+export const isAcquisition = (tx: Transaction): boolean => tx.type === 'buy' || isIncomeType(tx.type);
+
+/**
+ * Ativos movimentados pela transação. Permutas envolvem o ativo entregue e o ativo recebido.
+ */
+export const getTransactionAssets = (tx: Transaction): string[] =>
+  tx.type === 'swap' && tx.toAsset ? [tx.asset, tx.toAsset] : [tx.asset];
+
+export const involvesAsset = (tx: Transaction, symbol: string): boolean => getTransactionAssets(tx).includes(symbol);
+
+/**
+ * Converte o texto da coluna "Operação" (sem diferenciar maiúsculas) para o tipo da transação.
+ */
+export const parseTransactionTypeLabel = (label: string): TransactionType | null => {
+  const normalized = label.toLowerCase().trim();
+  return EDITABLE_TRANSACTION_TYPES.find(type => TRANSACTION_TYPE_LABELS[type].toLowerCase() === normalized) ?? null;
+};
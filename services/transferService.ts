@@ -0,0 +1,49 @@
+import type { Account, CostBasisMethod, Transaction } from '../types';
+import { calculateTransferCosts, getTransferReceivedQuantity } from './ledgerService';
+import { ZERO } from './decimal';
+
+/**
+ * Monta a lista de transações das contas ativas incluindo as transferências recebidas.
+ *
+ * Cada transferência é gravada uma única vez, na conta de origem. Quando a conta de destino está ativa,
+ * uma entrada 'transfer_in' é derivada com a quantidade recebida (descontada a taxa de rede no ativo) e o
+ * custo dos lotes que a conta de origem retirou, pelo seu próprio método de custo. As entradas derivadas ficam
+ * depois das transações originais para que, na visão consolidada, a saída seja processada antes da entrada do mesmo dia.
+ * Transferências para contas que não existem mais são tratadas apenas como saída.
+ */
+export const resolveTransfers = (accounts: Account[], activeAccountIds: number[], appMethod: CostBasisMethod): Transaction[] => {
+    const activeTransactions = accounts
+        .filter(acc => activeAccountIds.includes(acc.id))
+        .flatMap(acc => acc.transactions);
+
+    const outgoing = accounts.flatMap(acc => acc.transactions
+        .filter(tx => tx.type === 'transfer' && tx.transferId && tx.toAccountId !== undefined
+            && activeAccountIds.includes(tx.toAccountId) && accounts.some(other => other.id === tx.toAccountId))
+        .map(tx => ({ fromAccountId: acc.id, tx })));
+
+    if (outgoing.length === 0) return activeTransactions;
+
+    const carriedCosts = calculateTransferCosts(accounts, appMethod);
+    const incoming = outgoing.map(({ fromAccountId, tx }, index): Transaction => {
+        const quantity = getTransferReceivedQuantity(tx);
+        const carriedCost = carriedCosts.get(tx.transferId!) ?? ZERO;
+        return {
+            id: -(index + 1), // Derived entries never collide with stored (positive) ids
+            type: 'transfer_in',
+            date: tx.date,
+            asset: tx.asset,
+            quantity: quantity.toNumber(),
+            value: quantity.gt(0) ? carriedCost.div(quantity).toNumber() : 0,
+            fromAccountId,
+            toAccountId: tx.toAccountId,
+            transferId: tx.transferId,
+        };
+    });
+
+    return [...activeTransactions, ...incoming];
+};
+
+/**
+ * Gera o identificador que liga a saída da conta de origem à entrada derivada na conta de destino.
+ */
+export const createTransferId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
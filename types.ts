@@ -1,12 +1,42 @@
 
 
+export type FeeCurrency = 'BRL' | 'asset';
+
+// Income received in kind; `value` holds the fair value per unit at receipt.
+export type IncomeTransactionType = 'staking' | 'airdrop' | 'interest' | 'gift';
+// 'transfer_in' is never stored: it is derived from the source account's 'transfer' when building the active view.
+export type TransactionType = 'buy' | 'sell' | 'swap' | 'transfer' | 'transfer_in' | IncomeTransactionType;
+
 export interface Transaction {
   id: number;
-  type: 'buy' | 'sell';
+  type: TransactionType;
   date: string; // YYY-MM-DD
   asset: string;
   quantity: number;
-  value: number; // Price per unit in BRL
+  value: number; // Price per unit in BRL (swaps: BRL value per unit of the asset given)
+  fee?: number; // Exchange fee paid on the trade
+  feeCurrency?: FeeCurrency; // Defaults to BRL when omitted
+  toAsset?: string; // Swaps: asset received
+  toQuantity?: number; // Swaps: quantity received
+  toAccountId?: number; // Transfers: destination account
+  fromAccountId?: number; // Incoming transfers: source account
+  transferId?: string; // Transfers: links the outgoing record to the incoming entry derived from it
+}
+
+export type CostBasisMethod = 'average' | 'fifo' | 'lifo' | 'hifo';
+
+// 'foreign': offshore exchange, taxed yearly under Lei 14.754/2023 instead of monthly with the domestic exemption
+export type TaxRegime = 'domestic' | 'foreign';
+
+// An open acquisition lot as shown to the user. Transfers keep the original date and cost of the lots they move.
+export interface OpenLot {
+  symbol: string;
+  date: string; // YYYY-MM-DD
+  quantity: number;
+  unitCost: number; // BRL per unit, fees included
+  ageInDays: number;
+  currentValue: number;
+  unrealizedProfit: number;
 }
 
 export interface CryptoData {
@@ -20,6 +50,8 @@ export interface Account {
   id: number;
   name: string;
   transactions: Transaction[];
+  costBasisMethod?: CostBasisMethod; // Overrides the app-wide method when set
+  taxRegime?: TaxRegime; // Defaults to 'domestic'
 }
 
 export interface AssetPerformance {
@@ -92,12 +124,26 @@ export type ChartProfitType = 'totalProfit' | 'realizedProfit' | 'unrealizedProf
 
 // --- Tipos para a Seção de Impostos ---
 
+// Capital-gains bracket: `rate` (percent) applies to the part of the monthly gain up to `upTo` (BRL); null means no ceiling
+export interface TaxBracket {
+  upTo: number | null;
+  rate: number;
+}
+
+export interface TaxRules {
+  exemptionLimit: number; // Monthly sales (BRL) up to which gains are exempt
+  brackets: TaxBracket[]; // Ascending; the last one has no ceiling
+}
+
 export interface MonthlyTaxReport {
   month: number; // 1-12
   year: number;
   totalSales: number;
   realizedProfit: number;
   isExempt: boolean;
+  lossCompensated: number; // Accumulated loss offset against this month's gain
+  accumulatedLoss: number; // Loss balance carried forward after this month
+  marginalRate: number; // Percent of the highest bracket the taxable gain reached; 0 when no tax is due
   taxDue: number;
 }
 
@@ -106,9 +152,237 @@ export interface AnnualTaxReport {
   totalTaxDue: number;
   totalTaxableSales: number;
   taxableMonthsCount: number;
+  openingAccumulatedLoss: number; // Carried over from previous years
+  totalLossCompensated: number;
+  accumulatedLoss: number; // Left to carry into the next year
   monthlyReports: MonthlyTaxReport[];
 }
 
+// A hypothetical sale, run through the tax engine without being saved
+export interface SimulatedSale {
+  asset: string;
+  quantity: number;
+  price: number; // BRL per unit
+  fee?: number; // BRL
+  date: string; // YYYY-MM-DD
+}
+
+// What a simulated sale does to the tax of its month, compared to the month as it stands
+export interface SaleTaxImpact {
+  availableQuantity: number; // Position on the sale date, before the sale
+  saleValue: number;
+  costBasis: number;
+  realizedProfit: number; // Of the simulated sale alone, net of fees
+  before: MonthlyTaxReport;
+  after: MonthlyTaxReport;
+  crossesExemption: boolean; // The sale takes the month over the exemption limit
+  additionalTax: number;
+}
+
+// A losing open position and what selling all of it today would do to this month's tax
+export interface HarvestingCandidate {
+  symbol: string;
+  quantity: number;
+  currentValue: number;
+  costBasis: number;
+  loss: number; // Realized by the sale, as a positive amount
+  taxSaved: number; // Negative when the sale makes the month taxable and raises its tax
+  impact: SaleTaxImpact;
+}
+
+export interface TaxLossHarvestingReport {
+  monthReport: MonthlyTaxReport; // Current month as it stands
+  candidates: HarvestingCandidate[];
+}
+
+// Gains of foreign-regime accounts, taxed once a year at a flat rate with no monthly exemption
+export interface ForeignTaxReport {
+  year: number;
+  totalSales: number;
+  realizedProfit: number;
+  openingAccumulatedLoss: number; // Carried over from previous years
+  lossCompensated: number;
+  accumulatedLoss: number; // Left to carry into the next year
+  rate: number; // Percent
+  taxDue: number;
+  dueDate: string; // YYYY-MM-DD, with the annual declaration
+}
+
+// One item of the IRPF "Bens e Direitos" declaration (group 08, criptoativos), valued at cost
+export interface BensDireitosItem {
+  symbol: string;
+  group: string; // '08'
+  code: string; // '01' Bitcoin, '02' altcoins, '03' stablecoins
+  previousQuantity: number; // On 31/12 of the previous year
+  previousCost: number;
+  currentQuantity: number; // On 31/12 of the report year
+  currentCost: number;
+  description: string; // Discriminação
+}
+
+export interface BensDireitosReport {
+  year: number;
+  items: BensDireitosItem[];
+  totalPreviousCost: number;
+  totalCurrentCost: number;
+}
+
+export interface IncomeReport {
+  year: number;
+  totalIncome: number;
+  byAsset: { symbol: string; quantity: number; value: number }[];
+  byMonth: { month: number; value: number; byType: Record<IncomeTransactionType, number> }[]; // month: 1-12
+}
+
+// --- Tipos para DARF ---
+
+// Monthly Selic rate in percent, keyed by 'YYYY-MM'
+export type SelicRateTable = Record<string, number>;
+
+export interface Darf {
+  year: number;
+  month: number; // Período de apuração, 1-12
+  revenueCode: string;
+  dueDate: string; // YYYY-MM-DD
+  principal: number;
+  daysLate: number;
+  fine: number;
+  interest: number;
+  total: number;
+  estimatedInterest: boolean; // Some month had no Selic rate and the last known one was used
+  belowMinimum: boolean; // Under the R$ 10,00 a DARF can be issued for
+}
+
+export interface DarfPayment {
+  id: string;
+  year: number;
+  month: number; // Período de apuração, 1-12
+  revenueCode: string;
+  dueDate: string; // YYYY-MM-DD
+  paidAt: string; // YYYY-MM-DD
+  principal: number;
+  fine: number;
+  interest: number;
+  total: number;
+}
+
+// --- Tipos para o Planejador de Vendas ---
+export interface SellPlanRequest {
+  targetAmount: number; // BRL to raise
+  deadline: string; // YYYY-MM, last month of the plan
+  assets: string[]; // Assets the user is willing to sell
+  safetyMargin: number; // Percent of the exemption limit left unused, so price moves don't break it
+}
+
+export interface PlannedSale {
+  asset: string;
+  quantity: number;
+  price: number; // Current price, assumed for the whole plan
+  value: number;
+  estimatedProfit: number;
+}
+
+export interface SellPlanMonth {
+  year: number;
+  month: number; // 1-12
+  date: string; // YYYY-MM-DD the sales were simulated on
+  existingSales: number; // Already recorded in the month
+  plannedSales: number;
+  sales: PlannedSale[];
+  isExempt: boolean; // With the planned sales
+  taxDue: number; // Added by the planned sales
+}
+
+export interface SellPlan {
+  months: SellPlanMonth[];
+  totalPlanned: number;
+  shortfall: number; // Part of the target the selected assets can't cover
+  estimatedTax: number;
+}
+
+// --- Tipos para o Assistente de Importação ---
+export type ImportField = 'type' | 'date' | 'asset' | 'quantity' | 'value' | 'total' | 'fee' | 'feeCurrency' | 'toAsset' | 'toQuantity' | 'toAccount';
+
+export type ImportDateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+
+// A named, reusable recipe for reading a spreadsheet whose headers the built-in importers don't know
+export interface ImportColumnMapping {
+  name: string;
+  columns: Partial<Record<ImportField, string>>; // Field -> source column header
+  dateFormat: ImportDateFormat; // Applies to text cells; real spreadsheet dates are read as they are
+  decimalSeparator: ',' | '.';
+  defaultType?: TransactionType; // Used when no column holds the operation
+}
+
+export interface ImportPreviewRow {
+  line: number; // Line in the source file, as shown in error messages
+  transaction: Omit<Transaction, 'id'> | null; // Null when the row has errors
+  errors: string[];
+}
+
+// Relative differences still treated as the same trade, e.g. 0.01 = 1%
+export interface DuplicateTolerance {
+  quantity: number;
+  value: number;
+}
+
+// What to do with an imported row that matches a stored transaction
+export type DuplicateAction = 'skip' | 'merge' | 'import';
+
+// --- Tipos para Backup ---
+export type RestoreMode = 'merge' | 'replace';
+
+// Whole-app snapshot; `data` mirrors the localStorage keys listed in backupService
+export interface BackupFile {
+  app: 'criptofolio';
+  schemaVersion: number; // Format of the file itself
+  storageVersion: number; // Storage migrations already applied to `data`
+  exportedAt: string; // ISO timestamp
+  data: Record<string, unknown>; // Storage key -> stored value
+}
+
+export interface BackupSummary {
+  schemaVersion: number; // Version the file was written with, before migration
+  exportedAt: string | null; // Unknown for legacy files
+  accounts: number;
+  transactions: number;
+  keys: string[]; // Labels of the data the file holds
+  includesApiKeys: boolean;
+}
+
+// --- Tipos para Criptografia ---
+// AES-GCM ciphertext with everything but the passphrase needed to decrypt it
+export interface EncryptedPayload {
+  salt: string; // Base64 PBKDF2 salt
+  iterations: number; // PBKDF2 iterations
+  iv: string; // Base64 AES-GCM nonce
+  ciphertext: string; // Base64, authentication tag included
+}
+
+// Backup protected by a passphrase; `encrypted` holds the JSON of a BackupFile
+export interface EncryptedBackupFile {
+  app: 'criptofolio';
+  schemaVersion: number;
+  encrypted: EncryptedPayload;
+}
+
+// --- Tipos para o Bloqueio do App ---
+export interface AppLockSettings {
+  pinHash: string; // Base64 PBKDF2 hash of the PIN
+  salt: string; // Base64
+  iterations: number;
+  idleMinutes: number; // Locks after this much inactivity; 0 disables auto-lock
+}
+
+// --- Tipos para Armazenamento ---
+export interface StorageUsage {
+  indexedDbActive: boolean; // False when large keys fell back to localStorage
+  localStorageBytes: number;
+  keys: { key: string; bytes: number }[]; // Large keys, biggest first
+  usage: number | null; // Whole-site usage reported by the browser
+  quota: number | null;
+}
+
 // --- Tipos para a Seção de Rebalanceamento ---
 export interface RebalanceSuggestion {
   symbol: string;